@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Uploaded .ics files (up to 5 MB) are sent through a server action
+      bodySizeLimit: "6mb",
+    },
+  },
 };
 
 export default nextConfig;
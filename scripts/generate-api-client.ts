@@ -0,0 +1,229 @@
+/**
+ * Generates the typed REST API client (src/lib/apiClient.ts) from the OpenAPI
+ * document served at /api/openapi.json
+ * Usage: npm run generate:api-client
+ */
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  additionalProperties?: boolean | JsonSchema;
+}
+
+interface Parameter {
+  name: string;
+  in: string;
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+// npm scripts run from the project root
+const OUTPUT_PATH = resolve('src/lib/apiClient.ts');
+
+const pascalCase = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const refName = (ref: string): string => ref.slice(ref.lastIndexOf('/') + 1);
+
+const literal = (value: unknown): string =>
+  typeof value === 'string' ? `'${value.replace(/[\\']/g, '\\$&')}'` : JSON.stringify(value);
+
+const propertyKey = (name: string): string => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name));
+
+/**
+ * TypeScript type of a JSON Schema, as emitted by z.toJSONSchema
+ */
+function toType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return schema.anyOf.map((option) => toType(option, indent)).join(' | ');
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const itemType = schema.items ? toType(schema.items, indent) : 'unknown';
+      return /[ |]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+    }
+    case 'object':
+      return schema.properties ? toObjectType(schema, indent) : 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function toObjectType(schema: JsonSchema, indent: string): string {
+  const required = schema.required ?? [];
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const optional = required.includes(name) ? '' : '?';
+    return `${indent}  ${propertyKey(name)}${optional}: ${toType(property, `${indent}  `)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+const jsonSchemaOf = (content?: Record<string, { schema: JsonSchema }>): JsonSchema | null =>
+  content?.['application/json']?.schema ?? null;
+
+function generate(): string {
+  const document = buildOpenApiDocument('http://localhost');
+  const basePath = new URL(document.servers[0].url).pathname;
+  const schemas = document.components.schemas as Record<string, JsonSchema>;
+
+  const types: string[] = Object.entries(schemas).map(([name, schema]) =>
+    schema.type === 'object' && schema.properties
+      ? `export interface ${name} ${toObjectType(schema, '')}`
+      : `export type ${name} = ${toType(schema)};`
+  );
+
+  const methods: string[] = [];
+
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(pathItem as Record<string, Operation>)) {
+      const parameters = operation.parameters ?? [];
+      const pathParams = parameters.filter((parameter) => parameter.in === 'path');
+      const queryParams = parameters.filter((parameter) => parameter.in === 'query');
+
+      const args: string[] = pathParams.map((parameter) => `${parameter.name}: ${toType(parameter.schema)}`);
+      const requestOptions: string[] = [];
+
+      if (queryParams.length > 0) {
+        const queryType = `${pascalCase(operation.operationId)}Query`;
+        types.push(
+          `export interface ${queryType} ${toObjectType(
+            {
+              properties: Object.fromEntries(queryParams.map((parameter) => [parameter.name, parameter.schema])),
+              required: queryParams.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+            },
+            ''
+          )}`
+        );
+        const optional = queryParams.some((parameter) => parameter.required) ? '' : '?';
+        args.push(`query${optional}: ${queryType}`);
+        requestOptions.push('query');
+      }
+
+      const bodySchema = jsonSchemaOf(operation.requestBody?.content);
+      if (bodySchema) {
+        args.push(`body${operation.requestBody?.required ? '' : '?'}: ${toType(bodySchema)}`);
+        requestOptions.push('body');
+      }
+
+      // Payload of the first 2xx response, unwrapped from { data }
+      const [successStatus] = Object.keys(operation.responses).filter((status) => status.startsWith('2'));
+      const successSchema = jsonSchemaOf(operation.responses[successStatus]?.content);
+      const resultType = successSchema ? `${toType(successSchema)}['data']` : 'void';
+
+      const urlPath = pathParams.reduce(
+        (url, parameter) => url.replace(`{${parameter.name}}`, `\${encodeURIComponent(${parameter.name})}`),
+        path
+      );
+      const options = requestOptions.length > 0 ? `, { ${requestOptions.join(', ')} }` : '';
+
+      methods.push(
+        [
+          `    /** ${operation.summary} */`,
+          `    ${operation.operationId}: (${args.join(', ')}) =>`,
+          `      request<${resultType}>('${method.toUpperCase()}', \`${urlPath}\`${options}),`,
+        ].join('\n')
+      );
+    }
+  }
+
+  return `/**
+ * REST API client (/api/v1)
+ * Generated from the OpenAPI document by scripts/generate-api-client.ts;
+ * don't edit by hand, run \`npm run generate:api-client\` instead.
+ */
+
+${types.join('\n\n')}
+
+export type ApiClientResult<T> =
+  | { success: true; status: number; data: T }
+  | { success: false; status: number; error: string; code: string };
+
+export interface ApiClientOptions {
+  apiKey: string;
+  baseUrl?: string; // e.g. https://tu-app.vercel.app${basePath}; same origin by default
+  fetch?: typeof fetch;
+}
+
+export function createApiClient({ apiKey, baseUrl = '${basePath}', fetch: fetchImpl = fetch }: ApiClientOptions) {
+  const request = async <T>(
+    method: string,
+    path: string,
+    { query, body }: { query?: object; body?: unknown } = {}
+  ): Promise<ApiClientResult<T>> => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined && value !== null) search.set(key, String(value));
+    }
+
+    const queryString = search.toString();
+
+    let response: Response;
+    try {
+      response = await fetchImpl(\`\${baseUrl.replace(/\\/+$/, '')}\${path}\${queryString ? \`?\${queryString}\` : ''}\`, {
+        method,
+        headers: {
+          Authorization: \`Bearer \${apiKey}\`,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      return { success: false, status: 0, error: (error as Error).message, code: 'NETWORK_ERROR' };
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      return {
+        success: false,
+        status: response.status,
+        error: payload?.error?.message ?? response.statusText,
+        code: payload?.error?.code ?? 'SERVER_ERROR',
+      };
+    }
+
+    return { success: true, status: response.status, data: payload?.data as T };
+  };
+
+  return {
+${methods.join('\n')}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+}
+
+try {
+  writeFileSync(OUTPUT_PATH, generate());
+  console.log(`API client written to ${OUTPUT_PATH}`);
+} catch (error) {
+  console.error('Error generating API client:', error);
+  process.exitCode = 1;
+}
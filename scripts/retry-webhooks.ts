@@ -0,0 +1,14 @@
+/**
+ * Retries the webhook deliveries that are due, same as /api/cron/webhooks
+ * Usage: npm run webhooks
+ */
+import { retryDueWebhookDeliveries } from '@/lib/webhooks';
+
+retryDueWebhookDeliveries()
+  .then((result) => {
+    console.log(`Webhook deliveries due: ${result.due}, delivered: ${result.delivered}, failed: ${result.failed}`);
+  })
+  .catch((error) => {
+    console.error('Error retrying webhooks:', error);
+    process.exitCode = 1;
+  });
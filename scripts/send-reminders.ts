@@ -0,0 +1,15 @@
+/**
+ * Sends the booking reminders that are due, same as /api/cron/reminders
+ * Usage: npm run reminders
+ */
+import { runDueReminders } from '@/lib/reminders';
+
+runDueReminders()
+  .then((result) => {
+    console.log(`Reminders due: ${result.due}, sent: ${result.sent}, failed: ${result.failed}`);
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  })
+  .catch((error) => {
+    console.error('Error running reminders:', error);
+    process.exitCode = 1;
+  });
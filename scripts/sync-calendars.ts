@@ -0,0 +1,15 @@
+/**
+ * Re-imports the hosts' external calendars, same as /api/cron/external-calendars
+ * Usage: npm run sync-calendars
+ */
+import { refreshExternalCalendars } from '@/lib/externalCalendars';
+
+refreshExternalCalendars()
+  .then((result) => {
+    console.log(`External calendars synced: ${result.synced}, failed: ${result.failed}`);
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  })
+  .catch((error) => {
+    console.error('Error syncing external calendars:', error);
+    process.exitCode = 1;
+  });
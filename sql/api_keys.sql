@@ -0,0 +1,91 @@
+-- ============================================
+-- API KEYS
+-- Run this in Supabase SQL Editor (after schema.sql)
+-- ============================================
+
+-- Keys for the REST API (/api/v1), each acting as the host that created it.
+-- Only a SHA-256 hash is stored: the key itself is shown once, when created.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(20) NOT NULL, -- first characters, to tell keys apart in the admin panel
+  key_hash CHAR(64) NOT NULL UNIQUE, -- hex SHA-256 of the key
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute BETWEEN 1 AND 1000),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ, -- revoked keys are kept so the panel can show them
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Requests per key and minute, for the rate limit
+CREATE TABLE IF NOT EXISTS api_rate_limits (
+  key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+-- Index
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Counts one request of a key in the current fixed window and tells whether
+-- it's allowed. Atomic, so concurrent requests can't all slip under the limit.
+CREATE OR REPLACE FUNCTION consume_api_rate_limit(
+  p_key_id UUID,
+  p_limit INTEGER,
+  p_window_seconds INTEGER DEFAULT 60
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ;
+  v_count INTEGER;
+BEGIN
+  v_window_start := to_timestamp(floor(extract(epoch FROM NOW()) / p_window_seconds) * p_window_seconds);
+
+  INSERT INTO api_rate_limits (key_id, window_start, request_count)
+  VALUES (p_key_id, v_window_start, 1)
+  ON CONFLICT (key_id, window_start)
+  DO UPDATE SET request_count = api_rate_limits.request_count + 1
+  RETURNING request_count INTO v_count;
+
+  -- Past windows are no longer needed
+  DELETE FROM api_rate_limits
+  WHERE key_id = p_key_id AND window_start < v_window_start;
+
+  RETURN QUERY SELECT
+    v_count <= p_limit,
+    GREATEST(p_limit - v_count, 0),
+    v_window_start + make_interval(secs => p_window_seconds);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the API (service role) counts requests
+REVOKE EXECUTE ON FUNCTION consume_api_rate_limit(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- RLS POLICIES FOR API_KEYS
+-- ============================================
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_rate_limits ENABLE ROW LEVEL SECURITY; -- no policies: service role only
+
+CREATE POLICY "Admin can view own API keys"
+ON api_keys FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admin can create own API keys"
+ON api_keys FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- Revoking is an update (revoked_at); keys are never edited otherwise
+CREATE POLICY "Admin can update own API keys"
+ON api_keys FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
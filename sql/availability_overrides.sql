@@ -0,0 +1,65 @@
+-- ============================================
+-- AVAILABILITY OVERRIDES TABLE
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- Date-specific exceptions to the weekly availability_rules:
+-- closed days/ranges (vacations, holidays) or custom hours for specific dates
+CREATE TABLE IF NOT EXISTS availability_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL, -- Host-local calendar date (inclusive)
+  end_date DATE NOT NULL, -- Host-local calendar date (inclusive)
+  is_closed BOOLEAN NOT NULL DEFAULT true, -- true = no availability, false = use intervals instead of weekly rules
+  intervals JSONB NOT NULL DEFAULT '[]', -- [{ "start_time": "10:00", "end_time": "14:00" }, ...]
+  reason VARCHAR(255), -- e.g. 'Vacaciones', 'Feriado'
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Validations
+  CONSTRAINT valid_override_range CHECK (end_date >= start_date),
+  CONSTRAINT valid_override_intervals CHECK (
+    jsonb_typeof(intervals) = 'array'
+    AND (is_closed OR jsonb_array_length(intervals) > 0)
+  )
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_availability_overrides_user ON availability_overrides(user_id);
+CREATE INDEX IF NOT EXISTS idx_availability_overrides_dates ON availability_overrides(start_date, end_date);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_availability_overrides_updated_at
+BEFORE UPDATE ON availability_overrides
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS POLICIES FOR AVAILABILITY_OVERRIDES
+-- ============================================
+
+ALTER TABLE availability_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read overrides (needed for public booking page)
+CREATE POLICY "Availability overrides are viewable by everyone"
+ON availability_overrides FOR SELECT
+USING (true);
+
+-- Only authenticated admin can create their overrides
+CREATE POLICY "Admin can create own overrides"
+ON availability_overrides FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- Only authenticated admin can update their overrides
+CREATE POLICY "Admin can update own overrides"
+ON availability_overrides FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Only authenticated admin can delete their overrides
+CREATE POLICY "Admin can delete own overrides"
+ON availability_overrides FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
@@ -0,0 +1,41 @@
+-- ============================================
+-- BOOKING REMINDERS
+-- Run this in Supabase SQL Editor (after booking_status.sql and calendar_settings.sql)
+-- ============================================
+
+-- One row per reminder sent, written by the reminder runner (service role).
+-- event_start is part of the key so a rescheduled booking gets its reminders again.
+CREATE TABLE IF NOT EXISTS booking_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL, -- one of calendar_settings.reminder_offsets
+  event_start TIMESTAMPTZ NOT NULL, -- start of the booking the reminder was for
+  channel VARCHAR(50) NOT NULL DEFAULT 'email',
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Claiming a reminder is an insert, so concurrent runs can't both send it
+  CONSTRAINT unique_booking_reminder UNIQUE (booking_id, offset_minutes, event_start, channel)
+);
+
+-- Index
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_booking ON booking_reminders(booking_id);
+
+-- ============================================
+-- RLS POLICIES FOR BOOKING_REMINDERS
+-- ============================================
+
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Only the admin owning the booked event can see which reminders went out
+CREATE POLICY "Admin can view own booking reminders"
+ON booking_reminders FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM bookings b
+    JOIN events e ON e.id = b.event_id
+    WHERE b.id = booking_reminders.booking_id
+      AND e.created_by = auth.uid()
+  )
+);
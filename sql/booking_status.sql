@@ -0,0 +1,118 @@
+-- ============================================
+-- BOOKING STATUS WORKFLOW
+-- Run this in Supabase SQL Editor (after event_type_policies.sql)
+-- ============================================
+
+-- Statuses: confirmed -> cancelled | completed | no_show
+-- (allowed transitions are enforced by updateBookingStatus in actions/bookings.ts)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS status_reason TEXT; -- reason given for the current status
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS valid_booking_status;
+ALTER TABLE bookings ADD CONSTRAINT valid_booking_status
+  CHECK (status IN ('confirmed', 'cancelled', 'completed', 'no_show'));
+
+-- Every status a booking went through, written by trigger
+CREATE TABLE IF NOT EXISTS booking_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  from_status VARCHAR(50), -- NULL when the booking was created
+  to_status VARCHAR(50) NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL = visitor or system
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_booking ON booking_status_history(booking_id, created_at);
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_booking_status_changed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_bookings_status_changed_at
+BEFORE UPDATE OF status ON bookings
+FOR EACH ROW
+EXECUTE FUNCTION set_booking_status_changed_at();
+
+-- Records the change and re-resolves the event's overlap policy, so a
+-- cancelled booking stops occupying its slot (slot engine, exclusion constraint)
+CREATE OR REPLACE FUNCTION log_booking_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO booking_status_history (booking_id, from_status, to_status, reason, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.status_reason,
+    auth.uid()
+  );
+
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE events
+    SET overlap_policy = resolve_event_overlap_policy(id, created_by, event_type)
+    WHERE id = NEW.event_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_bookings_status_change
+AFTER INSERT OR UPDATE OF status ON bookings
+FOR EACH ROW
+EXECUTE FUNCTION log_booking_status_change();
+
+-- ============================================
+-- EXISTING INSTALLATIONS
+-- ============================================
+
+-- Start the history of existing bookings at their current status
+INSERT INTO booking_status_history (booking_id, to_status, created_at)
+SELECT b.id, b.status, b.created_at
+FROM bookings b
+WHERE NOT EXISTS (
+  SELECT 1 FROM booking_status_history h WHERE h.booking_id = b.id
+);
+
+-- Free the slots of bookings cancelled before this script
+UPDATE events e
+SET overlap_policy = resolve_event_overlap_policy(e.id, e.created_by, e.event_type)
+WHERE e.event_type = 'booking'
+  AND EXISTS (SELECT 1 FROM bookings b WHERE b.event_id = e.id AND b.status = 'cancelled');
+
+-- ============================================
+-- RLS POLICIES FOR BOOKING_STATUS_HISTORY
+-- ============================================
+
+ALTER TABLE booking_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Only the admin owning the booked event can read its history
+-- (rows are only written by the trigger above)
+CREATE POLICY "Admin can view own booking status history"
+ON booking_status_history FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM bookings b
+    JOIN events e ON e.id = b.event_id
+    WHERE b.id = booking_status_history.booking_id
+      AND e.created_by = auth.uid()
+  )
+);
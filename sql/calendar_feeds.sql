@@ -0,0 +1,49 @@
+-- ============================================
+-- CALENDAR FEEDS
+-- Run this in Supabase SQL Editor (after schema.sql)
+-- ============================================
+
+-- Private iCalendar subscription of a host's agenda (/api/feed/<token>).
+-- Kept out of calendar_settings, which everyone can read.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE, -- secret in the feed URL; rotating it breaks existing subscriptions
+  include_private BOOLEAN NOT NULL DEFAULT false, -- personal and non-public events
+  include_attendees BOOLEAN NOT NULL DEFAULT false, -- visitor name, email, phone and notes on bookings
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_calendar_feeds_updated_at
+BEFORE UPDATE ON calendar_feeds
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS POLICIES FOR CALENDAR_FEEDS
+-- ============================================
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Only the owner sees their token; the feed route looks it up with the service role
+CREATE POLICY "Admin can view own feed"
+ON calendar_feeds FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admin can create own feed"
+ON calendar_feeds FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can update own feed"
+ON calendar_feeds FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can delete own feed"
+ON calendar_feeds FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
@@ -11,6 +11,9 @@ CREATE TABLE IF NOT EXISTS calendar_settings (
   buffer_time INTEGER NOT NULL DEFAULT 0, -- Cooldown between meetings in minutes
   advance_booking_days INTEGER NOT NULL DEFAULT 60, -- How far ahead users can book
   min_notice_hours INTEGER NOT NULL DEFAULT 12, -- Minimum hours notice required
+  timezone TEXT NOT NULL DEFAULT 'America/Argentina/Buenos_Aires', -- IANA zone availability rules are expressed in
+  cancellation_cutoff_hours INTEGER NOT NULL DEFAULT 24, -- Visitors can cancel/reschedule up to this many hours before
+  reminder_offsets INTEGER[] NOT NULL DEFAULT '{1440,60}', -- Minutes before a booking to remind the visitor
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   
@@ -20,9 +23,21 @@ CREATE TABLE IF NOT EXISTS calendar_settings (
   CONSTRAINT valid_slot_duration CHECK (slot_duration >= 15 AND slot_duration <= 480),
   CONSTRAINT valid_buffer_time CHECK (buffer_time >= 0 AND buffer_time <= 120),
   CONSTRAINT valid_advance_days CHECK (advance_booking_days >= 1 AND advance_booking_days <= 365),
-  CONSTRAINT valid_notice_hours CHECK (min_notice_hours >= 0 AND min_notice_hours <= 168)
+  CONSTRAINT valid_notice_hours CHECK (min_notice_hours >= 0 AND min_notice_hours <= 168),
+  CONSTRAINT valid_cancellation_cutoff CHECK (cancellation_cutoff_hours >= 0 AND cancellation_cutoff_hours <= 168),
+  CONSTRAINT valid_reminder_offsets CHECK (
+    cardinality(reminder_offsets) <= 5 AND 5 <= ALL(reminder_offsets) AND 10080 >= ALL(reminder_offsets)
+  )
 );
 
+-- Existing installations: add columns introduced after the first release
+ALTER TABLE calendar_settings
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Argentina/Buenos_Aires';
+ALTER TABLE calendar_settings
+  ADD COLUMN IF NOT EXISTS cancellation_cutoff_hours INTEGER NOT NULL DEFAULT 24;
+ALTER TABLE calendar_settings
+  ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[] NOT NULL DEFAULT '{1440,60}';
+
 -- Index
 CREATE INDEX IF NOT EXISTS idx_calendar_settings_user ON calendar_settings(user_id);
 
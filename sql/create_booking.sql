@@ -0,0 +1,75 @@
+-- ============================================
+-- ATOMIC BOOKING CREATION
+-- Run this in Supabase SQL Editor (after event_type_policies.sql)
+-- ============================================
+
+-- Enables plain equality (created_by) inside a GiST exclusion constraint
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Blocking events of the same host can never share time (see
+-- event_type_policies.sql). Enforced by Postgres itself: concurrent inserts
+-- for the same (or a partially overlapping) slot fail with exclusion_violation
+-- (SQLSTATE 23P01) instead of double-booking. '[)' lets back-to-back slots touch.
+-- Recurring series rows only describe their first occurrence, so they are
+-- left out; their occurrences are checked when expanded.
+--
+-- Re-created on every run so existing installations pick up the latest
+-- definition. If this fails, a host already has overlapping blocking
+-- events; move them or change their event type policy first.
+DO $$
+BEGIN
+  ALTER TABLE events DROP CONSTRAINT IF EXISTS no_overlapping_public_events;
+  ALTER TABLE events DROP CONSTRAINT IF EXISTS no_overlapping_blocking_events;
+
+  ALTER TABLE events
+    ADD CONSTRAINT no_overlapping_blocking_events
+    EXCLUDE USING gist (created_by WITH =, tstzrange(start_time, end_time, '[)') WITH &&)
+    WHERE (overlap_policy = 'blocks' AND rrule IS NULL);
+END;
+$$;
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Creates the booking's event (owned by the host) and the booking in a
+-- single transaction.
+-- Returns the booking id; raises 23P01 if the slot is already taken.
+-- SECURITY DEFINER so visitors (anon) can book without insert rights on events.
+DROP FUNCTION IF EXISTS create_booking(TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_host_id UUID,
+  p_start_time TIMESTAMPTZ,
+  p_end_time TIMESTAMPTZ,
+  p_name VARCHAR,
+  p_email VARCHAR,
+  p_phone VARCHAR DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_timezone VARCHAR DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID;
+  v_booking_id UUID;
+BEGIN
+  INSERT INTO events (title, description, start_time, end_time, created_by, is_public, event_type)
+  VALUES ('Reserva: ' || p_name, p_notes, p_start_time, p_end_time, p_host_id, true, 'booking')
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO bookings (event_id, name, email, phone, notes, timezone)
+  VALUES (v_event_id, p_name, p_email, p_phone, p_notes, p_timezone)
+  RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the app (service role) books, after checking the slot against the
+-- host's rules; called directly it would take any range for any host
+REVOKE EXECUTE ON FUNCTION create_booking(UUID, TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(UUID, TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR) TO service_role;
+
+-- For the same reason bookings can't be inserted directly either: a stray
+-- row (e.g. a cancelled one) would change how its event counts for overlaps
+DROP POLICY IF EXISTS "Anyone can create bookings" ON bookings;
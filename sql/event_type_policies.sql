@@ -0,0 +1,169 @@
+-- ============================================
+-- EVENT TYPE POLICIES TABLE
+-- Run this in Supabase SQL Editor (after schema.sql, before create_booking.sql)
+-- ============================================
+
+-- How each host's event types interact with availability:
+--   blocks         -> occupies time; can't overlap other blocking events
+--   allows_overlap -> occupies time, but other events may be scheduled on top
+--   informational  -> never occupies time (notes, reminders)
+-- Types without a row use the defaults in resolve_overlap_policy().
+-- Bookings always block, so they can't be configured.
+CREATE TABLE IF NOT EXISTS event_type_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  overlap_policy VARCHAR(20) NOT NULL DEFAULT 'blocks',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One policy per type per host
+  CONSTRAINT unique_user_event_type UNIQUE (user_id, event_type),
+  -- Validations
+  CONSTRAINT valid_overlap_policy CHECK (overlap_policy IN ('blocks', 'allows_overlap', 'informational')),
+  CONSTRAINT bookings_always_block CHECK (event_type <> 'booking')
+);
+
+-- Index
+CREATE INDEX IF NOT EXISTS idx_event_type_policies_user ON event_type_policies(user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_event_type_policies_updated_at
+BEFORE UPDATE ON event_type_policies
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Policy for an event type of a host: their configured one, or the default
+CREATE OR REPLACE FUNCTION resolve_overlap_policy(
+  p_user_id UUID,
+  p_event_type VARCHAR
+)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_policy VARCHAR;
+BEGIN
+  IF p_event_type = 'booking' THEN
+    RETURN 'blocks';
+  END IF;
+
+  SELECT overlap_policy
+  INTO v_policy
+  FROM event_type_policies
+  WHERE user_id = p_user_id AND event_type = p_event_type;
+
+  RETURN COALESCE(
+    v_policy,
+    CASE p_event_type WHEN 'personal' THEN 'informational' ELSE 'blocks' END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Policy of one event: a cancelled booking no longer occupies its slot
+-- (kept in sync when the status changes, see booking_status.sql)
+CREATE OR REPLACE FUNCTION resolve_event_overlap_policy(
+  p_event_id UUID,
+  p_user_id UUID,
+  p_event_type VARCHAR
+)
+RETURNS VARCHAR AS $$
+BEGIN
+  IF p_event_type = 'booking' AND EXISTS (
+    SELECT 1 FROM bookings
+    WHERE event_id = p_event_id AND status = 'cancelled'
+  ) THEN
+    RETURN 'informational';
+  END IF;
+
+  RETURN resolve_overlap_policy(p_user_id, p_event_type);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- events.overlap_policy is a copy of the resolved policy, so the exclusion
+-- constraint and the slot engine can filter on it without joins
+CREATE OR REPLACE FUNCTION set_event_overlap_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.overlap_policy = resolve_event_overlap_policy(NEW.id, NEW.created_by, NEW.event_type);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_events_overlap_policy
+BEFORE INSERT OR UPDATE OF event_type, created_by ON events
+FOR EACH ROW
+EXECUTE FUNCTION set_event_overlap_policy();
+
+-- Changing a policy re-applies it to the host's events of that type
+CREATE OR REPLACE FUNCTION sync_event_overlap_policies()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_policy event_type_policies%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_policy = OLD;
+  ELSE
+    v_policy = NEW;
+  END IF;
+
+  UPDATE events
+  SET overlap_policy = resolve_overlap_policy(v_policy.user_id, v_policy.event_type)
+  WHERE created_by = v_policy.user_id AND event_type = v_policy.event_type;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_event_type_policies
+AFTER INSERT OR UPDATE OR DELETE ON event_type_policies
+FOR EACH ROW
+EXECUTE FUNCTION sync_event_overlap_policies();
+
+-- ============================================
+-- EXISTING INSTALLATIONS
+-- ============================================
+
+-- Bookings used to be created without an owner. On single-host installs
+-- they belong to the host with calendar settings.
+UPDATE events
+SET created_by = (SELECT user_id FROM calendar_settings LIMIT 1)
+WHERE event_type = 'booking'
+  AND created_by IS NULL
+  AND (SELECT COUNT(*) FROM calendar_settings) = 1;
+
+UPDATE events
+SET overlap_policy = resolve_event_overlap_policy(id, created_by, event_type);
+
+-- ============================================
+-- RLS POLICIES FOR EVENT_TYPE_POLICIES
+-- ============================================
+
+ALTER TABLE event_type_policies ENABLE ROW LEVEL SECURITY;
+
+-- Only authenticated admin can read their policies
+CREATE POLICY "Admin can view own event type policies"
+ON event_type_policies FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Only authenticated admin can create their policies
+CREATE POLICY "Admin can create own event type policies"
+ON event_type_policies FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- Only authenticated admin can update their policies
+CREATE POLICY "Admin can update own event type policies"
+ON event_type_policies FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Only authenticated admin can delete their policies
+CREATE POLICY "Admin can delete own event type policies"
+ON event_type_policies FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
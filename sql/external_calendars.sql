@@ -0,0 +1,112 @@
+-- ============================================
+-- EXTERNAL CALENDARS
+-- Run this in Supabase SQL Editor (after schema.sql)
+-- ============================================
+
+-- Other calendars of a host (Google, Outlook, iCloud...) imported as busy time.
+-- Either an ICS URL refreshed on a schedule or an uploaded .ics file.
+CREATE TABLE IF NOT EXISTS external_calendars (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  source_type VARCHAR(10) NOT NULL CHECK (source_type IN ('url', 'file')),
+  url TEXT, -- secret address of the calendar; only for source_type 'url'
+  ics_content TEXT, -- uploaded file, kept to re-expand its series as time passes
+  last_synced_at TIMESTAMPTZ,
+  last_error TEXT, -- why the last refresh failed, cleared on success
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT external_calendar_source CHECK (
+    (source_type = 'url' AND url IS NOT NULL) OR
+    (source_type = 'file' AND ics_content IS NOT NULL)
+  )
+);
+
+-- Busy intervals of each calendar, expanded up to a year ahead on every refresh.
+-- Only times are stored: titles and attendees of the other calendars never leave the sync.
+CREATE TABLE IF NOT EXISTS external_busy (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  calendar_id UUID NOT NULL REFERENCES external_calendars(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT valid_external_busy_range CHECK (end_time > start_time)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_external_calendars_user ON external_calendars(user_id);
+CREATE INDEX IF NOT EXISTS idx_external_busy_calendar ON external_busy(calendar_id);
+CREATE INDEX IF NOT EXISTS idx_external_busy_range ON external_busy(user_id, start_time, end_time);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_external_calendars_updated_at
+BEFORE UPDATE ON external_calendars
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Replaces the busy intervals of a calendar as a whole, so a refresh that
+-- fails halfway keeps the previous ones.
+-- p_intervals: [{"start_time": "...", "end_time": "..."}, ...]
+CREATE OR REPLACE FUNCTION replace_external_busy(p_calendar_id UUID, p_intervals JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM external_busy WHERE calendar_id = p_calendar_id;
+
+  INSERT INTO external_busy (calendar_id, user_id, start_time, end_time)
+  SELECT c.id, c.user_id, i.start_time, i.end_time
+  FROM external_calendars c
+  CROSS JOIN jsonb_to_recordset(p_intervals) AS i(start_time TIMESTAMPTZ, end_time TIMESTAMPTZ)
+  WHERE c.id = p_calendar_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the sync (service role) writes busy time
+REVOKE EXECUTE ON FUNCTION replace_external_busy(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_external_busy(UUID, JSONB) TO service_role;
+
+-- ============================================
+-- RLS POLICIES FOR EXTERNAL_CALENDARS
+-- ============================================
+
+ALTER TABLE external_calendars ENABLE ROW LEVEL SECURITY;
+
+-- URLs of other calendars are secrets: only the owner sees them
+CREATE POLICY "Admin can view own external calendars"
+ON external_calendars FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admin can create own external calendars"
+ON external_calendars FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can update own external calendars"
+ON external_calendars FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can delete own external calendars"
+ON external_calendars FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- ============================================
+-- RLS POLICIES FOR EXTERNAL_BUSY
+-- ============================================
+
+ALTER TABLE external_busy ENABLE ROW LEVEL SECURITY;
+
+-- Written by the sync (service role); the slot engine reads it the same way,
+-- so visitors never see it
+CREATE POLICY "Admin can view own external busy time"
+ON external_busy FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
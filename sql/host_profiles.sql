@@ -0,0 +1,51 @@
+-- ============================================
+-- HOST PROFILES
+-- Run this in Supabase SQL Editor (after meeting_types.sql)
+-- ============================================
+
+-- Public identity of each host: their booking page lives at /<username>
+-- and their meeting types at /<username>/<slug>
+CREATE TABLE IF NOT EXISTS host_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username VARCHAR(30) NOT NULL,
+  display_name VARCHAR(100) NOT NULL,
+  bio TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_host_username UNIQUE (username),
+  -- Validations
+  CONSTRAINT valid_host_username CHECK (username ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(username) >= 3),
+  -- Top-level routes of the app can't be taken as usernames
+  CONSTRAINT reserved_host_username CHECK (
+    username NOT IN ('admin', 'api', 'appointment', 'booking', 'invite', 'login', 'logout', 'settings', 'static')
+  )
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_host_profiles_updated_at
+BEFORE UPDATE ON host_profiles
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS POLICIES FOR HOST_PROFILES
+-- ============================================
+
+ALTER TABLE host_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Visitors resolve /<username> to its host
+CREATE POLICY "Host profiles are viewable by everyone"
+ON host_profiles FOR SELECT
+USING (true);
+
+CREATE POLICY "Admin can create own profile"
+ON host_profiles FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can update own profile"
+ON host_profiles FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,132 @@
+-- ============================================
+-- MEETING TYPES
+-- Run this in Supabase SQL Editor (after create_booking.sql)
+-- ============================================
+
+-- Kinds of meetings visitors can book ("Consulta 15 min", "Sesión 60 min"),
+-- each with its own length, buffers and notice. Without any, bookings use
+-- the slot length and buffer of calendar_settings.
+CREATE TABLE IF NOT EXISTS meeting_types (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  slug VARCHAR(60) NOT NULL, -- URL of its booking page: /appointment/<slug>
+  description TEXT,
+  duration_minutes INTEGER NOT NULL DEFAULT 30,
+  buffer_before_minutes INTEGER NOT NULL DEFAULT 0, -- kept free before each booking
+  buffer_after_minutes INTEGER NOT NULL DEFAULT 0, -- kept free after each booking
+  min_notice_hours INTEGER NOT NULL DEFAULT 12,
+  color VARCHAR(7) NOT NULL DEFAULT '#2563eb',
+  is_active BOOLEAN NOT NULL DEFAULT true, -- inactive types are hidden and can't be booked
+  position INTEGER NOT NULL DEFAULT 0, -- order on the landing page
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_meeting_type_slug UNIQUE (user_id, slug),
+  -- Validations
+  CONSTRAINT valid_meeting_type_slug CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  CONSTRAINT valid_meeting_type_duration CHECK (duration_minutes >= 5 AND duration_minutes <= 480),
+  CONSTRAINT valid_meeting_type_buffers CHECK (
+    buffer_before_minutes BETWEEN 0 AND 240 AND buffer_after_minutes BETWEEN 0 AND 240
+  ),
+  CONSTRAINT valid_meeting_type_notice CHECK (min_notice_hours >= 0 AND min_notice_hours <= 168),
+  CONSTRAINT valid_meeting_type_color CHECK (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+-- The meeting type a booking was made for (null: the default slot)
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS meeting_type_id UUID REFERENCES meeting_types(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_meeting_types_user ON meeting_types(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_bookings_meeting_type ON bookings(meeting_type_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_meeting_types_updated_at
+BEFORE UPDATE ON meeting_types
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- create_booking (see create_booking.sql), now recording the meeting type
+-- and naming the event after it
+DROP FUNCTION IF EXISTS create_booking(UUID, TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_host_id UUID,
+  p_start_time TIMESTAMPTZ,
+  p_end_time TIMESTAMPTZ,
+  p_name VARCHAR,
+  p_email VARCHAR,
+  p_phone VARCHAR DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_timezone VARCHAR DEFAULT NULL,
+  p_meeting_type_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID;
+  v_booking_id UUID;
+  v_type_name VARCHAR;
+BEGIN
+  IF p_meeting_type_id IS NOT NULL THEN
+    SELECT name INTO v_type_name
+    FROM meeting_types
+    WHERE id = p_meeting_type_id AND user_id = p_host_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Meeting type % does not belong to the host', p_meeting_type_id;
+    END IF;
+  END IF;
+
+  INSERT INTO events (title, description, start_time, end_time, created_by, is_public, event_type)
+  VALUES (COALESCE(v_type_name, 'Reserva') || ': ' || p_name, p_notes, p_start_time, p_end_time, p_host_id, true, 'booking')
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO bookings (event_id, name, email, phone, notes, timezone, meeting_type_id)
+  VALUES (v_event_id, p_name, p_email, p_phone, p_notes, p_timezone, p_meeting_type_id)
+  RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the app (service role) books, after checking the slot against the
+-- host's rules; called directly it would take any range for any host
+REVOKE EXECUTE ON FUNCTION create_booking(UUID, TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(UUID, TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR, UUID) TO service_role;
+
+-- ============================================
+-- RLS POLICIES FOR MEETING_TYPES
+-- ============================================
+
+ALTER TABLE meeting_types ENABLE ROW LEVEL SECURITY;
+
+-- Visitors see the active ones (landing page)
+CREATE POLICY "Active meeting types are viewable by everyone"
+ON meeting_types FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admin can view own meeting types"
+ON meeting_types FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admin can create own meeting types"
+ON meeting_types FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can update own meeting types"
+ON meeting_types FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can delete own meeting types"
+ON meeting_types FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
@@ -0,0 +1,345 @@
+-- ============================================
+-- ORGANIZATIONS
+-- Run this in Supabase SQL Editor (after every other script: it rewrites
+-- their policies around team membership)
+-- ============================================
+
+-- A team of hosts sharing the admin dashboard. Each member keeps their own
+-- calendar, settings and booking page; their role decides what they see
+-- and can do with the others':
+-- - owner: everything, including the organization itself (one per organization)
+-- - admin: views and manages every member's calendar, invites and manages members
+-- - staff: only their own calendar
+-- - viewer: views every member's calendar, changes nothing but their own
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  email VARCHAR(255) NOT NULL, -- lowercased copy of auth.users', which members can't read
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (organization_id, user_id),
+  -- A host belongs to one team at most
+  CONSTRAINT unique_member_user UNIQUE (user_id),
+  CONSTRAINT valid_member_role CHECK (role IN ('owner', 'admin', 'staff', 'viewer'))
+);
+
+-- Pending invitations; the link in the email carries the token, only its
+-- SHA-256 hash is stored
+CREATE TABLE IF NOT EXISTS organization_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Ownership isn't handed out by invitation
+  CONSTRAINT valid_invite_role CHECK (role IN ('admin', 'staff', 'viewer'))
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_organization_members_org ON organization_members(organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invites_pending
+  ON organization_invites(organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+-- Invitation links live at /invite/<token>, so that username is taken too
+-- (already part of reserved_host_username for new installs)
+ALTER TABLE host_profiles DROP CONSTRAINT IF EXISTS reserved_host_username;
+ALTER TABLE host_profiles ADD CONSTRAINT reserved_host_username CHECK (
+  username NOT IN ('admin', 'api', 'appointment', 'booking', 'invite', 'login', 'logout', 'settings', 'static')
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON organizations
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Role of the current user in an organization (NULL if not a member).
+-- SECURITY DEFINER so policies on organization_members can use it
+-- without recursing into themselves.
+CREATE OR REPLACE FUNCTION organization_role(p_organization_id UUID)
+RETURNS TEXT AS $$
+  SELECT role
+  FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user can see a host's calendar: their own, or a
+-- teammate's when they are owner, admin or viewer
+CREATE OR REPLACE FUNCTION can_view_calendar(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_user_id = auth.uid() OR EXISTS (
+    SELECT 1
+    FROM organization_members me
+    JOIN organization_members them ON them.organization_id = me.organization_id
+    WHERE me.user_id = auth.uid()
+      AND them.user_id = p_user_id
+      AND me.role IN ('owner', 'admin', 'viewer')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user can change a host's calendar: their own, or a
+-- teammate's when they are owner or admin
+CREATE OR REPLACE FUNCTION can_manage_calendar(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_user_id = auth.uid() OR EXISTS (
+    SELECT 1
+    FROM organization_members me
+    JOIN organization_members them ON them.organization_id = me.organization_id
+    WHERE me.user_id = auth.uid()
+      AND them.user_id = p_user_id
+      AND me.role IN ('owner', 'admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Creates an organization owned by the current user
+CREATE OR REPLACE FUNCTION create_organization(p_name VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  INSERT INTO organizations (name, created_by)
+  VALUES (p_name, auth.uid())
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, role, email)
+  SELECT v_organization_id, id, 'owner', lower(email)
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  RETURN v_organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Joins the current user to the organization of a pending invite sent to
+-- their email. Returns the organization, or NULL if the invite isn't valid.
+CREATE OR REPLACE FUNCTION accept_organization_invite(p_token_hash VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_invite organization_invites%ROWTYPE;
+  v_email VARCHAR;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT * INTO v_invite
+  FROM organization_invites
+  WHERE token_hash = p_token_hash
+    AND accepted_at IS NULL
+    AND expires_at > NOW()
+    AND lower(email) = lower(v_email)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Raises unique_member_user if they already belong to a team
+  INSERT INTO organization_members (organization_id, user_id, role, email)
+  VALUES (v_invite.organization_id, auth.uid(), v_invite.role, lower(v_email));
+
+  UPDATE organization_invites SET accepted_at = NOW() WHERE id = v_invite.id;
+
+  RETURN v_invite.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION organization_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_calendar(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_manage_calendar(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_organization(VARCHAR) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_organization_invite(VARCHAR) TO authenticated;
+
+-- ============================================
+-- RLS POLICIES FOR ORGANIZATIONS
+-- ============================================
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invites ENABLE ROW LEVEL SECURITY;
+
+-- Organizations are created through create_organization()
+CREATE POLICY "Members can view their organization"
+ON organizations FOR SELECT
+TO authenticated
+USING (organization_role(id) IS NOT NULL);
+
+CREATE POLICY "Owner and admins can update their organization"
+ON organizations FOR UPDATE
+TO authenticated
+USING (organization_role(id) IN ('owner', 'admin'))
+WITH CHECK (organization_role(id) IN ('owner', 'admin'));
+
+CREATE POLICY "Owner can delete their organization"
+ON organizations FOR DELETE
+TO authenticated
+USING (organization_role(id) = 'owner');
+
+-- Members join through create_organization() and accept_organization_invite()
+CREATE POLICY "Members can view their teammates"
+ON organization_members FOR SELECT
+TO authenticated
+USING (organization_role(organization_id) IS NOT NULL);
+
+-- The owner's membership can't be changed or removed
+CREATE POLICY "Owner and admins can change member roles"
+ON organization_members FOR UPDATE
+TO authenticated
+USING (organization_role(organization_id) IN ('owner', 'admin') AND role <> 'owner')
+WITH CHECK (organization_role(organization_id) IN ('owner', 'admin') AND role <> 'owner');
+
+CREATE POLICY "Owner and admins can remove members, members can leave"
+ON organization_members FOR DELETE
+TO authenticated
+USING (
+  role <> 'owner'
+  AND (user_id = auth.uid() OR organization_role(organization_id) IN ('owner', 'admin'))
+);
+
+CREATE POLICY "Owner and admins can view invites"
+ON organization_invites FOR SELECT
+TO authenticated
+USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Owner and admins can create invites"
+ON organization_invites FOR INSERT
+TO authenticated
+WITH CHECK (organization_role(organization_id) IN ('owner', 'admin') AND invited_by = auth.uid());
+
+CREATE POLICY "Owner and admins can revoke invites"
+ON organization_invites FOR DELETE
+TO authenticated
+USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+-- ============================================
+-- CALENDAR POLICIES BY MEMBERSHIP
+-- Replace the created_by/user_id = auth.uid() policies of schema.sql,
+-- booking_status.sql, booking_reminders.sql and meeting_types.sql.
+-- Settings, API keys, webhooks, feeds and external calendars stay personal.
+-- ============================================
+
+-- Events
+DROP POLICY IF EXISTS "Admin can view all events" ON events;
+DROP POLICY IF EXISTS "Admin can create events" ON events;
+DROP POLICY IF EXISTS "Admin can update own events" ON events;
+DROP POLICY IF EXISTS "Admin can delete own events" ON events;
+
+CREATE POLICY "Team can view member events"
+ON events FOR SELECT
+TO authenticated
+USING (can_view_calendar(created_by));
+
+CREATE POLICY "Hosts and team admins can create events"
+ON events FOR INSERT
+TO authenticated
+WITH CHECK (can_manage_calendar(created_by));
+
+CREATE POLICY "Hosts and team admins can update events"
+ON events FOR UPDATE
+TO authenticated
+USING (can_manage_calendar(created_by))
+WITH CHECK (can_manage_calendar(created_by));
+
+CREATE POLICY "Hosts and team admins can delete events"
+ON events FOR DELETE
+TO authenticated
+USING (can_manage_calendar(created_by));
+
+-- Bookings
+DROP POLICY IF EXISTS "Admin can view all bookings" ON bookings;
+DROP POLICY IF EXISTS "Admin can update own event bookings" ON bookings;
+DROP POLICY IF EXISTS "Admin can delete own event bookings" ON bookings;
+
+CREATE POLICY "Team can view member bookings"
+ON bookings FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE events.id = bookings.event_id
+    AND can_view_calendar(events.created_by)
+  )
+);
+
+CREATE POLICY "Hosts and team admins can update bookings"
+ON bookings FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE events.id = bookings.event_id
+    AND can_manage_calendar(events.created_by)
+  )
+);
+
+CREATE POLICY "Hosts and team admins can delete bookings"
+ON bookings FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE events.id = bookings.event_id
+    AND can_manage_calendar(events.created_by)
+  )
+);
+
+-- Booking history and reminders
+DROP POLICY IF EXISTS "Admin can view own booking status history" ON booking_status_history;
+DROP POLICY IF EXISTS "Admin can view own booking reminders" ON booking_reminders;
+
+CREATE POLICY "Team can view member booking status history"
+ON booking_status_history FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM bookings b
+    JOIN events e ON e.id = b.event_id
+    WHERE b.id = booking_status_history.booking_id
+      AND can_view_calendar(e.created_by)
+  )
+);
+
+CREATE POLICY "Team can view member booking reminders"
+ON booking_reminders FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM bookings b
+    JOIN events e ON e.id = b.event_id
+    WHERE b.id = booking_reminders.booking_id
+      AND can_view_calendar(e.created_by)
+  )
+);
+
+-- Weekly schedules and meeting types (read-only for the team)
+DROP POLICY IF EXISTS "Admin can view own availability" ON availability_rules;
+DROP POLICY IF EXISTS "Admin can view own meeting types" ON meeting_types;
+
+CREATE POLICY "Team can view member availability"
+ON availability_rules FOR SELECT
+TO authenticated
+USING (can_view_calendar(user_id));
+
+CREATE POLICY "Team can view member meeting types"
+ON meeting_types FOR SELECT
+TO authenticated
+USING (can_view_calendar(user_id));
@@ -21,6 +21,14 @@ CREATE TABLE IF NOT EXISTS events (
   created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE,
   is_public BOOLEAN DEFAULT true,
   event_type VARCHAR(50) DEFAULT 'meeting', -- meeting, booking, block, etc.
+  overlap_policy VARCHAR(20) NOT NULL DEFAULT 'blocks', -- resolved from event_type_policies.sql
+  -- Recurring series: start_time/end_time are the first occurrence
+  rrule TEXT, -- RFC 5545 rule without DTSTART, e.g. 'FREQ=WEEKLY;BYDAY=MO'
+  exdates TIMESTAMPTZ[] NOT NULL DEFAULT '{}', -- occurrence starts not generated (deleted or edited separately)
+  recurrence_end TIMESTAMPTZ, -- end of the last occurrence; NULL = repeats forever
+  -- Single edited occurrence of a series
+  recurrence_parent_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  original_start TIMESTAMPTZ, -- start the occurrence had in the series
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   
@@ -38,6 +46,7 @@ CREATE TABLE IF NOT EXISTS bookings (
   phone VARCHAR(50),
   notes TEXT,
   status VARCHAR(50) DEFAULT 'confirmed', -- confirmed, cancelled, completed
+  timezone VARCHAR(64), -- IANA zone the visitor booked in (used in confirmations)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   
   -- Constraints
@@ -59,6 +68,15 @@ CREATE TABLE IF NOT EXISTS availability_rules (
   CONSTRAINT valid_time_range_av CHECK (end_time > start_time)
 );
 
+-- Existing installations: add columns introduced after the first release
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS overlap_policy VARCHAR(20) NOT NULL DEFAULT 'blocks';
+ALTER TABLE events ADD COLUMN IF NOT EXISTS rrule TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS exdates TIMESTAMPTZ[] NOT NULL DEFAULT '{}';
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_end TIMESTAMPTZ;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS original_start TIMESTAMPTZ;
+
 -- ============================================
 -- INDEXES FOR PERFORMANCE
 -- ============================================
@@ -69,6 +87,9 @@ CREATE INDEX IF NOT EXISTS idx_events_end_time ON events(end_time);
 CREATE INDEX IF NOT EXISTS idx_events_created_by ON events(created_by);
 CREATE INDEX IF NOT EXISTS idx_events_is_public ON events(is_public);
 CREATE INDEX IF NOT EXISTS idx_events_time_range ON events(start_time, end_time);
+CREATE INDEX IF NOT EXISTS idx_events_overlap_policy ON events(created_by, overlap_policy);
+CREATE INDEX IF NOT EXISTS idx_events_recurring ON events(created_by, recurrence_end) WHERE rrule IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_recurrence_parent ON events(recurrence_parent_id);
 
 -- Bookings indexes
 CREATE INDEX IF NOT EXISTS idx_bookings_event_id ON bookings(event_id);
@@ -98,24 +119,34 @@ BEFORE UPDATE ON events
 FOR EACH ROW
 EXECUTE FUNCTION update_updated_at_column();
 
--- Function to check for event overlaps
+-- Function to check for event overlaps within a host's calendar.
+-- Only blocking events conflict with each other: events whose type allows
+-- overlap or is informational never conflict (see event_type_policies.sql)
+DROP FUNCTION IF EXISTS check_event_overlap(TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+
 CREATE OR REPLACE FUNCTION check_event_overlap(
   p_start_time TIMESTAMPTZ,
   p_end_time TIMESTAMPTZ,
+  p_user_id UUID,
+  p_event_type VARCHAR DEFAULT 'meeting',
   p_event_id UUID DEFAULT NULL
 )
 RETURNS BOOLEAN AS $$
 DECLARE
   overlap_count INTEGER;
 BEGIN
+  IF resolve_overlap_policy(p_user_id, p_event_type) <> 'blocks' THEN
+    RETURN true;
+  END IF;
+
   SELECT COUNT(*)
   INTO overlap_count
   FROM events
   WHERE
     (id != p_event_id OR p_event_id IS NULL)
-    AND (
-      (start_time, end_time) OVERLAPS (p_start_time, p_end_time)
-    );
+    AND created_by = p_user_id
+    AND overlap_policy = 'blocks'
+    AND tstzrange(start_time, end_time, '[)') && tstzrange(p_start_time, p_end_time, '[)');
   
   RETURN overlap_count = 0;
 END;
@@ -0,0 +1,95 @@
+-- ============================================
+-- WEBHOOKS
+-- Run this in Supabase SQL Editor (after schema.sql)
+-- ============================================
+
+-- Endpoints of a host notified of booking and event changes (lib/webhooks.ts)
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL, -- HMAC-SHA256 key for the X-Webhook-Signature header
+  events TEXT[] NOT NULL, -- subscribed event types, see WEBHOOK_EVENTS
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_webhook_events CHECK (
+    cardinality(events) > 0 AND
+    events <@ ARRAY['booking.created', 'booking.cancelled', 'booking.rescheduled', 'event.created', 'event.updated', 'event.deleted']
+  )
+);
+
+-- One row per notification and endpoint, written by the sender (service role).
+-- The payload is stored so every retry sends the same body.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL, -- also 'webhook.test'
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(), -- NULL once delivered or given up
+  last_status_code INTEGER, -- HTTP status of the last attempt, NULL if it got no response
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+-- Trigger for updated_at
+CREATE TRIGGER update_webhooks_updated_at
+BEFORE UPDATE ON webhooks
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS POLICIES FOR WEBHOOKS
+-- ============================================
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can view own webhooks"
+ON webhooks FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admin can create own webhooks"
+ON webhooks FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can update own webhooks"
+ON webhooks FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admin can delete own webhooks"
+ON webhooks FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- ============================================
+-- RLS POLICIES FOR WEBHOOK_DELIVERIES
+-- ============================================
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- The delivery log of a webhook is visible to its owner only
+CREATE POLICY "Admin can view own webhook deliveries"
+ON webhook_deliveries FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM webhooks w
+    WHERE w.id = webhook_deliveries.webhook_id
+      AND w.user_id = auth.uid()
+  )
+);
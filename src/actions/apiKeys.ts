@@ -0,0 +1,99 @@
+/**
+ * Server Actions for API keys
+ * Keys for the REST API (/api/v1); the full key is only returned when created
+ */
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { generateApiKey } from '@/lib/apiKeys';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { requireAuth } from '@/utils/auth';
+import { apiKeySchema } from '@/utils/validations';
+import type { ApiKeyInput } from '@/utils/validations';
+import type { ApiKey, ApiResponse } from '@/types/database';
+
+const API_KEY_COLUMNS = 'id, name, key_prefix, rate_limit_per_minute, last_used_at, revoked_at, created_at';
+
+export async function getApiKeys(): Promise<ApiResponse<ApiKey[]>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+      return { success: false, error: 'Error al obtener las API keys' };
+    }
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function createApiKey(input: ApiKeyInput): Promise<ApiResponse<{ apiKey: ApiKey; key: string }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = apiKeySchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({ ...validation.data, user_id: user.id, key_prefix: prefix, key_hash: hash })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating API key:', error);
+      return { success: false, error: 'Error al crear la API key' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true, data: { apiKey: data, key } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Stops the key from working right away; it stays listed as revoked
+ */
+export async function revokeApiKey(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      return { success: false, error: 'Error al revocar la API key' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
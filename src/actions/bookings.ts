@@ -5,24 +5,133 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
 import { createServerSupabaseClient, createAdminSupabaseClient } from '@/lib/supabase/server';
-import { createBookingSchema } from '@/utils/validations';
-import type { CreateBookingInput } from '@/utils/validations';
-import type { ApiResponse } from '@/types/database';
+import { getPublicCalendarConfig } from '@/actions/settings';
+import { getMeetingTypeConfig } from '@/actions/meetingTypes';
+import { checkSlotBookable } from '@/actions/slots';
+import { createBookingToken, verifyBookingToken } from '@/lib/bookingToken';
+import { sendBookingEmails } from '@/lib/mailer/bookingEmails';
+import { emitBookingWebhook } from '@/lib/webhooks';
+import { changeBookingStatus, moveBooking, SLOT_ERROR_MESSAGES } from '@/lib/hostBookings';
+import { getTeamAccess } from '@/lib/organizations';
+import { requireAuth } from '@/utils/auth';
+import {
+  createBookingSchema,
+  rescheduleBookingSchema,
+  validateUUID,
+} from '@/utils/validations';
+import type {
+  CreateBookingInput,
+  RescheduleBookingInput,
+  UpdateBookingStatusInput,
+} from '@/utils/validations';
+import type {
+  ApiResponse,
+  BookingErrorCode,
+  BookingStatus,
+  BookingStatusChange,
+  ManageBookingErrorCode,
+  ManagedBooking,
+  PublicCalendarConfig,
+} from '@/types/database';
 
+const MANAGE_ERROR_MESSAGES: Record<Exclude<ManageBookingErrorCode, BookingErrorCode>, string> = {
+  INVALID_TOKEN: 'El enlace de la reserva no es válido',
+  NOT_CHANGEABLE: 'Esta reserva ya no se puede modificar',
+  CUTOFF_PASSED: 'Ya pasó el plazo para cancelar o reprogramar esta reserva',
+};
+
+// Postgres SQLSTATE raised by the no_overlapping_blocking_events constraint
+const EXCLUSION_VIOLATION = '23P01';
+
+type SupabaseClient = Awaited<ReturnType<typeof createServerSupabaseClient>>;
+
+interface TokenBooking {
+  id: string;
+  status: BookingStatus;
+  name: string;
+  email: string;
+  timezone: string | null;
+  meeting_type_id: string | null;
+  event: { id: string; title: string; start_time: string; end_time: string; created_by: string };
+}
+
+/**
+ * Booking a management token was issued for (visitors can't read bookings
+ * through RLS, so this needs the admin client)
+ */
+async function getTokenBooking(supabase: SupabaseClient, token: string): Promise<TokenBooking | null> {
+  const bookingId = verifyBookingToken(token);
+  if (!bookingId || !validateUUID(bookingId)) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('id, status, name, email, timezone, meeting_type_id, events!inner(id, title, start_time, end_time, created_by)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Error fetching booking by token:', error);
+    return null;
+  }
+
+  const { events, ...booking } = data;
+  return { ...booking, event: Array.isArray(events) ? events[0] : events };
+}
+
+/**
+ * Last moment the visitor can still cancel or reschedule
+ */
+const getChangeDeadline = (startTime: string, cutoffHours: number): Date => {
+  return new Date(Date.parse(startTime) - cutoffHours * 60 * 60 * 1000);
+};
+
+/**
+ * Why the visitor can't change the booking anymore, if they can't
+ */
+const getChangeError = (
+  booking: TokenBooking,
+  cutoffHours: number
+): Exclude<ManageBookingErrorCode, BookingErrorCode> | null => {
+  if (booking.status !== 'confirmed') {
+    return 'NOT_CHANGEABLE';
+  }
+  if (new Date() >= getChangeDeadline(booking.event.start_time, cutoffHours)) {
+    return 'CUTOFF_PASSED';
+  }
+  return null;
+};
+
+/**
+ * Rules the booking was made under: its meeting type's, even if the host
+ * deactivated or deleted it since, or else the host's defaults
+ */
+const getBookingConfig = async (booking: TokenBooking): Promise<PublicCalendarConfig> => {
+  const config = await getMeetingTypeConfig(booking.meeting_type_id, booking.event.created_by, {
+    includeInactive: true,
+  });
+  return config ?? getPublicCalendarConfig(booking.event.created_by);
+};
+
+// Token holders aren't signed in, so RLS can't let them through: without the
+// service role key managing a booking fails instead
+const getManageClient = (): SupabaseClient => createAdminSupabaseClient();
+
+/**
+ * Books a slot with a host: the one of their /<username> page or API key,
+ * the /appointment host by default
+ */
 export async function createBooking(
-  input: CreateBookingInput
-): Promise<ApiResponse<{ id: string }>> {
+  input: CreateBookingInput,
+  hostId?: string | null
+): Promise<ApiResponse<{ id: string; manageToken: string | null }, BookingErrorCode>> {
   try {
-    // Use admin client to bypass RLS for public booking creation
-    let supabase;
-    try {
-      supabase = createAdminSupabaseClient();
-    } catch (adminError) {
-      console.error('Error creating admin client:', adminError);
-      // Fallback to server client
-      supabase = await createServerSupabaseClient();
-    }
+    // create_booking is only granted to the service role: without its key
+    // booking fails instead of falling back to the visitor's client
+    const supabase = createAdminSupabaseClient();
 
     // Validate input
     const validation = createBookingSchema.safeParse(input);
@@ -31,129 +140,304 @@ export async function createBooking(
       return {
         success: false,
         error: validation.error.issues[0].message,
+        code: 'INVALID_INPUT',
       };
     }
-
-    const slotStart = new Date(validation.data.slot_start);
-
-    // Check if slot is in the future
-    if (slotStart < new Date()) {
-      return {
-        success: false,
-        error: 'No se puede reservar un horario pasado',
-      };
+    if (hostId && !validateUUID(hostId)) {
+      return { success: false, error: SLOT_ERROR_MESSAGES.INVALID_INPUT, code: 'INVALID_INPUT' };
     }
 
-    // Check if slot is already booked (event exists for this time)
-    const { data: existingEvent, error: checkError } = await supabase
-      .from('events')
-      .select('id')
-      .eq('start_time', validation.data.slot_start)
-      .eq('end_time', validation.data.slot_end)
-      .maybeSingle();
-
-    if (checkError) {
-      console.error('Error checking existing event:', checkError);
-      return {
-        success: false,
-        error: 'Error al verificar disponibilidad',
-      };
-    }
+    const slotStart = new Date(validation.data.slot_start);
+    const slotEnd = new Date(validation.data.slot_end);
 
-    if (existingEvent) {
+    // Never trust the client's slot: re-check it against the host's rules
+    // (or those of the meeting type being booked)
+    const config = await getMeetingTypeConfig(validation.data.meeting_type_id, hostId);
+    if (!config) {
       return {
         success: false,
-        error: 'Este horario ya fue reservado',
+        error: 'Este tipo de reunión no está disponible',
+        code: 'INVALID_INPUT',
       };
     }
 
-    // Create the event first
-    const { data: eventData, error: eventError } = await supabase
-      .from('events')
-      .insert({
-        title: `Reserva: ${validation.data.name}`,
-        description: validation.data.notes || null,
-        start_time: validation.data.slot_start,
-        end_time: validation.data.slot_end,
-        is_public: true,
-        event_type: 'booking',
-      })
-      .select('id')
-      .single();
-
-    if (eventError || !eventData) {
-      console.error('Error creating event:', eventError);
+    const slotError = await checkSlotBookable(config, slotStart, slotEnd);
+    if (slotError) {
       return {
         success: false,
-        error: `Error al crear el evento: ${eventError?.message || 'Unknown error'}`,
+        error: SLOT_ERROR_MESSAGES[slotError],
+        code: slotError,
       };
     }
 
-    // Create booking linked to the event
-    const { data, error } = await supabase
-      .from('bookings')
-      .insert({
-        event_id: eventData.id,
-        name: validation.data.name,
-        email: validation.data.email,
-        phone: validation.data.phone || null,
-        notes: validation.data.notes || null,
-      })
-      .select('id')
-      .single();
+    // Event + booking in one transaction; the exclusion constraint on events
+    // rejects the insert if the host got a blocking event there meanwhile
+    const { data: bookingId, error } = await supabase.rpc('create_booking', {
+      p_host_id: config.hostId,
+      p_start_time: validation.data.slot_start,
+      p_end_time: validation.data.slot_end,
+      p_name: validation.data.name,
+      p_email: validation.data.email,
+      p_phone: validation.data.phone || null,
+      p_notes: validation.data.notes || null,
+      p_timezone: validation.data.timezone || null,
+      // Only when set, so the RPC also resolves before meeting_types.sql runs
+      ...(validation.data.meeting_type_id ? { p_meeting_type_id: validation.data.meeting_type_id } : {}),
+    });
 
     if (error) {
+      if (error.code === EXCLUSION_VIOLATION) {
+        return {
+          success: false,
+          error: SLOT_ERROR_MESSAGES.SLOT_TAKEN,
+          code: 'SLOT_TAKEN',
+        };
+      }
+
       console.error('Error creating booking:', error);
-      // Rollback: delete the event we just created
-      await supabase.from('events').delete().eq('id', eventData.id);
       return {
         success: false,
         error: `Error al crear la reserva: ${error.message}`,
+        code: 'SERVER_ERROR',
       };
     }
 
     revalidatePath('/');
     revalidatePath('/appointment');
 
+    after(() => sendBookingEmails('confirmed', bookingId as string));
+    after(() => emitBookingWebhook('booking.created', bookingId as string));
+
+    // The booking exists either way; without a secret there's just no link
+    let manageToken: string | null = null;
+    try {
+      manageToken = createBookingToken(bookingId as string);
+    } catch (tokenError) {
+      console.error('Error creating booking token:', tokenError);
+    }
+
     return {
       success: true,
-      data: { id: data.id },
+      data: { id: bookingId as string, manageToken },
     };
   } catch (error) {
     console.error('Unexpected error creating booking:', error);
     return {
       success: false,
       error: `Error inesperado: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      code: 'SERVER_ERROR',
     };
   }
 }
 
-export async function cancelBooking(id: string): Promise<ApiResponse<void>> {
+/**
+ * Host of the event a booking is for, if the current user can see it (RLS)
+ */
+async function getBookingHostId(supabase: SupabaseClient, bookingId: string): Promise<string | null> {
+  if (!validateUUID(bookingId)) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('bookings')
+    .select('events!inner(created_by)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (!data) {
+    return null;
+  }
+
+  const event = Array.isArray(data.events) ? data.events[0] : data.events;
+  return event?.created_by ?? null;
+}
+
+/**
+ * Moves a booking along the status workflow (see lib/hostBookings). Team
+ * owners and admins can also handle their teammates' bookings.
+ */
+export async function updateBookingStatus(
+  input: UpdateBookingStatusInput
+): Promise<ApiResponse<void>> {
   try {
+    const user = await requireAuth();
     const supabase = await createServerSupabaseClient();
 
-    const { error } = await supabase
-      .from('bookings')
-      .update({ status: 'cancelled' })
-      .eq('id', id);
+    const hostId = (await getBookingHostId(supabase, input.id)) ?? user.id;
+    if (hostId !== user.id) {
+      const access = await getTeamAccess(supabase, user.id);
+      if (!access.canManageTeam || !access.memberIds.includes(hostId)) {
+        return { success: false, error: 'No tenés permiso para modificar esta reserva' };
+      }
+    }
+
+    const { success, error } = await changeBookingStatus(supabase, hostId, input);
+    return { success, error };
+  } catch (error) {
+    console.error('Unexpected error updating booking status:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al actualizar la reserva',
+    };
+  }
+}
+
+export async function cancelBooking(id: string, reason?: string | null): Promise<ApiResponse<void>> {
+  return updateBookingStatus({ id, status: 'cancelled', reason });
+}
+
+export async function getBookingStatusHistory(
+  bookingId: string
+): Promise<ApiResponse<BookingStatusChange[]>> {
+  try {
+    await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // RLS limits the history to bookings of calendars the admin can see
+    const { data, error } = await supabase
+      .from('booking_status_history')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
 
     if (error) {
-      console.error('Error cancelling booking:', error);
+      console.error('Error fetching booking history:', error);
       return {
         success: false,
-        error: 'Error al cancelar la reserva',
+        error: 'Error al obtener el historial de la reserva',
       };
     }
 
-    revalidatePath('/');
-    revalidatePath('/admin');
-
-    return { success: true };
+    return { success: true, data: data || [] };
   } catch (error) {
-    console.error('Unexpected error cancelling booking:', error);
+    console.error('Unexpected error fetching booking history:', error);
     return {
       success: false,
-      error: 'Error inesperado al cancelar la reserva',
+      error: 'Error inesperado al obtener el historial',
     };
   }
 }
+
+// ============================================
+// VISITOR SELF-SERVICE (management link)
+// ============================================
+
+export async function getManagedBooking(
+  token: string
+): Promise<ApiResponse<ManagedBooking, ManageBookingErrorCode>> {
+  try {
+    const supabase = getManageClient();
+    const booking = await getTokenBooking(supabase, token);
+    if (!booking) {
+      return { success: false, error: MANAGE_ERROR_MESSAGES.INVALID_TOKEN, code: 'INVALID_TOKEN' };
+    }
+
+    const config = await getBookingConfig(booking);
+
+    return {
+      success: true,
+      data: {
+        id: booking.id,
+        status: booking.status,
+        name: booking.name,
+        email: booking.email,
+        title: booking.event.title,
+        start_time: booking.event.start_time,
+        end_time: booking.event.end_time,
+        timezone: booking.timezone,
+        meetingTypeId: booking.meeting_type_id,
+        hostId: booking.event.created_by,
+        hostTimeZone: config.timezone,
+        changeDeadline: getChangeDeadline(booking.event.start_time, config.cancellationCutoffHours).toISOString(),
+        canChange: getChangeError(booking, config.cancellationCutoffHours) === null,
+      },
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching managed booking:', error);
+    return { success: false, error: 'Error inesperado al obtener la reserva', code: 'SERVER_ERROR' };
+  }
+}
+
+export async function cancelManagedBooking(
+  token: string,
+  reason?: string | null
+): Promise<ApiResponse<void, ManageBookingErrorCode>> {
+  try {
+    const supabase = getManageClient();
+    const booking = await getTokenBooking(supabase, token);
+    if (!booking) {
+      return { success: false, error: MANAGE_ERROR_MESSAGES.INVALID_TOKEN, code: 'INVALID_TOKEN' };
+    }
+
+    const config = await getBookingConfig(booking);
+    const changeError = getChangeError(booking, config.cancellationCutoffHours);
+    if (changeError) {
+      return { success: false, error: MANAGE_ERROR_MESSAGES[changeError], code: changeError };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('bookings')
+      .update({ status: 'cancelled', status_reason: reason?.trim().slice(0, 500) || 'Cancelada por el visitante' })
+      .eq('id', booking.id)
+      .eq('status', 'confirmed')
+      .select('id');
+
+    if (error || !updated || updated.length === 0) {
+      if (error) console.error('Error cancelling booking:', error);
+      return { success: false, error: 'Error al cancelar la reserva', code: 'SERVER_ERROR' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    after(() => sendBookingEmails('cancelled', booking.id));
+    after(() => emitBookingWebhook('booking.cancelled', booking.id));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error cancelling managed booking:', error);
+    return { success: false, error: 'Error inesperado al cancelar la reserva', code: 'SERVER_ERROR' };
+  }
+}
+
+/**
+ * Moves a booking to another slot, re-checked like a new booking
+ */
+export async function rescheduleManagedBooking(
+  input: RescheduleBookingInput
+): Promise<ApiResponse<void, ManageBookingErrorCode>> {
+  try {
+    const validation = rescheduleBookingSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message, code: 'INVALID_INPUT' };
+    }
+
+    const supabase = getManageClient();
+    const booking = await getTokenBooking(supabase, validation.data.token);
+    if (!booking) {
+      return { success: false, error: MANAGE_ERROR_MESSAGES.INVALID_TOKEN, code: 'INVALID_TOKEN' };
+    }
+
+    const config = await getBookingConfig(booking);
+    const changeError = getChangeError(booking, config.cancellationCutoffHours);
+    if (changeError) {
+      return { success: false, error: MANAGE_ERROR_MESSAGES[changeError], code: changeError };
+    }
+
+    const slotError = await moveBooking(
+      supabase,
+      config,
+      booking,
+      validation.data.slot_start,
+      validation.data.slot_end
+    );
+    if (slotError) {
+      return { success: false, error: SLOT_ERROR_MESSAGES[slotError], code: slotError };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error rescheduling booking:', error);
+    return { success: false, error: 'Error inesperado al reprogramar la reserva', code: 'SERVER_ERROR' };
+  }
+}
@@ -5,11 +5,222 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
+import { addDays } from 'date-fns';
 import { createServerSupabaseClient, createAdminSupabaseClient } from '@/lib/supabase/server';
-import { createEventSchema, updateEventSchema } from '@/utils/validations';
-import type { CreateEventInput, UpdateEventInput } from '@/utils/validations';
-import type { ApiResponse, EventWithBooking } from '@/types/database';
+import { sendBookingEmails } from '@/lib/mailer/bookingEmails';
+import { WEBHOOK_EVENT_COLUMNS, emitBookingWebhook, emitEventDeletedWebhook, emitEventWebhook } from '@/lib/webhooks';
+import { EVENT_COLUMNS, getHostEventsInRange, getHostTimeZone, toEventWithBooking } from '@/lib/hostEvents';
+import { canManageCalendar, getScopeHostIds } from '@/lib/organizations';
+import {
+  createEventSchema,
+  eventOverlapCheckSchema,
+  getBookingsQuerySchema,
+  updateEventSchema,
+  updateOccurrenceSchema,
+} from '@/utils/validations';
+import type {
+  CreateEventInput,
+  EventOverlapCheckInput,
+  GetBookingsQuery,
+  GetEventsQuery,
+  UpdateEventInput,
+  UpdateOccurrenceInput,
+} from '@/utils/validations';
+import type {
+  ApiResponse,
+  CalendarScope,
+  Event,
+  EventWithBooking,
+  PaginatedResponse,
+  UpdateEvent,
+} from '@/types/database';
+import { DEFAULT_SETTINGS } from '@/types/database';
 import { requireAuth, getCurrentUser } from '@/utils/auth';
+import {
+  expandOccurrences,
+  getRecurrenceEnd,
+  normalizeRRule,
+} from '@/utils/recurrence';
+import type { RecurringSource } from '@/utils/recurrence';
+import { doTimesOverlap } from '@/utils/dateHelpers';
+
+// Postgres SQLSTATE raised by the no_overlapping_blocking_events constraint
+const EXCLUSION_VIOLATION = '23P01';
+
+// How far ahead recurring series are expanded for conflict checks and the admin list
+const SERIES_CONFLICT_HORIZON_DAYS = 365;
+const UPCOMING_HORIZON_DAYS = 90;
+
+type SupabaseClient = Awaited<ReturnType<typeof createServerSupabaseClient>>;
+
+/**
+ * Whether a candidate event (one-off or recurring) would overlap the host's
+ * blocking events in a way the database can't see: series rows only describe
+ * their first occurrence, so check_event_overlap and the exclusion constraint
+ * only cover one-off events against one-off events.
+ */
+async function hasSeriesConflict(
+  supabase: SupabaseClient,
+  userId: string,
+  candidate: RecurringSource & { event_type: string },
+  timeZone: string,
+  ignoreEventId?: string
+): Promise<boolean> {
+  const { data: policy } = await supabase.rpc('resolve_overlap_policy', {
+    p_user_id: userId,
+    p_event_type: candidate.event_type,
+  });
+
+  if (policy !== 'blocks') {
+    return false;
+  }
+
+  const rangeStart = new Date(candidate.start_time);
+  const horizon = addDays(rangeStart, SERIES_CONFLICT_HORIZON_DAYS);
+  const recurrenceEnd = getRecurrenceEnd(candidate, timeZone);
+  const rangeEnd = recurrenceEnd && recurrenceEnd < horizon ? recurrenceEnd : horizon;
+
+  const occurrences = expandOccurrences(candidate, rangeStart, rangeEnd, timeZone);
+  if (occurrences.length === 0) {
+    return false;
+  }
+
+  const seriesQuery = supabase
+    .from('events')
+    .select('id, start_time, end_time, rrule, exdates, recurrence_parent_id')
+    .eq('created_by', userId)
+    .eq('overlap_policy', 'blocks')
+    .not('rrule', 'is', null)
+    .lt('start_time', rangeEnd.toISOString())
+    .or(`recurrence_end.is.null,recurrence_end.gt.${rangeStart.toISOString()}`);
+
+  // One-off events only matter beyond the first occurrence, which the DB checks
+  const singlesQuery = candidate.rrule
+    ? supabase
+        .from('events')
+        .select('id, start_time, end_time, rrule, exdates, recurrence_parent_id')
+        .eq('created_by', userId)
+        .eq('overlap_policy', 'blocks')
+        .is('rrule', null)
+        .lt('start_time', rangeEnd.toISOString())
+        .gt('end_time', rangeStart.toISOString())
+    : null;
+
+  const [series, singles] = await Promise.all([seriesQuery, singlesQuery]);
+
+  if (series.error || singles?.error) {
+    console.error('Error fetching events:', series.error || singles?.error);
+    return false;
+  }
+
+  // The event being edited and its own detached occurrences don't count
+  const busy = [...(series.data || []), ...(singles?.data || [])]
+    .filter((event) => !ignoreEventId || (event.id !== ignoreEventId && event.recurrence_parent_id !== ignoreEventId))
+    .flatMap((event) => expandOccurrences(event, rangeStart, rangeEnd, timeZone));
+
+  return occurrences.some((occurrence) =>
+    busy.some((b) => doTimesOverlap(occurrence.start, occurrence.end, b.start, b.end))
+  );
+}
+
+/**
+ * The host whose calendar an event is on, if the user can change it: their
+ * own, or a teammate's for team owners and admins
+ */
+async function getManagedEventHost(
+  supabase: SupabaseClient,
+  userId: string,
+  eventId: string
+): Promise<ApiResponse<string>> {
+  const { data: event } = await supabase
+    .from('events')
+    .select('created_by')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (!event?.created_by) {
+    return { success: false, error: 'Evento no encontrado' };
+  }
+
+  if (!(await canManageCalendar(supabase, userId, event.created_by))) {
+    return { success: false, error: 'No tenés permiso para modificar este evento' };
+  }
+
+  return { success: true, data: event.created_by };
+}
+
+/**
+ * check_event_overlap for one-off events plus the recurring series check
+ */
+async function overlapsHostEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  candidate: RecurringSource & { event_type: string },
+  timeZone: string,
+  ignoreEventId?: string
+): Promise<boolean> {
+  const { data: hasNoOverlap } = await supabase.rpc('check_event_overlap', {
+    p_start_time: candidate.start_time,
+    p_end_time: candidate.end_time,
+    p_user_id: userId,
+    p_event_type: candidate.event_type,
+    p_event_id: ignoreEventId,
+  });
+
+  if (hasNoOverlap === false) {
+    return true;
+  }
+
+  return hasSeriesConflict(supabase, userId, candidate, timeZone, ignoreEventId);
+}
+
+/**
+ * Whether an event would overlap the host's calendar, so the form can warn
+ * before saving. Same rules createEvent/updateEvent enforce.
+ */
+export async function checkEventOverlap(
+  input: EventOverlapCheckInput
+): Promise<ApiResponse<{ overlaps: boolean }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = eventOverlapCheckSchema.safeParse(input);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0].message,
+      };
+    }
+
+    const { event_id, rrule, ...times } = validation.data;
+
+    // An existing event is checked against its own host's calendar
+    let hostId = user.id;
+    if (event_id) {
+      const host = await getManagedEventHost(supabase, user.id, event_id);
+      if (!host.success || !host.data) {
+        return { success: false, error: host.error };
+      }
+      hostId = host.data;
+    }
+
+    const timeZone = await getHostTimeZone(supabase, hostId);
+    const candidate = { ...times, rrule: rrule ? normalizeRRule(rrule) : null, exdates: [] };
+
+    return {
+      success: true,
+      data: { overlaps: await overlapsHostEvents(supabase, hostId, candidate, timeZone, event_id) },
+    };
+  } catch (error) {
+    console.error('Unexpected error checking overlap:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al verificar solapamientos',
+    };
+  }
+}
 
 export async function createEvent(
   input: CreateEventInput
@@ -27,13 +238,12 @@ export async function createEvent(
       };
     }
 
-    // Check for overlaps using DB function
-    const { data: hasOverlap } = await supabase.rpc('check_event_overlap', {
-      p_start_time: validation.data.start_time,
-      p_end_time: validation.data.end_time,
-    });
+    const rrule = validation.data.rrule ? normalizeRRule(validation.data.rrule) : null;
+    const timeZone = await getHostTimeZone(supabase, user.id);
+    const candidate = { ...validation.data, rrule, exdates: [] };
 
-    if (hasOverlap === false) {
+    // Check for overlaps in the host's calendar, per the event type's policy
+    if (await overlapsHostEvents(supabase, user.id, candidate, timeZone)) {
       return {
         success: false,
         error: 'El horario se solapa con otro evento existente',
@@ -45,6 +255,8 @@ export async function createEvent(
       .from('events')
       .insert({
         ...validation.data,
+        rrule,
+        recurrence_end: rrule ? getRecurrenceEnd(candidate, timeZone)?.toISOString() ?? null : null,
         created_by: user.id,
       })
       .select('id')
@@ -54,13 +266,18 @@ export async function createEvent(
       console.error('Error creating event:', error);
       return {
         success: false,
-        error: 'Error al crear el evento',
+        // Overlap created concurrently, caught by the exclusion constraint
+        error: error.code === EXCLUSION_VIOLATION
+          ? 'El horario se solapa con otro evento existente'
+          : 'Error al crear el evento',
       };
     }
 
     revalidatePath('/');
     revalidatePath('/admin');
 
+    after(() => emitEventWebhook(data.id, 'event.created'));
+
     return {
       success: true,
       data: { id: data.id },
@@ -90,22 +307,67 @@ export async function updateEvent(
       };
     }
 
-    const { id, ...updateData } = validation.data;
+    const { id, ...fields } = validation.data;
+
+    const host = await getManagedEventHost(supabase, user.id, id);
+    if (!host.success || !host.data) {
+      return { success: false, error: host.error };
+    }
+    const hostId = host.data;
+    // Set when a booked slot is moved, so the visitor gets told
+    let movedBookingFrom: string | null = null;
+    const updateData: UpdateEvent = {
+      ...fields,
+      rrule: fields.rrule === undefined ? undefined : fields.rrule && normalizeRRule(fields.rrule),
+    };
+
+    // Check for overlaps (excluding current event) whenever the time, the
+    // type or the rule changes; fields not being updated keep their values
+    if (fields.start_time || fields.end_time || fields.event_type || fields.rrule !== undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from('events')
+        .select('start_time, end_time, event_type, rrule, exdates, recurrence_parent_id')
+        .eq('id', id)
+        .eq('created_by', hostId)
+        .single();
+
+      if (currentError || !current) {
+        return {
+          success: false,
+          error: 'Evento no encontrado',
+        };
+      }
+
+      if (current.recurrence_parent_id && fields.rrule) {
+        return {
+          success: false,
+          error: 'Una ocurrencia editada no puede repetirse',
+        };
+      }
 
-    // Check for overlaps (excluding current event)
-    if (updateData.start_time && updateData.end_time) {
-      const { data: hasOverlap } = await supabase.rpc('check_event_overlap', {
-        p_start_time: updateData.start_time,
-        p_end_time: updateData.end_time,
-        p_event_id: id,
-      });
+      const candidate = {
+        start_time: fields.start_time ?? current.start_time,
+        end_time: fields.end_time ?? current.end_time,
+        event_type: fields.event_type ?? current.event_type,
+        rrule: updateData.rrule === undefined ? current.rrule : updateData.rrule,
+        exdates: current.exdates,
+      };
+      const timeZone = await getHostTimeZone(supabase, hostId);
 
-      if (hasOverlap === false) {
+      if (await overlapsHostEvents(supabase, hostId, candidate, timeZone, id)) {
         return {
           success: false,
           error: 'El horario se solapa con otro evento existente',
         };
       }
+
+      updateData.recurrence_end = candidate.rrule
+        ? getRecurrenceEnd(candidate, timeZone)?.toISOString() ?? null
+        : null;
+
+      if (current.event_type === 'booking' && Date.parse(candidate.start_time) !== Date.parse(current.start_time)) {
+        movedBookingFrom = current.start_time;
+      }
     }
 
     // Update event
@@ -113,19 +375,38 @@ export async function updateEvent(
       .from('events')
       .update(updateData)
       .eq('id', id)
-      .eq('created_by', user.id);
+      .eq('created_by', hostId);
 
     if (error) {
       console.error('Error updating event:', error);
       return {
         success: false,
-        error: 'Error al actualizar el evento',
+        error: error.code === EXCLUSION_VIOLATION
+          ? 'El horario se solapa con otro evento existente'
+          : 'Error al actualizar el evento',
       };
     }
 
     revalidatePath('/');
     revalidatePath('/admin');
 
+    if (movedBookingFrom) {
+      const previousStartTime = movedBookingFrom;
+      const { data: booking } = await supabase
+        .from('bookings')
+        .select('id')
+        .eq('event_id', id)
+        .eq('status', 'confirmed')
+        .maybeSingle();
+
+      if (booking) {
+        after(() => sendBookingEmails('rescheduled', booking.id, { notifyHost: false, previousStartTime }));
+        after(() => emitBookingWebhook('booking.rescheduled', booking.id, previousStartTime));
+      }
+    }
+
+    after(() => emitEventWebhook(id));
+
     return { success: true };
   } catch (error) {
     console.error('Unexpected error updating event:', error);
@@ -136,16 +417,216 @@ export async function updateEvent(
   }
 }
 
-export async function deleteEvent(id: string): Promise<ApiResponse<void>> {
+/**
+ * Edits one occurrence of a recurring series: it becomes its own event
+ * (linked to the series) and the series stops generating it
+ */
+export async function updateEventOccurrence(
+  input: UpdateOccurrenceInput
+): Promise<ApiResponse<{ id: string }>> {
   try {
     const user = await requireAuth();
     const supabase = await createServerSupabaseClient();
 
+    // Validate input
+    const validation = updateOccurrenceSchema.safeParse(input);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0].message,
+      };
+    }
+
+    const { event_id, occurrence_start, ...changes } = validation.data;
+
+    const host = await getManagedEventHost(supabase, user.id, event_id);
+    if (!host.success || !host.data) {
+      return { success: false, error: host.error };
+    }
+    const hostId = host.data;
+
+    const { data: series, error: seriesError } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', event_id)
+      .eq('created_by', hostId)
+      .not('rrule', 'is', null)
+      .single();
+
+    if (seriesError || !series) {
+      return { success: false, error: 'Evento no encontrado' };
+    }
+
+    // The occurrence must really be generated by the series
+    const timeZone = await getHostTimeZone(supabase, hostId);
+    const occurrenceStart = new Date(occurrence_start);
+    const occurrence = expandOccurrences(
+      series,
+      occurrenceStart,
+      new Date(occurrenceStart.getTime() + 1),
+      timeZone
+    ).find((o) => o.start.getTime() === occurrenceStart.getTime());
+
+    if (!occurrence) {
+      return { success: false, error: 'Ocurrencia no encontrada' };
+    }
+
+    const detached = {
+      title: changes.title ?? series.title,
+      description: changes.description !== undefined ? changes.description : series.description,
+      start_time: changes.start_time ?? occurrence.start.toISOString(),
+      end_time: changes.end_time ?? occurrence.end.toISOString(),
+      event_type: series.event_type,
+      is_public: changes.is_public ?? series.is_public,
+    };
+
+    if (new Date(detached.end_time) <= new Date(detached.start_time)) {
+      return {
+        success: false,
+        error: 'La fecha de fin debe ser posterior a la fecha de inicio',
+      };
+    }
+
+    const candidate = { ...detached, rrule: null, exdates: [] };
+    if (await overlapsHostEvents(supabase, hostId, candidate, timeZone, event_id)) {
+      return {
+        success: false,
+        error: 'El horario se solapa con otro evento existente',
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('events')
+      .insert({
+        ...detached,
+        created_by: hostId,
+        recurrence_parent_id: event_id,
+        original_start: occurrence.start.toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating occurrence:', error);
+      return {
+        success: false,
+        error: error?.code === EXCLUSION_VIOLATION
+          ? 'El horario se solapa con otro evento existente'
+          : 'Error al actualizar la ocurrencia',
+      };
+    }
+
+    const { error: exdateError } = await supabase
+      .from('events')
+      .update({ exdates: [...series.exdates, occurrence.start.toISOString()] })
+      .eq('id', event_id)
+      .eq('created_by', hostId);
+
+    if (exdateError) {
+      console.error('Error excluding occurrence from series:', exdateError);
+      // Rollback: delete the occurrence we just created
+      await supabase.from('events').delete().eq('id', data.id);
+      return {
+        success: false,
+        error: 'Error al actualizar la ocurrencia',
+      };
+    }
+
+    revalidatePath('/');
+    revalidatePath('/admin');
+
+    // The series lost the occurrence and the edited one is its own event now
+    after(() => emitEventWebhook(event_id));
+    after(() => emitEventWebhook(data.id, 'event.created'));
+
+    return { success: true, data: { id: data.id } };
+  } catch (error) {
+    console.error('Unexpected error updating occurrence:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al actualizar la ocurrencia',
+    };
+  }
+}
+
+/**
+ * Removes one occurrence of a recurring series (adds it to its exdates)
+ */
+export async function deleteEventOccurrence(
+  eventId: string,
+  occurrenceStart: string
+): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const host = await getManagedEventHost(supabase, user.id, eventId);
+    if (!host.success || !host.data) {
+      return { success: false, error: host.error };
+    }
+    const hostId = host.data;
+
+    const { data: series, error: seriesError } = await supabase
+      .from('events')
+      .select('exdates')
+      .eq('id', eventId)
+      .eq('created_by', hostId)
+      .not('rrule', 'is', null)
+      .single();
+
+    if (seriesError || !series) {
+      return { success: false, error: 'Evento no encontrado' };
+    }
+
+    const exdate = new Date(occurrenceStart).toISOString();
     const { error } = await supabase
+      .from('events')
+      .update({ exdates: Array.from(new Set([...series.exdates, exdate])) })
+      .eq('id', eventId)
+      .eq('created_by', hostId);
+
+    if (error) {
+      console.error('Error deleting occurrence:', error);
+      return {
+        success: false,
+        error: 'Error al eliminar la ocurrencia',
+      };
+    }
+
+    revalidatePath('/');
+    revalidatePath('/admin');
+
+    after(() => emitEventWebhook(eventId));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error deleting occurrence:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al eliminar la ocurrencia',
+    };
+  }
+}
+
+export async function deleteEvent(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const host = await getManagedEventHost(supabase, user.id, id);
+    if (!host.success || !host.data) {
+      return { success: false, error: host.error };
+    }
+    const hostId = host.data;
+
+    // The deleted row is kept for its webhook, it can't be read afterwards
+    const { data: deleted, error } = await supabase
       .from('events')
       .delete()
       .eq('id', id)
-      .eq('created_by', user.id);
+      .eq('created_by', hostId)
+      .select(WEBHOOK_EVENT_COLUMNS)
+      .maybeSingle();
 
     if (error) {
       console.error('Error deleting event:', error);
@@ -158,6 +639,10 @@ export async function deleteEvent(id: string): Promise<ApiResponse<void>> {
     revalidatePath('/');
     revalidatePath('/admin');
 
+    if (deleted) {
+      after(() => emitEventDeletedWebhook(deleted));
+    }
+
     return { success: true };
   } catch (error) {
     console.error('Unexpected error deleting event:', error);
@@ -168,7 +653,45 @@ export async function deleteEvent(id: string): Promise<ApiResponse<void>> {
   }
 }
 
-export async function getUpcomingEvents(): Promise<ApiResponse<EventWithBooking[]>> {
+export async function getEvent(id: string): Promise<ApiResponse<Event>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const host = await getManagedEventHost(supabase, user.id, id);
+    if (!host.success || !host.data) {
+      return { success: false, error: host.error };
+    }
+    const hostId = host.data;
+
+    const { data, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .eq('created_by', hostId)
+      .single();
+
+    if (error || !data) {
+      return { success: false, error: 'Evento no encontrado' };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Unexpected error fetching event:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al obtener el evento',
+    };
+  }
+}
+
+/**
+ * Upcoming events for the admin list: the host's own, or with scope 'team'
+ * every teammate's when their role can see them (see lib/organizations)
+ */
+export async function getUpcomingEvents(
+  scope: CalendarScope = 'own'
+): Promise<ApiResponse<EventWithBooking[]>> {
   try {
     const user = await getCurrentUser();
     if (!user) {
@@ -184,33 +707,31 @@ export async function getUpcomingEvents(): Promise<ApiResponse<EventWithBooking[
       supabase = await createServerSupabaseClient();
     }
 
-    const now = new Date().toISOString();
+    const hostIds = await getScopeHostIds(supabase, user.id, scope);
+    const now = new Date();
+    const horizon = addDays(now, UPCOMING_HORIZON_DAYS);
 
-    // Get upcoming events with their bookings
-    const { data: events, error } = await supabase
-      .from('events')
-      .select(`
-        id,
-        title,
-        description,
-        start_time,
-        end_time,
-        event_type,
-        is_public,
-        created_at,
-        bookings (
-          id,
-          name,
-          email,
-          phone,
-          notes,
-          status
-        )
-      `)
-      .gte('start_time', now)
-      .order('start_time', { ascending: true })
-      .limit(50);
+    // Get upcoming one-off events with their bookings, plus the recurring
+    // series still running (expanded below)
+    const [singles, series] = await Promise.all([
+      supabase
+        .from('events')
+        .select(EVENT_COLUMNS)
+        .in('created_by', hostIds)
+        .is('rrule', null)
+        .gte('start_time', now.toISOString())
+        .order('start_time', { ascending: true })
+        .limit(50),
+      supabase
+        .from('events')
+        .select(EVENT_COLUMNS)
+        .in('created_by', hostIds)
+        .not('rrule', 'is', null)
+        .lt('start_time', horizon.toISOString())
+        .or(`recurrence_end.is.null,recurrence_end.gt.${now.toISOString()}`),
+    ]);
 
+    const error = singles.error || series.error;
     if (error) {
       console.error('Error fetching events:', error);
       return {
@@ -219,20 +740,24 @@ export async function getUpcomingEvents(): Promise<ApiResponse<EventWithBooking[
       };
     }
 
-    // Transform data to match EventWithBooking type
-    const transformedEvents: EventWithBooking[] = (events || []).map((event: any) => ({
-      id: event.id,
-      title: event.title,
-      description: event.description,
-      start_time: event.start_time,
-      end_time: event.end_time,
-      event_type: event.event_type,
-      is_public: event.is_public,
-      created_by: event.created_by,
-      created_at: event.created_at,
-      updated_at: event.updated_at,
-      booking: event.bookings?.[0] || null,
-    }));
+    // One entry per upcoming occurrence, in its host's zone
+    const timeZones = new Map(
+      await Promise.all(hostIds.map(async (id) => [id, await getHostTimeZone(supabase, id)] as const))
+    );
+    const occurrences = (series.data || []).flatMap((event) =>
+      expandOccurrences(event, now, horizon, timeZones.get(event.created_by) ?? DEFAULT_SETTINGS.timezone)
+        .filter((occurrence) => occurrence.start >= now)
+        .map((occurrence) => ({
+          ...toEventWithBooking(event),
+          start_time: occurrence.start.toISOString(),
+          end_time: occurrence.end.toISOString(),
+          occurrence_start: occurrence.start.toISOString(),
+        }))
+    );
+
+    const transformedEvents = [...(singles.data || []).map(toEventWithBooking), ...occurrences]
+      .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+      .slice(0, 50);
 
     return {
       success: true,
@@ -246,3 +771,144 @@ export async function getUpcomingEvents(): Promise<ApiResponse<EventWithBooking[
     };
   }
 }
+
+/**
+ * Events and series occurrences for the admin timeline (see lib/hostEvents),
+ * of the host or of their whole team
+ */
+export async function getEventsInRange(
+  query: GetEventsQuery,
+  scope: CalendarScope = 'own'
+): Promise<ApiResponse<EventWithBooking[]>> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'No autenticado' };
+    }
+
+    let supabase;
+    try {
+      supabase = createAdminSupabaseClient();
+    } catch {
+      // Fallback to regular client if service role key not available
+      supabase = await createServerSupabaseClient();
+    }
+
+    const hostIds = await getScopeHostIds(supabase, user.id, scope);
+    const results = await Promise.all(hostIds.map((hostId) => getHostEventsInRange(supabase, hostId, query)));
+
+    const failed = results.find((result) => !result.success);
+    if (failed) {
+      return failed;
+    }
+
+    return {
+      success: true,
+      data: results
+        .flatMap((result) => result.data || [])
+        .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time)),
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching events:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al obtener los eventos',
+    };
+  }
+}
+
+/**
+ * One page of one-off events and bookings for the admin bookings screen, of
+ * the host or of their whole team.
+ * Filtering by booking status or searching the visitor's details only
+ * returns events that have a booking.
+ */
+export async function getBookings(
+  query: GetBookingsQuery = {},
+  scope: CalendarScope = 'own'
+): Promise<ApiResponse<PaginatedResponse<EventWithBooking>>> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'No autenticado' };
+    }
+
+    const validation = getBookingsQuerySchema.safeParse(query);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0].message,
+      };
+    }
+
+    const { page, page_size, status, event_type, from, to, when, sort_by, sort_dir } = validation.data;
+    // Characters with meaning in PostgREST filter strings
+    const search = validation.data.search?.replace(/[%*,()\\]/g, ' ').trim();
+    const needsBooking = !!status || !!search;
+
+    let supabase;
+    try {
+      supabase = createAdminSupabaseClient();
+    } catch {
+      // Fallback to regular client if service role key not available
+      supabase = await createServerSupabaseClient();
+    }
+
+    const hostIds = await getScopeHostIds(supabase, user.id, scope);
+    const columns = needsBooking ? EVENT_COLUMNS.replace('bookings (', 'bookings!inner (') : EVENT_COLUMNS;
+    let request = supabase
+      .from('events')
+      .select(columns, { count: 'exact' })
+      .in('created_by', hostIds)
+      .is('rrule', null);
+
+    if (event_type) request = request.eq('event_type', event_type);
+    if (status) request = request.eq('bookings.status', status);
+    if (from) request = request.gte('start_time', from);
+    if (to) request = request.lt('start_time', to);
+
+    const now = new Date().toISOString();
+    if (when === 'upcoming') request = request.gte('start_time', now);
+    if (when === 'past') request = request.lt('end_time', now);
+
+    if (search) {
+      request = request.or(
+        `name.ilike.%${search}%,email.ilike.%${search}%,notes.ilike.%${search}%`,
+        { referencedTable: 'bookings' }
+      );
+    }
+
+    const offset = (page - 1) * page_size;
+    const { data, count, error } = await request
+      .order(sort_by, { ascending: sort_dir === 'asc' })
+      .order('id', { ascending: true })
+      .range(offset, offset + page_size - 1);
+
+    if (error) {
+      console.error('Error fetching bookings:', error);
+      return {
+        success: false,
+        error: 'Error al obtener las reservas',
+      };
+    }
+
+    const total = count ?? 0;
+
+    return {
+      success: true,
+      data: {
+        data: (data || []).map(toEventWithBooking),
+        total,
+        page,
+        pageSize: page_size,
+        hasMore: offset + page_size < total,
+      },
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching bookings:', error);
+    return {
+      success: false,
+      error: 'Error inesperado al obtener las reservas',
+    };
+  }
+}
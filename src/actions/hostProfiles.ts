@@ -0,0 +1,112 @@
+/**
+ * Server Actions for Host Profiles
+ * The username behind each host's public booking URL (/<username>)
+ */
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getSiteUrl } from '@/lib/siteUrl';
+import { requireAuth } from '@/utils/auth';
+import { hostProfileSchema } from '@/utils/validations';
+import type { HostProfileInput } from '@/utils/validations';
+import type { ApiResponse, HostProfile, HostProfileWithUrl } from '@/types/database';
+
+// Postgres SQLSTATE for unique_host_username
+const UNIQUE_VIOLATION = '23505';
+
+const withUrl = (profile: HostProfile): HostProfileWithUrl => ({
+  ...profile,
+  url: `${getSiteUrl()}/${profile.username}`,
+});
+
+export async function getHostProfile(): Promise<ApiResponse<HostProfileWithUrl | null>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('host_profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching host profile:', error);
+      return { success: false, error: 'Error al obtener el perfil' };
+    }
+
+    return { success: true, data: data ? withUrl(data) : null };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function saveHostProfile(input: HostProfileInput): Promise<ApiResponse<HostProfileWithUrl>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = hostProfileSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const { data, error } = await supabase
+      .from('host_profiles')
+      .upsert(
+        {
+          user_id: user.id,
+          username: validation.data.username,
+          display_name: validation.data.display_name,
+          bio: validation.data.bio || null,
+        },
+        { onConflict: 'user_id' }
+      )
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        return { success: false, error: 'Ese nombre de usuario ya está en uso' };
+      }
+      console.error('Error saving host profile:', error);
+      return { success: false, error: 'Error al guardar el perfil' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true, data: withUrl(data) };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * The host behind a public booking URL, if the username exists
+ */
+export async function getPublicHostProfile(username: string): Promise<HostProfile | null> {
+  const validation = hostProfileSchema.shape.username.safeParse(username);
+  if (!validation.success) {
+    return null;
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from('host_profiles')
+      .select('*')
+      .eq('username', validation.data)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching host profile:', error);
+    }
+    return data ?? null;
+  } catch (error) {
+    console.error('Unexpected error fetching host profile:', error);
+    return null;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Server Actions for Meeting Types
+ * The kinds of meetings visitors can book, each with its own length,
+ * buffers and notice (see applyMeetingType)
+ */
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getPublicCalendarConfig } from '@/actions/settings';
+import { createServerSupabaseClient, createAdminSupabaseClient } from '@/lib/supabase/server';
+import { requireAuth } from '@/utils/auth';
+import { applyMeetingType } from '@/utils/availability';
+import { meetingTypeSchema, updateMeetingTypeSchema, validateUUID } from '@/utils/validations';
+import type { MeetingTypeInput, UpdateMeetingTypeInput } from '@/utils/validations';
+import type { ApiResponse, MeetingType, PublicCalendarConfig } from '@/types/database';
+
+// Postgres SQLSTATE for unique_meeting_type_slug
+const UNIQUE_VIOLATION = '23505';
+
+const SLUG_TAKEN_MESSAGE = 'Ya tenés un tipo de reunión con esa URL';
+
+// ============================================
+// ADMIN
+// ============================================
+
+export async function getMeetingTypes(): Promise<ApiResponse<MeetingType[]>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('meeting_types')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('position')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching meeting types:', error);
+      return { success: false, error: 'Error al obtener los tipos de reunión' };
+    }
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function createMeetingType(input: MeetingTypeInput): Promise<ApiResponse<MeetingType>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = meetingTypeSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    // New types go last on the landing page
+    const { count } = await supabase
+      .from('meeting_types')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+
+    const { data, error } = await supabase
+      .from('meeting_types')
+      .insert({ ...validation.data, user_id: user.id, position: count ?? 0 })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        return { success: false, error: SLUG_TAKEN_MESSAGE };
+      }
+      console.error('Error creating meeting type:', error);
+      return { success: false, error: 'Error al crear el tipo de reunión' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function updateMeetingType(input: UpdateMeetingTypeInput): Promise<ApiResponse<MeetingType>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = updateMeetingTypeSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    // Existing bookings keep their times; the changes apply to new ones
+    const { id, ...fields } = validation.data;
+    const { data, error } = await supabase
+      .from('meeting_types')
+      .update(fields)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        return { success: false, error: SLUG_TAKEN_MESSAGE };
+      }
+      console.error('Error updating meeting type:', error);
+      return { success: false, error: 'Error al actualizar el tipo de reunión' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function deleteMeetingType(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // Its bookings stay, without a meeting type (ON DELETE SET NULL)
+    const { error } = await supabase
+      .from('meeting_types')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting meeting type:', error);
+      return { success: false, error: 'Error al eliminar el tipo de reunión' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+// ============================================
+// PUBLIC
+// ============================================
+
+/**
+ * Active meeting types of a host (the /appointment host by default), in
+ * landing page order
+ */
+export async function getPublicMeetingTypes(hostId?: string | null): Promise<MeetingType[]> {
+  try {
+    const ownerId = hostId || (await getPublicCalendarConfig()).hostId;
+    if (!ownerId) {
+      return [];
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from('meeting_types')
+      .select('*')
+      .eq('user_id', ownerId)
+      .eq('is_active', true)
+      .order('position')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching meeting types:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Unexpected error fetching meeting types:', error);
+    return [];
+  }
+}
+
+/**
+ * An active meeting type by its slug, for its booking page
+ */
+export async function getPublicMeetingType(slug: string, hostId?: string | null): Promise<MeetingType | null> {
+  const meetingTypes = await getPublicMeetingTypes(hostId);
+  return meetingTypes.find((meetingType) => meetingType.slug === slug) ?? null;
+}
+
+/**
+ * Booking rules for a meeting type, on top of its host's calendar settings;
+ * without one, the host's defaults. Null when the type doesn't exist, isn't
+ * hostId's or, unless includeInactive (rescheduling existing bookings), is
+ * no longer active.
+ */
+export async function getMeetingTypeConfig(
+  meetingTypeId: string | null | undefined,
+  hostId?: string | null,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<PublicCalendarConfig | null> {
+  if (!meetingTypeId) {
+    return getPublicCalendarConfig(hostId);
+  }
+  if (!validateUUID(meetingTypeId)) {
+    return null;
+  }
+
+  // Inactive types are hidden from visitors by RLS
+  let supabase;
+  try {
+    supabase = createAdminSupabaseClient();
+  } catch {
+    supabase = await createServerSupabaseClient();
+  }
+
+  const { data: meetingType, error } = await supabase
+    .from('meeting_types')
+    .select('user_id, is_active, duration_minutes, buffer_before_minutes, buffer_after_minutes, min_notice_hours')
+    .eq('id', meetingTypeId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching meeting type:', error);
+  }
+  if (!meetingType || (hostId && meetingType.user_id !== hostId) || (!meetingType.is_active && !includeInactive)) {
+    return null;
+  }
+
+  const config = await getPublicCalendarConfig(meetingType.user_id);
+  return applyMeetingType(config, meetingType);
+}
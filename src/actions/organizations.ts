@@ -0,0 +1,531 @@
+/**
+ * Server Actions for Organizations
+ * Teams of hosts: members and their roles, and invitations by email
+ */
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
+import { addDays } from 'date-fns';
+import { createServerSupabaseClient, createAdminSupabaseClient } from '@/lib/supabase/server';
+import { getSiteUrl } from '@/lib/siteUrl';
+import { getHostTimeZone } from '@/lib/hostEvents';
+import {
+  INVITE_TTL_DAYS,
+  generateInviteToken,
+  getTeamAccess,
+  hashInviteToken,
+  sendInviteEmail,
+} from '@/lib/organizations';
+import { requireAuth } from '@/utils/auth';
+import {
+  organizationInviteSchema,
+  organizationSchema,
+  registerSchema,
+  updateMemberRoleSchema,
+} from '@/utils/validations';
+import type { OrganizationInput, OrganizationInviteInput, UpdateMemberRoleInput } from '@/utils/validations';
+import type { ApiResponse, InvitePreview, TeamMember, TeamOverview } from '@/types/database';
+
+// Postgres SQLSTATE for unique_member_user and idx_organization_invites_pending
+const UNIQUE_VIOLATION = '23505';
+
+const INVITE_COLUMNS = 'id, organization_id, email, role, invited_by, expires_at, accepted_at, created_at';
+
+export async function getTeam(): Promise<ApiResponse<TeamOverview | null>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || !access.role) {
+      return { success: true, data: null };
+    }
+
+    // RLS only lists invites to the roles that manage members
+    const [organization, members, invites] = await Promise.all([
+      supabase.from('organizations').select('*').eq('id', access.organizationId).single(),
+      supabase
+        .from('organization_members')
+        .select('*')
+        .eq('organization_id', access.organizationId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('organization_invites')
+        .select(INVITE_COLUMNS)
+        .eq('organization_id', access.organizationId)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    const error = organization.error || members.error || invites.error;
+    if (error || !organization.data) {
+      console.error('Error fetching team:', error);
+      return { success: false, error: 'Error al obtener el equipo' };
+    }
+
+    const { data: profiles } = await supabase
+      .from('host_profiles')
+      .select('user_id, display_name')
+      .in('user_id', access.memberIds);
+
+    const names = new Map<string, string>(
+      (profiles || []).map((p: { user_id: string; display_name: string }) => [p.user_id, p.display_name])
+    );
+
+    return {
+      success: true,
+      data: {
+        organization: organization.data,
+        role: access.role,
+        members: (members.data || []).map(
+          (member): TeamMember => ({ ...member, display_name: names.get(member.user_id) ?? null })
+        ),
+        invites: invites.data || [],
+      },
+    };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Creates a team with the current host as its owner
+ */
+export async function createOrganization(input: OrganizationInput): Promise<ApiResponse<{ id: string }>> {
+  try {
+    await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = organizationSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const { data, error } = await supabase.rpc('create_organization', { p_name: validation.data.name });
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        return { success: false, error: 'Ya pertenecés a un equipo' };
+      }
+      console.error('Error creating organization:', error);
+      return { success: false, error: 'Error al crear el equipo' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true, data: { id: data } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function updateOrganization(input: OrganizationInput): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = organizationSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || !access.canManageTeam) {
+      return { success: false, error: 'No tenés permiso para editar el equipo' };
+    }
+
+    const { error } = await supabase
+      .from('organizations')
+      .update({ name: validation.data.name })
+      .eq('id', access.organizationId);
+
+    if (error) {
+      console.error('Error updating organization:', error);
+      return { success: false, error: 'Error al guardar el equipo' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Deletes the team; every member is left on their own with their calendar
+ */
+export async function deleteOrganization(): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || access.role !== 'owner') {
+      return { success: false, error: 'Solo el propietario puede eliminar el equipo' };
+    }
+
+    const { error } = await supabase.from('organizations').delete().eq('id', access.organizationId);
+
+    if (error) {
+      console.error('Error deleting organization:', error);
+      return { success: false, error: 'Error al eliminar el equipo' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Invites someone by email. The link is also returned, so it can be shared
+ * by hand; it works once, for that email, until it expires.
+ */
+export async function inviteMember(input: OrganizationInviteInput): Promise<ApiResponse<{ url: string }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = organizationInviteSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || !access.canManageTeam) {
+      return { success: false, error: 'No tenés permiso para invitar miembros' };
+    }
+
+    const { email, role } = validation.data;
+
+    // Member emails are stored lowercased, like the validated one
+    const [{ data: organization }, { data: existing, error: existingError }] = await Promise.all([
+      supabase.from('organizations').select('name').eq('id', access.organizationId).single(),
+      supabase
+        .from('organization_members')
+        .select('user_id')
+        .eq('organization_id', access.organizationId)
+        .eq('email', email)
+        .limit(1),
+    ]);
+
+    if (existingError) {
+      console.error('Error checking team members:', existingError);
+      return { success: false, error: 'Error al crear la invitación' };
+    }
+
+    if (existing && existing.length > 0) {
+      return { success: false, error: 'Esa persona ya es miembro del equipo' };
+    }
+
+    const { token, hash } = generateInviteToken();
+    const expiresAt = addDays(new Date(), INVITE_TTL_DAYS).toISOString();
+
+    const { error } = await supabase.from('organization_invites').insert({
+      organization_id: access.organizationId,
+      email,
+      role,
+      token_hash: hash,
+      invited_by: user.id,
+      expires_at: expiresAt,
+    });
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return { success: false, error: 'Ya hay una invitación pendiente para ese email' };
+      }
+      console.error('Error creating invite:', error);
+      return { success: false, error: 'Error al crear la invitación' };
+    }
+
+    const url = `${getSiteUrl()}/invite/${token}`;
+    const timeZone = await getHostTimeZone(supabase, user.id);
+
+    after(() =>
+      sendInviteEmail(email, {
+        organizationName: organization?.name ?? 'el equipo',
+        inviterEmail: user.email ?? null,
+        role,
+        inviteUrl: url,
+        expiresAt,
+        timeZone,
+      })
+    );
+
+    revalidatePath('/admin');
+
+    return { success: true, data: { url } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function revokeInvite(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || !access.canManageTeam) {
+      return { success: false, error: 'No tenés permiso para revocar invitaciones' };
+    }
+
+    const { error } = await supabase
+      .from('organization_invites')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', access.organizationId);
+
+    if (error) {
+      console.error('Error revoking invite:', error);
+      return { success: false, error: 'Error al revocar la invitación' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function updateMemberRole(input: UpdateMemberRoleInput): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = updateMemberRoleSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || !access.canManageTeam) {
+      return { success: false, error: 'No tenés permiso para cambiar roles' };
+    }
+
+    if (validation.data.user_id === user.id) {
+      return { success: false, error: 'No podés cambiar tu propio rol' };
+    }
+
+    // RLS leaves the owner's membership untouched
+    const { data, error } = await supabase
+      .from('organization_members')
+      .update({ role: validation.data.role })
+      .eq('organization_id', access.organizationId)
+      .eq('user_id', validation.data.user_id)
+      .neq('role', 'owner')
+      .select('user_id');
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      return { success: false, error: 'Error al cambiar el rol' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Miembro no encontrado' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function removeMember(userId: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId || !access.canManageTeam) {
+      return { success: false, error: 'No tenés permiso para quitar miembros' };
+    }
+
+    if (userId === user.id) {
+      return { success: false, error: 'Para irte del equipo usá "Dejar el equipo"' };
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', access.organizationId)
+      .eq('user_id', userId)
+      .neq('role', 'owner')
+      .select('user_id');
+
+    if (error) {
+      console.error('Error removing member:', error);
+      return { success: false, error: 'Error al quitar el miembro' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Miembro no encontrado' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function leaveOrganization(): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const access = await getTeamAccess(supabase, user.id);
+    if (!access.organizationId) {
+      return { success: false, error: 'No pertenecés a ningún equipo' };
+    }
+
+    if (access.role === 'owner') {
+      return { success: false, error: 'El propietario no puede dejar el equipo, solo eliminarlo' };
+    }
+
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', access.organizationId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error leaving organization:', error);
+      return { success: false, error: 'Error al dejar el equipo' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+// ============================================
+// ACCEPTING INVITES (/invite/<token>)
+// ============================================
+
+/**
+ * The pending invitation behind a link, or null if it doesn't exist, was
+ * used or expired. Read with the service role: the invitee isn't a member yet.
+ */
+export async function getInvitePreview(token: string): Promise<InvitePreview | null> {
+  try {
+    const supabase = createAdminSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('organization_invites')
+      .select('email, role, organizations!inner(name)')
+      .eq('token_hash', hashInviteToken(token))
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching invite:', error);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const organization = Array.isArray(data.organizations) ? data.organizations[0] : data.organizations;
+    return { organizationName: organization.name, email: data.email, role: data.role };
+  } catch (error) {
+    console.error('Unexpected error fetching invite:', error);
+    return null;
+  }
+}
+
+/**
+ * Joins the signed-in host to the invitation's team; the invite must have
+ * been sent to their email
+ */
+export async function acceptInvite(token: string): Promise<ApiResponse<void>> {
+  try {
+    await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('accept_organization_invite', {
+      p_token_hash: hashInviteToken(token),
+    });
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return { success: false, error: 'Ya pertenecés a un equipo. Dejalo para unirte a otro' };
+      }
+      console.error('Error accepting invite:', error);
+      return { success: false, error: 'Error al aceptar la invitación' };
+    }
+
+    if (!data) {
+      return { success: false, error: 'La invitación no es válida, venció o es para otro email' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Creates the account of someone invited who doesn't have one yet, with the
+ * invitation's email already confirmed (the link proves they own it). They
+ * sign in and accept the invite afterwards.
+ */
+export async function createInvitedAccount(
+  token: string,
+  input: { password: string; confirmPassword: string }
+): Promise<ApiResponse<{ email: string }>> {
+  try {
+    const invite = await getInvitePreview(token);
+    if (!invite) {
+      return { success: false, error: 'La invitación no es válida o venció' };
+    }
+
+    const validation = registerSchema.safeParse({ email: invite.email, ...input });
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const supabase = createAdminSupabaseClient();
+    const { error } = await supabase.auth.admin.createUser({
+      email: invite.email,
+      password: validation.data.password,
+      email_confirm: true,
+    });
+
+    if (error) {
+      if (error.code === 'email_exists') {
+        return { success: false, error: 'Ya existe una cuenta con ese email. Iniciá sesión para aceptar' };
+      }
+      console.error('Error creating invited account:', error);
+      return { success: false, error: 'Error al crear la cuenta' };
+    }
+
+    return { success: true, data: { email: invite.email } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
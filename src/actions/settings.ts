@@ -4,10 +4,39 @@
  */
 'use server';
 
+import { randomBytes } from 'crypto';
 import { revalidatePath } from 'next/cache';
-import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { createServerSupabaseClient, createAdminSupabaseClient } from '@/lib/supabase/server';
+import { getCalendarFeedUrl } from '@/lib/calendarFeed';
+import { syncExternalCalendar } from '@/lib/externalCalendars';
 import { requireAuth, getCurrentUser } from '@/utils/auth';
-import type { ApiResponse, AvailabilityRule, CalendarSettings, DaySchedule } from '@/types/database';
+import {
+  availabilityOverrideSchema,
+  calendarFeedOptionsSchema,
+  calendarSettingsSchema,
+  eventTypePoliciesSchema,
+  externalCalendarSchema,
+  weeklyScheduleSchema,
+} from '@/utils/validations';
+import type {
+  AvailabilityOverrideInput,
+  CalendarFeedOptionsInput,
+  EventTypePolicyInput,
+  ExternalCalendarInput,
+} from '@/utils/validations';
+import { rulesToSchedule, scheduleToRules } from '@/utils/availability';
+import type {
+  ApiResponse,
+  AvailabilityOverride,
+  AvailabilityRule,
+  CalendarFeed,
+  CalendarSettings,
+  DaySchedule,
+  EventTypePolicy,
+  ExternalCalendar,
+  PublicCalendarConfig,
+} from '@/types/database';
+import { DEFAULT_EVENT_TYPE_POLICIES } from '@/types/database';
 
 // Local constants (cannot be exported from 'use server' files)
 const DEFAULT_SETTINGS: Omit<CalendarSettings, 'id' | 'user_id'> = {
@@ -15,16 +44,19 @@ const DEFAULT_SETTINGS: Omit<CalendarSettings, 'id' | 'user_id'> = {
   buffer_time: 0,
   advance_booking_days: 60,
   min_notice_hours: 12,
+  timezone: 'America/Argentina/Buenos_Aires',
+  cancellation_cutoff_hours: 24,
+  reminder_offsets: [1440, 60],
 };
 
 const DEFAULT_SCHEDULE: DaySchedule[] = [
-  { day_of_week: 0, start_time: '09:00', end_time: '18:00', is_active: false },
-  { day_of_week: 1, start_time: '09:00', end_time: '18:00', is_active: true },
-  { day_of_week: 2, start_time: '09:00', end_time: '18:00', is_active: true },
-  { day_of_week: 3, start_time: '09:00', end_time: '18:00', is_active: true },
-  { day_of_week: 4, start_time: '09:00', end_time: '18:00', is_active: true },
-  { day_of_week: 5, start_time: '09:00', end_time: '18:00', is_active: true },
-  { day_of_week: 6, start_time: '09:00', end_time: '18:00', is_active: false },
+  { day_of_week: 0, is_active: false, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
+  { day_of_week: 1, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
+  { day_of_week: 2, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
+  { day_of_week: 3, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
+  { day_of_week: 4, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
+  { day_of_week: 5, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
+  { day_of_week: 6, is_active: false, intervals: [{ start_time: '09:00', end_time: '18:00' }] },
 ];
 
 // ============================================
@@ -89,16 +121,25 @@ export async function saveCalendarSettings(
     const user = await requireAuth();
     const supabase = await createServerSupabaseClient();
 
+    // Validate input
+    const validation = calendarSettingsSchema.safeParse(settings);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
     // Upsert settings
     const { error } = await supabase
       .from('calendar_settings')
       .upsert(
         {
           user_id: user.id,
-          slot_duration: settings.slot_duration,
-          buffer_time: settings.buffer_time,
-          advance_booking_days: settings.advance_booking_days,
-          min_notice_hours: settings.min_notice_hours,
+          slot_duration: validation.data.slot_duration,
+          buffer_time: validation.data.buffer_time,
+          advance_booking_days: validation.data.advance_booking_days,
+          min_notice_hours: validation.data.min_notice_hours,
+          timezone: validation.data.timezone,
+          cancellation_cutoff_hours: validation.data.cancellation_cutoff_hours,
+          reminder_offsets: validation.data.reminder_offsets,
         },
         { onConflict: 'user_id' }
       );
@@ -134,7 +175,8 @@ export async function getSchedule(): Promise<ApiResponse<DaySchedule[]>> {
       .from('availability_rules')
       .select('day_of_week, start_time, end_time, is_active')
       .eq('user_id', user.id)
-      .order('day_of_week');
+      .order('day_of_week')
+      .order('start_time');
 
     // If error or no data, return defaults
     if (error) {
@@ -147,19 +189,8 @@ export async function getSchedule(): Promise<ApiResponse<DaySchedule[]>> {
       return { success: true, data: DEFAULT_SCHEDULE };
     }
 
-    // Merge with defaults to ensure all days are present
-    const schedule = DEFAULT_SCHEDULE.map((defaultDay) => {
-      const existingRule = data.find((r) => r.day_of_week === defaultDay.day_of_week);
-      if (existingRule) {
-        return {
-          day_of_week: existingRule.day_of_week,
-          start_time: existingRule.start_time,
-          end_time: existingRule.end_time,
-          is_active: existingRule.is_active,
-        };
-      }
-      return defaultDay;
-    });
+    // Group windows per day, merging with defaults to ensure all days are present
+    const schedule = rulesToSchedule(data, DEFAULT_SCHEDULE);
 
     return { success: true, data: schedule };
   } catch (error) {
@@ -179,20 +210,20 @@ export async function saveSchedule(
     const user = await requireAuth();
     const supabase = await createServerSupabaseClient();
 
+    // Validate input (time format, overlapping windows)
+    const validation = weeklyScheduleSchema.safeParse(schedule);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
     // Delete existing rules
     await supabase
       .from('availability_rules')
       .delete()
       .eq('user_id', user.id);
 
-    // Insert new rules (only active days or all for tracking)
-    const rulesToInsert = schedule.map((day) => ({
-      user_id: user.id,
-      day_of_week: day.day_of_week,
-      start_time: day.start_time,
-      end_time: day.end_time,
-      is_active: day.is_active,
-    }));
+    // Insert new rules, one row per window (inactive days kept for tracking)
+    const rulesToInsert = scheduleToRules(validation.data, user.id);
 
     const { error } = await supabase
       .from('availability_rules')
@@ -213,38 +244,506 @@ export async function saveSchedule(
   }
 }
 
+// ============================================
+// DATE OVERRIDES (vacations, holidays, custom hours)
+// ============================================
+
+export async function getAvailabilityOverrides(): Promise<ApiResponse<AvailabilityOverride[]>> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'No autenticado' };
+    }
+    const supabase = await createServerSupabaseClient();
+
+    // Only overrides that still affect today or later
+    const today = new Date().toISOString().slice(0, 10);
+
+    const { data, error } = await supabase
+      .from('availability_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('end_date', today)
+      .order('start_date');
+
+    if (error) {
+      console.error('Error fetching overrides:', error);
+      return { success: false, error: 'Error al obtener las excepciones' };
+    }
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function saveAvailabilityOverride(
+  input: AvailabilityOverrideInput & { id?: string }
+): Promise<ApiResponse<{ id: string }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // Validate input
+    const validation = availabilityOverrideSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const row = {
+      user_id: user.id,
+      start_date: validation.data.start_date,
+      end_date: validation.data.end_date,
+      is_closed: validation.data.is_closed,
+      // Closed overrides don't keep stale hours around
+      intervals: validation.data.is_closed ? [] : validation.data.intervals,
+      reason: validation.data.reason || null,
+    };
+
+    const query = input.id
+      ? supabase
+          .from('availability_overrides')
+          .update(row)
+          .eq('id', input.id)
+          .eq('user_id', user.id)
+      : supabase.from('availability_overrides').insert(row);
+
+    const { data, error } = await query.select('id').single();
+
+    if (error) {
+      console.error('Error saving override:', error);
+      return { success: false, error: 'Error al guardar la excepción' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true, data: { id: data.id } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function deleteAvailabilityOverride(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('availability_overrides')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting override:', error);
+      return { success: false, error: 'Error al eliminar la excepción' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+// ============================================
+// EVENT TYPE POLICIES (what occupies the host's time)
+// ============================================
+
+export async function getEventTypePolicies(): Promise<ApiResponse<EventTypePolicy[]>> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'No autenticado' };
+    }
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('event_type_policies')
+      .select('event_type, overlap_policy')
+      .eq('user_id', user.id);
+
+    // If table doesn't exist yet, every type keeps its default
+    if (error) {
+      console.error('Error fetching event type policies:', error);
+      return { success: true, data: DEFAULT_EVENT_TYPE_POLICIES };
+    }
+
+    return {
+      success: true,
+      data: DEFAULT_EVENT_TYPE_POLICIES.map(
+        (policy) => data?.find((p) => p.event_type === policy.event_type) || policy
+      ),
+    };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function saveEventTypePolicies(
+  policies: EventTypePolicyInput[]
+): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // Validate input
+    const validation = eventTypePoliciesSchema.safeParse(policies);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    // The table trigger re-applies each policy to the host's existing events
+    const { error } = await supabase
+      .from('event_type_policies')
+      .upsert(
+        validation.data.map((policy) => ({ ...policy, user_id: user.id })),
+        { onConflict: 'user_id,event_type' }
+      );
+
+    if (error) {
+      console.error('Error saving event type policies:', error);
+      // Switching a type to "blocks" fails if the host already has overlapping events of it
+      if (error.code === '23P01') {
+        return {
+          success: false,
+          error: 'Hay eventos de ese tipo que se solapan; resolvelos antes de hacer que bloqueen horario',
+        };
+      }
+      return { success: false, error: 'Error al guardar las políticas' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+// ============================================
+// CALENDAR FEED (private iCalendar subscription)
+// ============================================
+
+const toCalendarFeed = (row: { token: string; include_private: boolean; include_attendees: boolean }): CalendarFeed => {
+  const url = getCalendarFeedUrl(row.token);
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    include_private: row.include_private,
+    include_attendees: row.include_attendees,
+  };
+};
+
+/**
+ * The host's feed, or null if they haven't turned it on
+ */
+export async function getCalendarFeed(): Promise<ApiResponse<CalendarFeed | null>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('token, include_private, include_attendees')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching calendar feed:', error);
+      return { success: false, error: 'Error al obtener el calendario suscribible' };
+    }
+
+    return { success: true, data: data ? toCalendarFeed(data) : null };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Turns the feed on, or gives it a new URL so the old one stops working
+ */
+export async function rotateCalendarFeedToken(): Promise<ApiResponse<CalendarFeed>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .upsert(
+        { user_id: user.id, token: randomBytes(24).toString('base64url') },
+        { onConflict: 'user_id' }
+      )
+      .select('token, include_private, include_attendees')
+      .single();
+
+    if (error || !data) {
+      console.error('Error rotating calendar feed token:', error);
+      return { success: false, error: 'Error al generar el enlace del calendario' };
+    }
+
+    return { success: true, data: toCalendarFeed(data) };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function saveCalendarFeedOptions(
+  options: CalendarFeedOptionsInput
+): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = calendarFeedOptionsSchema.safeParse(options);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .update(validation.data)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving calendar feed options:', error);
+      return { success: false, error: 'Error al guardar las opciones del calendario' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function deleteCalendarFeed(): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting calendar feed:', error);
+      return { success: false, error: 'Error al desactivar el calendario' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+// ============================================
+// EXTERNAL CALENDARS (other calendars imported as busy time)
+// ============================================
+
+export async function getExternalCalendars(): Promise<ApiResponse<ExternalCalendar[]>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('external_calendars')
+      .select('id, name, source_type, url, last_synced_at, last_error, external_busy(count)')
+      .eq('user_id', user.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching external calendars:', error);
+      return { success: false, error: 'Error al obtener los calendarios externos' };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map(({ external_busy, ...calendar }) => ({
+        ...calendar,
+        busy_count: external_busy?.[0]?.count ?? 0,
+      })),
+    };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Registers a calendar and imports it right away. A calendar that can't be
+ * read is kept (with its error) so the host can fix it or retry.
+ */
+export async function addExternalCalendar(
+  input: ExternalCalendarInput
+): Promise<ApiResponse<{ id: string }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = externalCalendarSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const row = {
+      user_id: user.id,
+      name: validation.data.name,
+      source_type: validation.data.source_type,
+      url: validation.data.source_type === 'url' ? validation.data.url : null,
+      ics_content: validation.data.source_type === 'file' ? validation.data.ics_content : null,
+    };
+
+    const { data, error } = await supabase
+      .from('external_calendars')
+      .insert(row)
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      console.error('Error saving external calendar:', error);
+      return { success: false, error: 'Error al guardar el calendario externo' };
+    }
+
+    await syncExternalCalendar({ id: data.id, ...row });
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true, data: { id: data.id } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function refreshExternalCalendar(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data: calendar, error } = await supabase
+      .from('external_calendars')
+      .select('id, user_id, source_type, url, ics_content')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error || !calendar) {
+      console.error('Error fetching external calendar:', error);
+      return { success: false, error: 'Calendario no encontrado' };
+    }
+
+    const result = await syncExternalCalendar(calendar);
+    if (!result.success) {
+      return { success: false, error: result.error || 'Error al actualizar el calendario' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function deleteExternalCalendar(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // Its busy intervals go with it (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('external_calendars')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting external calendar:', error);
+      return { success: false, error: 'Error al eliminar el calendario externo' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/appointment');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
 // ============================================
 // GET FULL CONFIG (for public use)
 // ============================================
 
-export async function getPublicCalendarConfig(): Promise<{
-  slotDuration: number;
-  bufferTime: number;
-  advanceBookingDays: number;
-  minNoticeHours: number;
-  schedule: DaySchedule[];
-}> {
-  const supabase = await createServerSupabaseClient();
+/**
+ * Booking configuration of a host (the /<username> pages); without hostId,
+ * of the first admin who saved calendar settings (the /appointment page)
+ */
+export async function getPublicCalendarConfig(hostId?: string | null): Promise<PublicCalendarConfig> {
+  // availability_rules are not readable by anonymous visitors through RLS,
+  // so the public booking pipeline reads them with the admin client (and
+  // gets no rules, not the visitor's view of them, without its key)
+  const supabase = createAdminSupabaseClient();
 
   // Get settings (public read)
-  const { data: settings } = await supabase
+  let settingsQuery = supabase
     .from('calendar_settings')
-    .select('*')
-    .limit(1)
-    .maybeSingle();
+    .select('*');
+
+  settingsQuery = hostId
+    ? settingsQuery.eq('user_id', hostId)
+    : settingsQuery.order('created_at', { ascending: true }).limit(1);
+
+  const { data: settings } = await settingsQuery.maybeSingle();
+
+  // The host is whoever owns the settings; their rules are the only ones that apply
+  const configHostId: string | null = hostId || settings?.user_id || null;
 
-  // Get active availability rules
-  const { data: rules } = await supabase
-    .from('availability_rules')
-    .select('day_of_week, start_time, end_time, is_active')
-    .eq('is_active', true)
-    .order('day_of_week');
+  // Get active availability rules; with no host there's nobody to book
+  const { data: rules } = configHostId
+    ? await supabase
+        .from('availability_rules')
+        .select('day_of_week, start_time, end_time, is_active')
+        .eq('is_active', true)
+        .eq('user_id', configHostId)
+        .order('day_of_week')
+        .order('start_time')
+    : { data: null };
 
   return {
+    hostId: configHostId,
     slotDuration: settings?.slot_duration ?? DEFAULT_SETTINGS.slot_duration,
     bufferTime: settings?.buffer_time ?? DEFAULT_SETTINGS.buffer_time,
     advanceBookingDays: settings?.advance_booking_days ?? DEFAULT_SETTINGS.advance_booking_days,
     minNoticeHours: settings?.min_notice_hours ?? DEFAULT_SETTINGS.min_notice_hours,
-    schedule: rules?.length ? rules : DEFAULT_SCHEDULE.filter((d) => d.is_active),
+    timezone: settings?.timezone ?? DEFAULT_SETTINGS.timezone,
+    cancellationCutoffHours: settings?.cancellation_cutoff_hours ?? DEFAULT_SETTINGS.cancellation_cutoff_hours,
+    bufferBefore: 0,
+    bufferAfter: 0,
+    schedule: rules?.length
+      ? rulesToSchedule(
+          rules,
+          // Days without rows are closed once the host has saved a schedule
+          DEFAULT_SCHEDULE.map((d) => ({ ...d, is_active: false }))
+        ).filter((d) => d.is_active)
+      : DEFAULT_SCHEDULE.filter((d) => d.is_active),
   };
 }
@@ -4,129 +4,305 @@
  */
 'use server';
 
-import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { addDays, addMinutes, format, startOfDay, subMinutes } from 'date-fns';
+import { createServerSupabaseClient, createAdminSupabaseClient } from '@/lib/supabase/server';
+import { getMeetingTypeConfig } from '@/actions/meetingTypes';
+import { getPublicCalendarConfig } from '@/actions/settings';
 import {
-  generateTimeSlots,
   isSlotAvailable,
-  getDateRange,
-  getDayOfWeek,
-  fromUTC,
+  getZonedDateRange,
+  getBookingWindow,
+  toZonedDate,
 } from '@/utils/dateHelpers';
-import type { TimeSlot, AvailabilityRule } from '@/types/database';
+import { buildDaySlots, getSlotPolicyError } from '@/utils/availability';
+import { expandOccurrences } from '@/utils/recurrence';
+import type {
+  TimeSlot,
+  BookingAvailability,
+  BookingErrorCode,
+  PublicCalendarConfig,
+} from '@/types/database';
 
 interface GetAvailableSlotsParams {
+  hostId?: string; // defaults to the first admin with calendar settings (see getPublicCalendarConfig)
+  meetingTypeId?: string; // its duration, buffers and notice apply
   startDate: Date;
-  days?: number;
-  slotDuration?: number;
-  bufferTime?: number;
+  days?: number; // at most the booking window; the booking policy always comes from the host's config
 }
 
-// Default availability: Monday to Friday, 9 AM to 6 PM
-const DEFAULT_AVAILABILITY_RULES: AvailabilityRule[] = [
-  { id: '1', user_id: 'default', day_of_week: 1, start_time: '09:00', end_time: '18:00', is_active: true, created_at: new Date().toISOString() },
-  { id: '2', user_id: 'default', day_of_week: 2, start_time: '09:00', end_time: '18:00', is_active: true, created_at: new Date().toISOString() },
-  { id: '3', user_id: 'default', day_of_week: 3, start_time: '09:00', end_time: '18:00', is_active: true, created_at: new Date().toISOString() },
-  { id: '4', user_id: 'default', day_of_week: 4, start_time: '09:00', end_time: '18:00', is_active: true, created_at: new Date().toISOString() },
-  { id: '5', user_id: 'default', day_of_week: 5, start_time: '09:00', end_time: '18:00', is_active: true, created_at: new Date().toISOString() },
-];
+/**
+ * Date overrides of the host touching a host-local date range ('yyyy-MM-dd', inclusive)
+ */
+async function fetchOverrides(hostId: string, firstDayKey: string, lastDayKey: string) {
+  const supabase = await createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from('availability_overrides')
+    .select('start_date, end_date, is_closed, intervals, created_at')
+    .eq('user_id', hostId)
+    .lte('start_date', lastDayKey)
+    .gte('end_date', firstDayKey);
 
-export async function getAvailableSlots(
+  if (error) {
+    console.error('Error fetching availability overrides:', error);
+  }
+  return data || [];
+}
+
+/**
+ * Time ranges the host is busy: their events whose type occupies time
+ * (blocking or overlappable), private ones included, with recurring series
+ * expanded in the host's zone, plus busy time imported from their external
+ * calendars. Informational events and other hosts' calendars never hide
+ * slots; neither do cancelled bookings, whose event becomes informational
+ * (see booking_status.sql).
+ */
+async function fetchBusyRanges(
+  hostId: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string,
+  ignoreEventId?: string
+) {
+  // Private events are not readable by visitors through RLS: without the
+  // service role key the queries fail rather than show their time as free
+  const supabase = createAdminSupabaseClient();
+
+  // One-off events (and edited occurrences) overlapping the range
+  let singlesQuery = supabase
+    .from('events')
+    .select('start_time, end_time, rrule, exdates')
+    .eq('created_by', hostId)
+    .is('rrule', null)
+    .lt('start_time', rangeEnd.toISOString())
+    .gt('end_time', rangeStart.toISOString())
+    .in('overlap_policy', ['blocks', 'allows_overlap']);
+
+  // Series that started before the range ends and haven't finished
+  const seriesQuery = supabase
+    .from('events')
+    .select('start_time, end_time, rrule, exdates')
+    .eq('created_by', hostId)
+    .not('rrule', 'is', null)
+    .lt('start_time', rangeEnd.toISOString())
+    .or(`recurrence_end.is.null,recurrence_end.gt.${rangeStart.toISOString()}`)
+    .in('overlap_policy', ['blocks', 'allows_overlap']);
+
+  // Imported busy intervals (already expanded by the sync, see lib/externalCalendars)
+  const externalQuery = supabase
+    .from('external_busy')
+    .select('start_time, end_time')
+    .eq('user_id', hostId)
+    .lt('start_time', rangeEnd.toISOString())
+    .gt('end_time', rangeStart.toISOString());
+
+  // A booking being rescheduled doesn't block its own new slot
+  if (ignoreEventId) {
+    singlesQuery = singlesQuery.neq('id', ignoreEventId);
+  }
+
+  const [singles, series, external] = await Promise.all([singlesQuery, seriesQuery, externalQuery]);
+
+  if (singles.error || series.error) {
+    console.error('Error fetching events:', singles.error || series.error);
+    return null;
+  }
+
+  // Without external_calendars.sql the host's own events still count
+  if (external.error) {
+    console.error('Error fetching external busy time:', external.error);
+  }
+
+  return [
+    ...[...(singles.data || []), ...(series.data || [])].flatMap((event) =>
+      expandOccurrences(event, rangeStart, rangeEnd, timeZone)
+    ),
+    ...(external.data || []).map((busy) => ({ start: new Date(busy.start_time), end: new Date(busy.end_time) })),
+  ];
+}
+
+/**
+ * Slot engine: expands the host's schedule and date overrides into slots
+ * and marks the ones taken by existing events. Only slots inside the
+ * booking window (min notice / advance days) are returned.
+ */
+async function computeSlots(
+  config: PublicCalendarConfig,
   params: GetAvailableSlotsParams
 ): Promise<TimeSlot[]> {
-  try {
-    const supabase = await createServerSupabaseClient();
-    const { startDate, days = 60, slotDuration = 30, bufferTime = 0 } = params;
-
-    // Get all public events in the date range (these are BOOKED slots)
-    const dateRange = getDateRange(startDate, days);
-    const endDate = dateRange[dateRange.length - 1];
-
-    const { data: events, error: eventsError } = await supabase
-      .from('events')
-      .select('id, start_time, end_time, is_public')
-      .gte('start_time', startDate.toISOString())
-      .lte('end_time', endDate.toISOString())
-      .eq('is_public', true);
-
-    if (eventsError) {
-      console.error('Error fetching events:', eventsError);
-      return [];
-    }
+  // No host, nobody to book
+  const { hostId } = config;
+  if (!hostId) {
+    return [];
+  }
 
-    // Get availability rules
-    let rules: AvailabilityRule[] | null = null;
-    const { data: rulesData, error: rulesError } = await supabase
-      .from('availability_rules')
-      .select('*')
-      .eq('is_active', true);
-
-    if (!rulesError && rulesData && rulesData.length > 0) {
-      rules = rulesData;
-    } else {
-      // Use default availability rules if none are set in the database
-      rules = DEFAULT_AVAILABILITY_RULES;
-    }
+  const { slotDuration, bufferTime, minNoticeHours, advanceBookingDays } = config;
+  const { startDate } = params;
+  // Partial first day + full advance window; slots past it are never returned anyway
+  const days = Math.min(params.days ?? advanceBookingDays + 1, advanceBookingDays + 1);
 
-    // Generate slots for each day
-    const allSlots: TimeSlot[] = [];
-
-    for (const date of dateRange) {
-      const dayOfWeek = getDayOfWeek(date);
-      
-      // Find availability rule for this day
-      const dayRule = rules?.find((r) => r.day_of_week === dayOfWeek);
-      
-      if (!dayRule) {
-        continue; // No availability for this day (weekend, etc)
-      }
+  // Availability rules are wall-clock times in the host's zone, not the server's
+  const timeZone = config.timezone;
+  const window = getBookingWindow(minNoticeHours, advanceBookingDays);
 
-      // Generate time slots for this day
-      const daySlots = generateTimeSlots(date, {
-        startTime: dayRule.start_time,
-        endTime: dayRule.end_time,
-        slotDuration,
-        bufferTime,
-      });
+  // Host-local calendar days covered by the request
+  const dateRange = getZonedDateRange(startDate, days, timeZone);
+  const rangeStart = dateRange[0];
+  const rangeEnd = addDays(dateRange[dateRange.length - 1], 1);
+
+  // Events taking the host's time in the range (these are BOOKED slots),
+  // including the meeting type's buffers around it
+  const bookedSlots = await fetchBusyRanges(
+    hostId,
+    subMinutes(rangeStart, config.bufferBefore),
+    addMinutes(rangeEnd, config.bufferAfter),
+    timeZone
+  );
+  if (!bookedSlots) {
+    return [];
+  }
 
-      // Convert booked events to date objects for this day
-      const bookedSlots = (events || [])
-        ?.filter((event) => {
-          const eventStart = fromUTC(event.start_time);
-          return eventStart.toDateString() === date.toDateString();
-        })
-        .map((event) => ({
-          start: fromUTC(event.start_time),
-          end: fromUTC(event.end_time),
-        })) || [];
-
-      // Check availability for each slot
-      for (const slot of daySlots) {
-        const available = isSlotAvailable(slot.start, slot.end, bookedSlots);
-        
-        allSlots.push({
-          start: slot.start,
-          end: slot.end,
-          available,
-        });
+  // Date-specific overrides (closed days, custom hours) touching the range
+  const overrides = await fetchOverrides(
+    hostId,
+    format(rangeStart, 'yyyy-MM-dd'),
+    format(dateRange[dateRange.length - 1], 'yyyy-MM-dd')
+  );
+
+  // Generate slots for each day
+  const allSlots: TimeSlot[] = [];
+
+  for (const date of dateRange) {
+    // All windows for this day (weekly schedule or a date override),
+    // merged so overlapping windows don't duplicate slots
+    const daySlots = buildDaySlots(
+      date,
+      { schedule: config.schedule, slotDuration, bufferTime, timezone: timeZone },
+      overrides
+    );
+
+    // Check availability for each slot inside the booking window
+    for (const slot of daySlots) {
+      if (slot.start < window.minDate || slot.start > window.maxDate) {
+        continue;
       }
+
+      const available = isSlotAvailable(
+        subMinutes(slot.start, config.bufferBefore),
+        addMinutes(slot.end, config.bufferAfter),
+        bookedSlots
+      );
+
+      allSlots.push({
+        start: slot.start,
+        end: slot.end,
+        available,
+      });
     }
+  }
+
+  return allSlots;
+}
 
-    return allSlots;
+export async function getAvailableSlots(
+  params: GetAvailableSlotsParams
+): Promise<TimeSlot[]> {
+  try {
+    const config = await getMeetingTypeConfig(params.meetingTypeId, params.hostId);
+    if (!config) {
+      return [];
+    }
+    return await computeSlots(config, params);
   } catch (error) {
     console.error('Unexpected error getting available slots:', error);
     return [];
   }
 }
 
-export async function getAvailableSlotsForDay(
-  date: Date,
-  slotDuration = 30,
-  bufferTime = 0
-): Promise<TimeSlot[]> {
+export async function getAvailableSlotsForDay(date: Date): Promise<TimeSlot[]> {
   return getAvailableSlots({
     startDate: date,
     days: 1,
-    slotDuration,
-    bufferTime,
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Everything the public booking page needs, derived from the host's
+ * calendar_settings and the meeting type, if any: the bookable slots and
+ * the window they live in. Without hostId, for the /appointment host.
+ */
+export async function getBookingAvailability(
+  meetingTypeId?: string | null,
+  hostId?: string | null
+): Promise<BookingAvailability> {
+  // Inactive types too: rescheduling a booking of one keeps its rules
+  const config =
+    (await getMeetingTypeConfig(meetingTypeId, hostId, { includeInactive: true })) ??
+    (await getPublicCalendarConfig(hostId));
+
+  const window = getBookingWindow(config.minNoticeHours, config.advanceBookingDays);
+
+  let slots: TimeSlot[] = [];
+  try {
+    slots = await computeSlots(config, { startDate: new Date() });
+  } catch (error) {
+    console.error('Unexpected error getting available slots:', error);
+  }
+
+  return {
+    slots,
+    window,
+    slotDuration: config.slotDuration,
+    timezone: config.timezone,
+  };
+}
+
+/**
+ * Re-checks a requested slot against the same rules that produced the slot
+ * list: booking window, min notice, slot duration, the schedule/overrides
+ * for that host-local day (the start must be one of the generated slots)
+ * and the host's busy time plus the meeting type's buffers (ignoring
+ * `ignoreEventId`, the event of a booking being rescheduled). Returns null
+ * when the slot is valid.
+ */
+export async function checkSlotBookable(
+  config: PublicCalendarConfig,
+  slotStart: Date,
+  slotEnd: Date,
+  ignoreEventId?: string
+): Promise<BookingErrorCode | null> {
+  const { hostId } = config;
+  if (!hostId) {
+    return 'OUTSIDE_AVAILABILITY';
+  }
+
+  const policyError = getSlotPolicyError({ start: slotStart, end: slotEnd }, config);
+  if (policyError) {
+    return policyError;
+  }
+
+  const day = startOfDay(toZonedDate(slotStart, config.timezone));
+  const dayKey = format(day, 'yyyy-MM-dd');
+  const overrides = await fetchOverrides(hostId, dayKey, dayKey);
+
+  const matchesSlot = buildDaySlots(day, config, overrides).some(
+    (slot) =>
+      slot.start.getTime() === slotStart.getTime() &&
+      slot.end.getTime() === slotEnd.getTime()
+  );
+
+  if (!matchesSlot) {
+    return 'OUTSIDE_AVAILABILITY';
+  }
+
+  // Blocking events are also enforced atomically by the database when the
+  // booking is inserted; this catches the ones that merely allow overlap
+  // and the meeting type's buffers
+  const busyStart = subMinutes(slotStart, config.bufferBefore);
+  const busyEnd = addMinutes(slotEnd, config.bufferAfter);
+  const busy = await fetchBusyRanges(hostId, busyStart, busyEnd, config.timezone, ignoreEventId);
+  if (!busy) {
+    return 'SERVER_ERROR';
+  }
+
+  return isSlotAvailable(busyStart, busyEnd, busy) ? null : 'SLOT_TAKEN';
+}
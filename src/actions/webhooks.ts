@@ -0,0 +1,221 @@
+/**
+ * Server Actions for Webhooks
+ * Manage the host's webhook endpoints and look at their delivery log
+ */
+'use server';
+
+import { randomBytes } from 'crypto';
+import { revalidatePath } from 'next/cache';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { sendTestWebhook } from '@/lib/webhooks';
+import { requireAuth } from '@/utils/auth';
+import { updateWebhookSchema, webhookSchema } from '@/utils/validations';
+import type { UpdateWebhookInput, WebhookInput } from '@/utils/validations';
+import type { ApiResponse, Webhook, WebhookDelivery } from '@/types/database';
+
+// Deliveries shown per webhook in the admin panel
+const DELIVERY_LOG_SIZE = 20;
+
+const generateSecret = (): string => `whsec_${randomBytes(24).toString('base64url')}`;
+
+export async function getWebhooks(): Promise<ApiResponse<Webhook[]>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return { success: false, error: 'Error al obtener los webhooks' };
+    }
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function createWebhook(input: WebhookInput): Promise<ApiResponse<Webhook>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = webhookSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const { data, error } = await supabase
+      .from('webhooks')
+      .insert({ ...validation.data, user_id: user.id, secret: generateSecret() })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating webhook:', error);
+      return { success: false, error: 'Error al crear el webhook' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function updateWebhook(input: UpdateWebhookInput): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const validation = updateWebhookSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0].message };
+    }
+
+    const { id, ...fields } = validation.data;
+    const { error } = await supabase
+      .from('webhooks')
+      .update(fields)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error updating webhook:', error);
+      return { success: false, error: 'Error al actualizar el webhook' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * New signing secret; the endpoint must be updated to verify with it
+ */
+export async function rotateWebhookSecret(id: string): Promise<ApiResponse<{ secret: string }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('webhooks')
+      .update({ secret: generateSecret() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('secret')
+      .single();
+
+    if (error || !data) {
+      console.error('Error rotating webhook secret:', error);
+      return { success: false, error: 'Error al regenerar el secreto' };
+    }
+
+    return { success: true, data: { secret: data.secret } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+export async function deleteWebhook(id: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // Its delivery log goes with it (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('webhooks')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      return { success: false, error: 'Error al eliminar el webhook' };
+    }
+
+    revalidatePath('/admin');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Latest deliveries of a webhook, newest first
+ */
+export async function getWebhookDeliveries(webhookId: string): Promise<ApiResponse<WebhookDelivery[]>> {
+  try {
+    await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    // RLS limits the log to the owner's webhooks
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_SIZE);
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return { success: false, error: 'Error al obtener los envíos' };
+    }
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
+
+/**
+ * Sends a 'webhook.test' delivery now and reports how the endpoint answered
+ */
+export async function sendWebhookTest(id: string): Promise<ApiResponse<{ statusCode: number | null }>> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServerSupabaseClient();
+
+    const { data: webhook, error } = await supabase
+      .from('webhooks')
+      .select('id, url, secret')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error || !webhook) {
+      console.error('Error fetching webhook:', error);
+      return { success: false, error: 'Webhook no encontrado' };
+    }
+
+    const result = await sendTestWebhook(webhook);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `El endpoint no aceptó la prueba: ${result.error}`,
+        data: { statusCode: result.statusCode },
+      };
+    }
+
+    return { success: true, data: { statusCode: result.statusCode } };
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return { success: false, error: 'Error inesperado' };
+  }
+}
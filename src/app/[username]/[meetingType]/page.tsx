@@ -0,0 +1,27 @@
+/**
+ * Host meeting type booking page
+ * Calendar for one of a host's meeting types (/<username>/<slug>)
+ */
+import { notFound } from 'next/navigation';
+import { getPublicHostProfile } from '@/actions/hostProfiles';
+import { getPublicMeetingType } from '@/actions/meetingTypes';
+import BookingPage from '@/components/BookingPage';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function HostMeetingTypePage({
+  params,
+}: {
+  params: Promise<{ username: string; meetingType: string }>;
+}) {
+  const { username, meetingType: slug } = await params;
+  const host = await getPublicHostProfile(username);
+  const meetingType = host ? await getPublicMeetingType(slug, host.user_id) : null;
+
+  if (!host || !meetingType) {
+    notFound();
+  }
+
+  return <BookingPage host={host} meetingType={meetingType} />;
+}
@@ -0,0 +1,30 @@
+/**
+ * Host booking page
+ * Public URL of a host (/<username>): their meeting types or, with none,
+ * their calendar. Everything on it is scoped to that host.
+ */
+import { notFound } from 'next/navigation';
+import { getPublicHostProfile } from '@/actions/hostProfiles';
+import { getPublicMeetingTypes } from '@/actions/meetingTypes';
+import BookingPage from '@/components/BookingPage';
+import MeetingTypeList from '@/components/MeetingTypeList';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function HostPage({ params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+  const host = await getPublicHostProfile(username);
+
+  if (!host) {
+    notFound();
+  }
+
+  const meetingTypes = await getPublicMeetingTypes(host.user_id);
+
+  if (meetingTypes.length === 0) {
+    return <BookingPage host={host} />;
+  }
+
+  return <MeetingTypeList meetingTypes={meetingTypes} basePath={`/${host.username}`} host={host} />;
+}
@@ -4,15 +4,42 @@
  */
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { createEvent, updateEvent, deleteEvent, getUpcomingEvents } from '@/actions/events';
-import type { EventWithBooking } from '@/types/database';
+import {
+  deleteEvent,
+  deleteEventOccurrence,
+  getUpcomingEvents,
+} from '@/actions/events';
+import { getHostProfile } from '@/actions/hostProfiles';
+import { getTeam } from '@/actions/organizations';
+import type { BookingStatus, CalendarScope, EventWithBooking, TeamOverview } from '@/types/database';
+import { TEAM_MANAGE_ROLES, TEAM_VIEW_ROLES } from '@/types/database';
+import HostProfilePanel from '@/components/HostProfilePanel';
+import TeamPanel from '@/components/TeamPanel';
 import CalendarSettingsPanel from '@/components/CalendarSettingsPanel';
+import MeetingTypesPanel from '@/components/MeetingTypesPanel';
+import AvailabilityOverridesPanel from '@/components/AvailabilityOverridesPanel';
+import EventTypePoliciesPanel from '@/components/EventTypePoliciesPanel';
+import CalendarFeedPanel from '@/components/CalendarFeedPanel';
+import ExternalCalendarsPanel from '@/components/ExternalCalendarsPanel';
+import WebhooksPanel from '@/components/WebhooksPanel';
+import ApiKeysPanel from '@/components/ApiKeysPanel';
+import EventForm from '@/components/EventForm';
+import EventTimeline from '@/components/EventTimeline';
+import BookingsManager from '@/components/BookingsManager';
 import toast from 'react-hot-toast';
 
-type Tab = 'events' | 'settings';
+type Tab = 'events' | 'bookings' | 'settings';
+type EventsView = 'list' | 'timeline';
+
+const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  confirmed: 'Confirmada',
+  cancelled: 'Cancelada',
+  completed: 'Completada',
+  no_show: 'No asistió',
+};
 
 export default function AdminDashboard() {
   const { user, signOut } = useAuth();
@@ -20,16 +47,27 @@ export default function AdminDashboard() {
   const [events, setEvents] = useState<EventWithBooking[]>([]);
   const [loading, setLoading] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<EventWithBooking | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('events');
+  const [eventsView, setEventsView] = useState<EventsView>('list');
+  const [timelineRefreshKey, setTimelineRefreshKey] = useState(0);
+  const [team, setTeam] = useState<TeamOverview | null>(null);
+  const [scope, setScope] = useState<CalendarScope>('own');
 
-  useEffect(() => {
-    loadEvents();
-  }, []);
+  // Staff only ever see their own calendar
+  const canViewTeam = !!team && TEAM_VIEW_ROLES.includes(team.role);
+  const calendarScope: CalendarScope = canViewTeam ? scope : 'own';
+  const canManageTeam = !!team && TEAM_MANAGE_ROLES.includes(team.role);
 
-  const loadEvents = async () => {
+  const hostNames = useMemo(
+    () => Object.fromEntries((team?.members ?? []).map((m) => [m.user_id, m.display_name ?? m.email])),
+    [team]
+  );
+
+  const loadEvents = useCallback(async () => {
     setLoading(true);
     try {
-      const result = await getUpcomingEvents();
+      const result = await getUpcomingEvents(calendarScope);
       if (result.success && result.data) {
         setEvents(result.data);
       } else {
@@ -40,6 +78,35 @@ export default function AdminDashboard() {
     } finally {
       setLoading(false);
     }
+  }, [calendarScope]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    try {
+      const result = await getTeam();
+      if (result.success) {
+        setTeam(result.data ?? null);
+      }
+    } catch (error) {
+      console.error('Load team error:', error);
+    }
+  };
+
+  const isOwnEvent = (event: EventWithBooking) => event.created_by === user?.id;
+  // Teammates' events are read-only, except for team owners and admins
+  const canEditEvent = (event: EventWithBooking) => isOwnEvent(event) || canManageTeam;
+
+  // The admin's own booking page once they have a username
+  const handleViewAsVisitor = async () => {
+    const result = await getHostProfile();
+    router.push(result.success && result.data ? `/${result.data.username}` : '/appointment');
   };
 
   const handleSignOut = async () => {
@@ -48,21 +115,33 @@ export default function AdminDashboard() {
     router.refresh();
   };
 
-  const handleCreateEvent = async (data: any) => {
-    const result = await createEvent(data);
-    if (result.success) {
-      toast.success('Evento creado exitosamente');
-      setShowCreateForm(false);
-      loadEvents();
+  const closeEventForm = () => {
+    setShowCreateForm(false);
+    setEditingEvent(null);
+  };
+
+  const handleEventSaved = () => {
+    closeEventForm();
+    loadEvents();
+    setTimelineRefreshKey((key) => key + 1);
+  };
+
+  const handleDeleteEvent = async (event: EventWithBooking) => {
+    let result;
+    if (event.occurrence_start) {
+      // Occurrence of a recurring series: remove just it, or the whole series
+      if (confirm('¿Eliminar solo esta ocurrencia del evento recurrente?')) {
+        result = await deleteEventOccurrence(event.id, event.occurrence_start);
+      } else if (confirm('¿Eliminar toda la serie de eventos?')) {
+        result = await deleteEvent(event.id);
+      } else {
+        return;
+      }
     } else {
-      toast.error(result.error || 'Error al crear el evento');
+      if (!confirm('¿Estás seguro de eliminar este evento?')) return;
+      result = await deleteEvent(event.id);
     }
-  };
 
-  const handleDeleteEvent = async (eventId: string) => {
-    if (!confirm('¿Estás seguro de eliminar este evento?')) return;
-    
-    const result = await deleteEvent(eventId);
     if (result.success) {
       toast.success('Evento eliminado');
       loadEvents();
@@ -109,7 +188,7 @@ export default function AdminDashboard() {
             </div>
             <div className="flex gap-3">
               <button
-                onClick={() => router.push('/appointment')}
+                onClick={handleViewAsVisitor}
                 className="px-4 py-2.5 text-sm font-medium text-slate-700 bg-white/50 backdrop-blur-md border border-white/50 rounded-xl hover:bg-white/70 hover:border-blue-300/50 transition-all duration-300 active:scale-95"
               >
                 Ver como visitante
@@ -144,6 +223,21 @@ export default function AdminDashboard() {
               Eventos
             </span>
           </button>
+          <button
+            onClick={() => setActiveTab('bookings')}
+            className={`px-6 py-2.5 text-sm font-medium rounded-xl transition-all duration-300 ${
+              activeTab === 'bookings'
+                ? 'bg-white/60 backdrop-blur-md text-blue-600 border border-white/50 shadow-lg shadow-blue-400/10'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            <span className="flex items-center gap-2">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              Reservas
+            </span>
+          </button>
           <button
             onClick={() => setActiveTab('settings')}
             className={`px-6 py-2.5 text-sm font-medium rounded-xl transition-all duration-300 ${
@@ -163,8 +257,27 @@ export default function AdminDashboard() {
         </div>
 
         {/* Tab Content */}
-        {activeTab === 'settings' ? (
-          <CalendarSettingsPanel />
+        {activeTab === 'bookings' ? (
+          <BookingsManager
+            key={calendarScope}
+            scope={calendarScope}
+            userId={user?.id}
+            hostNames={hostNames}
+            canManageTeam={canManageTeam}
+          />
+        ) : activeTab === 'settings' ? (
+          <div className="space-y-6">
+            <HostProfilePanel />
+            <TeamPanel onTeamChanged={loadTeam} />
+            <CalendarSettingsPanel />
+            <MeetingTypesPanel />
+            <AvailabilityOverridesPanel />
+            <EventTypePoliciesPanel />
+            <ExternalCalendarsPanel />
+            <CalendarFeedPanel />
+            <WebhooksPanel />
+            <ApiKeysPanel />
+          </div>
         ) : (
         <div className="space-y-6">
           {/* Actions */}
@@ -182,6 +295,38 @@ export default function AdminDashboard() {
             >
               {loading ? 'Cargando...' : 'Actualizar'}
             </button>
+            {canViewTeam && (
+              <div className="flex gap-1 bg-white/30 backdrop-blur-md rounded-xl p-1 border border-white/40 sm:ml-auto w-fit">
+                {(['own', 'team'] as CalendarScope[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setScope(option)}
+                    className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-all duration-300 ${
+                      calendarScope === option
+                        ? 'bg-white/60 text-blue-600 border border-white/50 shadow-sm'
+                        : 'text-slate-600 hover:text-slate-900'
+                    }`}
+                  >
+                    {option === 'own' ? 'Mi calendario' : 'Equipo'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className={`flex gap-1 bg-white/30 backdrop-blur-md rounded-xl p-1 border border-white/40 w-fit ${canViewTeam ? '' : 'sm:ml-auto'}`}>
+              {(['list', 'timeline'] as EventsView[]).map((view) => (
+                <button
+                  key={view}
+                  onClick={() => setEventsView(view)}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-all duration-300 ${
+                    eventsView === view
+                      ? 'bg-white/60 text-blue-600 border border-white/50 shadow-sm'
+                      : 'text-slate-600 hover:text-slate-900'
+                  }`}
+                >
+                  {view === 'list' ? 'Lista' : 'Calendario'}
+                </button>
+              ))}
+            </div>
           </div>
 
           {/* Stats */}
@@ -207,13 +352,24 @@ export default function AdminDashboard() {
             </div>
           </div>
 
-          {/* Events List */}
+          {eventsView === 'timeline' ? (
+            <EventTimeline
+              refreshKey={timelineRefreshKey}
+              onEditEvent={setEditingEvent}
+              onEventsChanged={loadEvents}
+              scope={calendarScope}
+              userId={user?.id}
+              hostNames={hostNames}
+              canManageTeam={canManageTeam}
+            />
+          ) : (
+          /* Events List */
           <div className="relative bg-white/40 backdrop-blur-md rounded-2xl border border-white/50 shadow-lg shadow-blue-900/10 overflow-hidden">
             <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-2xl" />
             
             <div className="relative px-6 py-6 border-b border-white/30">
               <h2 className="text-lg font-semibold text-slate-900 tracking-tight">
-                Próximos eventos
+                {calendarScope === 'team' ? `Próximos eventos de ${team?.organization.name}` : 'Próximos eventos'}
               </h2>
             </div>
             
@@ -237,7 +393,7 @@ export default function AdminDashboard() {
                   const end = formatDateTime(event.end_time);
                   
                   return (
-                    <div key={event.id} className="p-6 hover:bg-white/30 transition-colors duration-300 border-t border-white/10">
+                    <div key={`${event.id}-${event.occurrence_start ?? ''}`} className="p-6 hover:bg-white/30 transition-colors duration-300 border-t border-white/10">
                       <div className="flex items-start justify-between gap-4">
                         {/* Left: Date & Time */}
                         <div className="flex items-start gap-4">
@@ -259,6 +415,21 @@ export default function AdminDashboard() {
                               }`}>
                                 {event.event_type === 'booking' ? 'Reserva' : event.event_type}
                               </span>
+                              {event.rrule && (
+                                <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold backdrop-blur-md border bg-blue-400/20 text-blue-700 border-blue-300/50">
+                                  Se repite
+                                </span>
+                              )}
+                              {calendarScope === 'team' && (
+                                <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold backdrop-blur-md border bg-white/40 text-slate-700 border-white/50">
+                                  {isOwnEvent(event) ? 'Vos' : (event.created_by && hostNames[event.created_by]) || 'Miembro'}
+                                </span>
+                              )}
+                              {event.booking && event.booking.status !== 'confirmed' && (
+                                <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold backdrop-blur-md border bg-slate-300/30 text-slate-600 border-slate-300/50">
+                                  {BOOKING_STATUS_LABELS[event.booking.status as BookingStatus] ?? event.booking.status}
+                                </span>
+                              )}
                             </div>
                             
                             <h3 className="text-base font-semibold text-slate-900 truncate">
@@ -305,9 +476,21 @@ export default function AdminDashboard() {
                         </div>
                         
                         {/* Right: Actions */}
-                        <div className="shrink-0">
+                        {canEditEvent(event) && (
+                        <div className="shrink-0 flex items-center gap-1">
+                          {event.event_type !== 'booking' && (
+                            <button
+                              onClick={() => setEditingEvent(event)}
+                              className="p-2.5 text-slate-400 hover:text-blue-600 hover:bg-blue-400/20 backdrop-blur-md border border-transparent hover:border-blue-300/50 rounded-lg transition-all duration-300"
+                              title="Editar evento"
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                          )}
                           <button
-                            onClick={() => handleDeleteEvent(event.id)}
+                            onClick={() => handleDeleteEvent(event)}
                             className="p-2.5 text-slate-400 hover:text-red-600 hover:bg-red-400/20 backdrop-blur-md border border-transparent hover:border-red-300/50 rounded-lg transition-all duration-300"
                             title="Eliminar evento"
                           >
@@ -316,6 +499,7 @@ export default function AdminDashboard() {
                             </svg>
                           </button>
                         </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -323,29 +507,19 @@ export default function AdminDashboard() {
               </div>
             )}
           </div>
+          )}
         </div>
         )}
       </main>
 
-      {/* Create Event Form (placeholder) */}
-      {showCreateForm && (
-        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
-          <div className="relative bg-white/50 backdrop-blur-2xl rounded-2xl max-w-md w-full p-8 border border-white/60 shadow-2xl shadow-blue-900/20">
-            <div className="absolute inset-0 bg-linear-to-br from-white/70 via-white/50 to-white/30 pointer-events-none rounded-2xl" />
-            <h3 className="relative text-xl font-semibold text-slate-900 mb-3">
-              Crear nuevo evento
-            </h3>
-            <p className="relative text-sm text-slate-600 mb-6">
-              Implementá el formulario de creación de eventos aquí
-            </p>
-            <button
-              onClick={() => setShowCreateForm(false)}
-              className="relative w-full px-4 py-2.5 bg-white/40 backdrop-blur-md text-slate-700 border border-white/50 rounded-lg hover:bg-white/60 hover:border-blue-300/50 transition-all duration-300"
-            >
-              Cerrar
-            </button>
-          </div>
-        </div>
+      {/* Create / Edit Event Form */}
+      {(showCreateForm || editingEvent) && (
+        <EventForm
+          key={editingEvent ? `${editingEvent.id}-${editingEvent.occurrence_start ?? ''}` : 'new'}
+          event={editingEvent}
+          onSaved={handleEventSaved}
+          onCancel={closeEventForm}
+        />
       )}
     </div>
   );
@@ -0,0 +1,26 @@
+/**
+ * External calendar cron endpoint
+ * Re-imports the hosts' external calendars as busy time; meant to be called
+ * every 15-60 minutes
+ */
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { refreshExternalCalendars } from '@/lib/externalCalendars';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshExternalCalendars();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error syncing external calendars:', error);
+    return NextResponse.json({ error: 'Error syncing external calendars' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,25 @@
+/**
+ * Reminder cron endpoint
+ * Sends the booking reminders that are due; meant to be called every few minutes
+ */
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { runDueReminders } from '@/lib/reminders';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runDueReminders();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error running reminders:', error);
+    return NextResponse.json({ error: 'Error running reminders' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,26 @@
+/**
+ * Webhook retry cron endpoint
+ * Retries the failed webhook deliveries that are due; meant to be called
+ * every minute or few
+ */
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { retryDueWebhookDeliveries } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await retryDueWebhookDeliveries();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error retrying webhooks:', error);
+    return NextResponse.json({ error: 'Error retrying webhooks' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,31 @@
+/**
+ * Calendar feed endpoint
+ * The host's agenda as iCalendar, for subscribing from Google, Apple or Outlook
+ */
+import { NextResponse } from 'next/server';
+import { buildCalendarFeed } from '@/lib/calendarFeed';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  // Feed URLs end in .ics, which some calendar apps expect
+  const token = (await params).token.replace(/\.ics$/, '');
+
+  try {
+    const ics = await buildCalendarFeed(token);
+    if (!ics) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="agenda.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json({ error: 'Error building calendar feed' }, { status: 500 });
+  }
+}
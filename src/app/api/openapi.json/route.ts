@@ -0,0 +1,16 @@
+/**
+ * OpenAPI document endpoint
+ * Contract of the REST API (/api/v1), for integrators and code generators
+ */
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { getSiteUrl } from '@/lib/siteUrl';
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(getSiteUrl()), {
+    headers: {
+      // Readable from API explorers on other origins
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * POST /api/v1/bookings/:id/cancel
+ * Cancels one of the host's bookings; the visitor is told by email
+ */
+import { changeBookingStatus } from '@/lib/hostBookings';
+import { apiBookingError, apiData, apiError, readJsonBody, withApiKey } from '@/lib/restApi';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { cancelHostBookingSchema } from '@/utils/validations';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withApiKey<{ id: string }>(async (request, { hostId, params }) => {
+  // The body is optional: { reason }
+  const validation = cancelHostBookingSchema.safeParse((await readJsonBody(request)) ?? {});
+  if (!validation.success) {
+    return apiError(400, 'INVALID_INPUT', validation.error.issues[0].message);
+  }
+
+  const result = await changeBookingStatus(createAdminSupabaseClient(), hostId, {
+    id: params.id,
+    status: 'cancelled',
+    reason: validation.data.reason,
+  });
+
+  if (!result.success) {
+    return apiBookingError(result.code, result.error);
+  }
+
+  return apiData({ id: params.id, status: 'cancelled' });
+});
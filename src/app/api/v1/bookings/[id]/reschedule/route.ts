@@ -0,0 +1,30 @@
+/**
+ * POST /api/v1/bookings/:id/reschedule
+ * Moves one of the host's confirmed bookings to another slot
+ */
+import { rescheduleHostBooking } from '@/lib/hostBookings';
+import { apiBookingError, apiData, apiError, readJsonBody, withApiKey } from '@/lib/restApi';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { rescheduleHostBookingSchema } from '@/utils/validations';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withApiKey<{ id: string }>(async (request, { hostId, params }) => {
+  const body = await readJsonBody(request);
+  const validation = rescheduleHostBookingSchema.safeParse({
+    ...(body && typeof body === 'object' ? body : {}),
+    id: params.id,
+  });
+
+  if (!validation.success) {
+    return apiError(400, 'INVALID_INPUT', validation.error.issues[0].message);
+  }
+
+  const result = await rescheduleHostBooking(createAdminSupabaseClient(), hostId, validation.data);
+  if (!result.success) {
+    return apiBookingError(result.code, result.error);
+  }
+
+  const { id, slot_start, slot_end } = validation.data;
+  return apiData({ id, start_time: slot_start, end_time: slot_end });
+});
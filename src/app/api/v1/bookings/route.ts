@@ -0,0 +1,32 @@
+/**
+ * POST /api/v1/bookings
+ * Books a slot with the key's host, checked like a booking from the public page
+ */
+import { createBooking } from '@/actions/bookings';
+import { apiBookingError, apiData, apiError, readJsonBody, withApiKey } from '@/lib/restApi';
+import { getSiteUrl } from '@/lib/siteUrl';
+import type { CreateBookingInput } from '@/utils/validations';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withApiKey(async (request, { hostId }) => {
+  const body = await readJsonBody(request);
+  if (!body || typeof body !== 'object') {
+    return apiError(400, 'INVALID_INPUT', 'El cuerpo debe ser un objeto JSON');
+  }
+
+  // createBooking validates the fields
+  const result = await createBooking(body as CreateBookingInput, hostId);
+  if (!result.success || !result.data) {
+    return apiBookingError(result.code, result.error);
+  }
+
+  const { id, manageToken } = result.data;
+  return apiData(
+    {
+      id,
+      manage_url: manageToken ? `${getSiteUrl()}/booking/${manageToken}` : null,
+    },
+    201
+  );
+});
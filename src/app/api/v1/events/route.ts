@@ -0,0 +1,24 @@
+/**
+ * GET /api/v1/events?start_date=<ISO>&end_date=<ISO>
+ * The host's events in a range of up to 42 days, recurring series expanded
+ */
+import { getHostEventsInRange } from '@/lib/hostEvents';
+import { apiData, apiError, withApiKey } from '@/lib/restApi';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey(async (request, { hostId }) => {
+  const { searchParams } = new URL(request.url);
+  const result = await getHostEventsInRange(createAdminSupabaseClient(), hostId, {
+    start_date: searchParams.get('start_date') ?? undefined,
+    end_date: searchParams.get('end_date') ?? undefined,
+  });
+
+  if (!result.success || !result.data) {
+    const code = result.code ?? 'SERVER_ERROR';
+    return apiError(code === 'INVALID_INPUT' ? 400 : 500, code, result.error || 'Error inesperado');
+  }
+
+  return apiData(result.data);
+});
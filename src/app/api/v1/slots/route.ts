@@ -0,0 +1,39 @@
+/**
+ * GET /api/v1/slots?date=<ISO>&days=<n>&meeting_type_id=<uuid>
+ * Bookable slots of the key's host from date on, for one of their meeting
+ * types if given
+ */
+import { getAvailableSlots } from '@/actions/slots';
+import { apiData, apiError, withApiKey } from '@/lib/restApi';
+import { getAvailableSlotsQuerySchema } from '@/utils/validations';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey(async (request, { hostId }) => {
+  const { searchParams } = new URL(request.url);
+  const validation = getAvailableSlotsQuerySchema.safeParse({
+    date: searchParams.get('date') ?? undefined,
+    days: searchParams.get('days') ?? undefined,
+    meeting_type_id: searchParams.get('meeting_type_id') ?? undefined,
+  });
+
+  if (!validation.success) {
+    return apiError(400, 'INVALID_INPUT', validation.error.issues[0].message);
+  }
+
+  const { date, days, meeting_type_id } = validation.data;
+  const slots = await getAvailableSlots({
+    hostId,
+    startDate: new Date(date),
+    days,
+    meetingTypeId: meeting_type_id,
+  });
+
+  return apiData(
+    slots.map((slot) => ({
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+      available: slot.available,
+    }))
+  );
+});
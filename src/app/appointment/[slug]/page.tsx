@@ -0,0 +1,21 @@
+/**
+ * Meeting type booking page
+ * Calendar for one of the host's meeting types (/appointment/<slug>)
+ */
+import { notFound } from 'next/navigation';
+import { getPublicMeetingType } from '@/actions/meetingTypes';
+import BookingPage from '@/components/BookingPage';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function MeetingTypePage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const meetingType = await getPublicMeetingType(slug);
+
+  if (!meetingType) {
+    notFound();
+  }
+
+  return <BookingPage meetingType={meetingType} />;
+}
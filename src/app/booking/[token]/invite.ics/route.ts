@@ -0,0 +1,40 @@
+/**
+ * Booking .ics download
+ * The visitor's booking as an iCalendar file, behind the same signed token
+ * as the management page
+ */
+import { NextResponse } from 'next/server';
+import { verifyBookingToken } from '@/lib/bookingToken';
+import { buildBookingIcs } from '@/lib/bookingCalendar';
+import { loadBookingEmailData } from '@/lib/mailer/bookingEmails';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { validateUUID } from '@/utils/validations';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    const bookingId = verifyBookingToken(token);
+    if (!bookingId || !validateUUID(bookingId)) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 404 });
+    }
+
+    const booking = await loadBookingEmailData(createAdminSupabaseClient(), bookingId);
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    return new NextResponse(buildBookingIcs(booking, 'PUBLISH'), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="reserva.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating booking ics:', error);
+    return NextResponse.json({ error: 'Error generating calendar file' }, { status: 500 });
+  }
+}
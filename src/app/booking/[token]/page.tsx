@@ -0,0 +1,51 @@
+/**
+ * Booking management page
+ * Public page behind the link sent to visitors: view, cancel or reschedule
+ */
+import { getManagedBooking } from '@/actions/bookings';
+import ManageBooking from '@/components/ManageBooking';
+import { getSiteUrl } from '@/lib/siteUrl';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function BookingPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ confirmada?: string }>;
+}) {
+  const { token } = await params;
+  // Set by the appointment page right after booking
+  const { confirmada } = await searchParams;
+  const result = await getManagedBooking(token);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12 sm:py-16 lg:py-20">
+      <div className="w-full max-w-[1100px]">
+        <div className="relative bg-white/40 backdrop-blur-2xl rounded-3xl sm:rounded-4xl border border-white/50 shadow-2xl shadow-blue-900/10 overflow-hidden">
+          <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-3xl sm:rounded-4xl" />
+
+          <div className="relative px-8 sm:px-10 lg:px-14 py-10 sm:py-12 lg:py-14">
+            {result.success && result.data ? (
+              <ManageBooking
+                token={token}
+                booking={result.data}
+                manageUrl={`${getSiteUrl()}/booking/${token}`}
+                justBooked={confirmada === '1'}
+              />
+            ) : (
+              <div className="text-center">
+                <h1 className="text-2xl font-semibold text-slate-900 mb-3">Reserva no encontrada</h1>
+                <p className="text-slate-600 text-sm sm:text-base">
+                  {result.error || 'No pudimos cargar la reserva'}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Team invitation page
+ * Behind the link emailed to someone invited to an organization: accept it
+ * with their account, or create the account first
+ */
+import { getInvitePreview } from '@/actions/organizations';
+import InviteAcceptance from '@/components/InviteAcceptance';
+import { getCurrentUser } from '@/utils/auth';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const [invite, user] = await Promise.all([getInvitePreview(token), getCurrentUser()]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12 sm:py-16 lg:py-20">
+      <div className="w-full max-w-lg">
+        <div className="relative bg-white/40 backdrop-blur-2xl rounded-3xl sm:rounded-4xl border border-white/50 shadow-2xl shadow-blue-900/10 overflow-hidden">
+          <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-3xl sm:rounded-4xl" />
+
+          <div className="relative px-8 sm:px-10 py-10 sm:py-12">
+            {invite ? (
+              <InviteAcceptance token={token} invite={invite} signedInEmail={user?.email ?? null} />
+            ) : (
+              <div className="text-center">
+                <h1 className="text-2xl font-semibold text-slate-900 mb-3">Invitación no válida</h1>
+                <p className="text-slate-600 text-sm sm:text-base">
+                  El enlace ya se usó, venció o fue revocado. Pedí una nueva invitación a quien administra el equipo.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,12 @@ import { useAuth } from '@/contexts/AuthContext';
 import { loginSchema } from '@/utils/validations';
 import toast from 'react-hot-toast';
 
+// Where to go after signing in: ?next=<path> (e.g. back to an invitation), only within the app
+const getRedirectPath = (): string => {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/admin';
+};
+
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -39,7 +45,7 @@ export default function LoginPage() {
       }
 
       toast.success('¡Bienvenido!');
-      router.push('/admin');
+      router.push(getRedirectPath());
       router.refresh();
     } catch (error) {
       toast.error('Error al iniciar sesión');
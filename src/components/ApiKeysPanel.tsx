@@ -0,0 +1,206 @@
+/**
+ * ApiKeysPanel Component
+ * Admin panel for REST API keys: create (the key is shown only once),
+ * per-key rate limit and revoke
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createApiKey, getApiKeys, revokeApiKey } from '@/actions/apiKeys';
+import type { ApiKey } from '@/types/database';
+import toast from 'react-hot-toast';
+
+const formatDateTime = (date: string): string =>
+  new Date(date).toLocaleString('es-AR', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function ApiKeysPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [rateLimit, setRateLimit] = useState(60);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  const loadApiKeys = async () => {
+    try {
+      const result = await getApiKeys();
+      if (result.success) {
+        setApiKeys(result.data || []);
+      } else {
+        toast.error(result.error || 'Error al cargar las API keys');
+      }
+    } catch (error) {
+      console.error('Load API keys error:', error);
+      toast.error('Error al cargar las API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const result = await createApiKey({ name, rate_limit_per_minute: rateLimit });
+    setSaving(false);
+
+    if (result.success && result.data) {
+      const { apiKey, key } = result.data;
+      setApiKeys((prev) => [apiKey, ...prev]);
+      setNewKey(key);
+      setName('');
+      toast.success('API key creada. Copiala ahora: no se vuelve a mostrar');
+    } else {
+      toast.error(result.error || 'Error al crear la API key');
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Los sistemas que usan "${apiKey.name}" dejarán de tener acceso. ¿Revocar la API key?`)) {
+      return;
+    }
+
+    const result = await revokeApiKey(apiKey.id);
+    if (result.success) {
+      const revokedAt = new Date().toISOString();
+      setApiKeys((prev) => prev.map((k) => (k.id === apiKey.id ? { ...k, revoked_at: revokedAt } : k)));
+      toast.success('API key revocada');
+    } else {
+      toast.error(result.error || 'Error al revocar');
+    }
+  };
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success('API key copiada');
+    } catch {
+      toast.error('No se pudo copiar la API key');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">API</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Claves para que otros sistemas consulten horarios y gestionen reservas a través de <code>/api/v1</code>
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {newKey && (
+          <div className="p-4 rounded-lg border border-green-200 bg-green-50 space-y-2">
+            <p className="text-sm font-medium text-green-800">
+              Copiá la nueva API key ahora. Por seguridad no se guarda y no se vuelve a mostrar.
+            </p>
+            <div className="flex gap-2 items-center">
+              <code className="flex-1 min-w-0 truncate text-xs text-gray-900">{newKey}</code>
+              <button
+                type="button"
+                onClick={() => copyKey(newKey)}
+                className="text-xs font-medium text-blue-600 hover:underline"
+              >
+                Copiar
+              </button>
+              <button
+                type="button"
+                onClick={() => setNewKey(null)}
+                className="text-xs font-medium text-gray-600 hover:underline"
+              >
+                Listo
+              </button>
+            </div>
+          </div>
+        )}
+
+        {apiKeys.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {apiKeys.map((apiKey) => (
+              <li key={apiKey.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {apiKey.name}
+                    {apiKey.revoked_at && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        Revocada
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    <code>{apiKey.key_prefix}…</code> · {apiKey.rate_limit_per_minute} solicitudes/min ·{' '}
+                    {apiKey.last_used_at ? `Último uso: ${formatDateTime(apiKey.last_used_at)}` : 'Sin usar'}
+                  </p>
+                </div>
+                {!apiKey.revoked_at && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(apiKey)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    Revocar
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Nombre</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="CRM, sitio web..."
+                maxLength={100}
+                required
+                className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Solicitudes por minuto</label>
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(Number(e.target.value))}
+                required
+                className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Enviá la clave en el header <code>Authorization: Bearer &lt;clave&gt;</code>. Las solicitudes que superen
+            el límite reciben HTTP 429 hasta el minuto siguiente.
+          </p>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Creando...' : 'Crear API key'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
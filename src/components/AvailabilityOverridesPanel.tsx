@@ -0,0 +1,396 @@
+/**
+ * Availability Overrides Component
+ * Admin calendar for closing dates (vacations, holidays) or setting custom hours
+ */
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  addDays,
+  addMonths,
+  subMonths,
+  startOfMonth,
+  startOfWeek,
+  isSameMonth,
+  format,
+  parseISO,
+} from 'date-fns';
+import { es } from 'date-fns/locale';
+import {
+  getAvailabilityOverrides,
+  saveAvailabilityOverride,
+  deleteAvailabilityOverride,
+} from '@/actions/settings';
+import type { AvailabilityOverride, TimeInterval } from '@/types/database';
+import { findOverrideForDate } from '@/utils/availability';
+import { availabilityOverrideSchema } from '@/utils/validations';
+import TimeIntervalsEditor from './TimeIntervalsEditor';
+import toast from 'react-hot-toast';
+
+interface OverrideForm {
+  id?: string;
+  start_date: string;
+  end_date: string;
+  is_closed: boolean;
+  intervals: TimeInterval[];
+  reason: string;
+}
+
+const emptyForm = (start: string, end: string): OverrideForm => ({
+  start_date: start,
+  end_date: end,
+  is_closed: true,
+  intervals: [{ start_time: '10:00', end_time: '14:00' }],
+  reason: '',
+});
+
+const formatDateKey = (key: string, formatStr = "d 'de' MMMM") =>
+  format(parseISO(key), formatStr, { locale: es });
+
+const formatRange = (start: string, end: string) =>
+  start === end ? formatDateKey(start) : `${formatDateKey(start)} al ${formatDateKey(end)}`;
+
+export default function AvailabilityOverridesPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([]);
+  const [currentMonth, setCurrentMonth] = useState(() => startOfMonth(new Date()));
+  // First clicked day while a range is being picked
+  const [anchor, setAnchor] = useState<string | null>(null);
+  const [form, setForm] = useState<OverrideForm | null>(null);
+
+  useEffect(() => {
+    loadOverrides();
+  }, []);
+
+  const loadOverrides = async () => {
+    setLoading(true);
+    try {
+      const result = await getAvailabilityOverrides();
+      if (result.success && result.data) {
+        setOverrides(result.data);
+      } else {
+        toast.error(result.error || 'Error al cargar las excepciones');
+      }
+    } catch (error) {
+      console.error('Load overrides error:', error);
+      toast.error('Error al cargar las excepciones');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+  const days = useMemo(() => {
+    const gridStart = startOfWeek(currentMonth, { weekStartsOn: 1 });
+    return Array.from({ length: 42 }, (_, i) => addDays(gridStart, i));
+  }, [currentMonth]);
+
+  const weekdays = useMemo(() => {
+    const base = startOfWeek(new Date(), { weekStartsOn: 1 });
+    return Array.from({ length: 7 }, (_, i) => format(addDays(base, i), 'EEE', { locale: es }));
+  }, []);
+
+  const formErrors = useMemo(() => {
+    if (!form) return null;
+    const validation = availabilityOverrideSchema.safeParse(form);
+    if (validation.success) return null;
+    const issue = validation.error.issues[0];
+    const [field, index] = issue.path;
+    return {
+      message: issue.message,
+      field,
+      intervalIndex: typeof index === 'number' ? index : undefined,
+    };
+  }, [form]);
+
+  const handleDayClick = (key: string) => {
+    if (!anchor) {
+      setAnchor(key);
+      setForm(emptyForm(key, key));
+      return;
+    }
+
+    const [start, end] = key < anchor ? [key, anchor] : [anchor, key];
+    setAnchor(null);
+    setForm((prev) => ({ ...(prev ?? emptyForm(start, end)), start_date: start, end_date: end }));
+  };
+
+  const handleEdit = (override: AvailabilityOverride) => {
+    setAnchor(null);
+    setCurrentMonth(startOfMonth(parseISO(override.start_date)));
+    setForm({
+      id: override.id,
+      start_date: override.start_date,
+      end_date: override.end_date,
+      is_closed: override.is_closed,
+      intervals: override.intervals.length > 0
+        ? override.intervals
+        : [{ start_time: '10:00', end_time: '14:00' }],
+      reason: override.reason ?? '',
+    });
+  };
+
+  const handleCancel = () => {
+    setAnchor(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (formErrors) {
+      toast.error(formErrors.message);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveAvailabilityOverride({
+        ...form,
+        reason: form.reason || null,
+      });
+      if (result.success) {
+        toast.success('Excepción guardada');
+        handleCancel();
+        loadOverrides();
+      } else {
+        toast.error(result.error || 'Error al guardar');
+      }
+    } catch (error) {
+      console.error('Save override error:', error);
+      toast.error('Error al guardar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('¿Eliminar esta excepción?')) return;
+
+    const result = await deleteAvailabilityOverride(id);
+    if (result.success) {
+      toast.success('Excepción eliminada');
+      if (form?.id === id) handleCancel();
+      loadOverrides();
+    } else {
+      toast.error(result.error || 'Error al eliminar');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Días especiales</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Cerrá fechas puntuales (vacaciones, feriados) o definí un horario distinto para un día
+        </p>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Month grid */}
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <button
+              type="button"
+              onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}
+              className="h-9 w-9 inline-flex items-center justify-center rounded-lg border border-gray-200 hover:bg-gray-50"
+              aria-label="Mes anterior"
+            >
+              <svg className="h-4 w-4 text-gray-600" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div className="font-medium text-gray-900 capitalize">
+              {format(currentMonth, 'MMMM yyyy', { locale: es })}
+            </div>
+            <button
+              type="button"
+              onClick={() => setCurrentMonth(addMonths(currentMonth, 1))}
+              className="h-9 w-9 inline-flex items-center justify-center rounded-lg border border-gray-200 hover:bg-gray-50"
+              aria-label="Mes siguiente"
+            >
+              <svg className="h-4 w-4 text-gray-600" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 mb-2">
+            {weekdays.map((w, i) => (
+              <div key={i} className="text-center text-[11px] uppercase tracking-wide text-gray-500 py-1">
+                {w}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-7 gap-1">
+            {days.map((day) => {
+              const key = format(day, 'yyyy-MM-dd');
+              const inMonth = isSameMonth(day, currentMonth);
+              const isPast = key < todayKey;
+              const override = findOverrideForDate(overrides, key);
+              const inSelection =
+                !!form && key >= form.start_date && key <= form.end_date;
+
+              let styling = 'text-gray-700 hover:bg-gray-100';
+              if (inSelection) {
+                styling = 'bg-blue-600 text-white';
+              } else if (override?.is_closed) {
+                styling = 'bg-red-100 text-red-700 hover:bg-red-200';
+              } else if (override) {
+                styling = 'bg-amber-100 text-amber-800 hover:bg-amber-200';
+              }
+
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => handleDayClick(key)}
+                  disabled={isPast}
+                  title={override?.reason ?? undefined}
+                  className={`h-10 rounded-lg text-sm transition-colors disabled:opacity-30 disabled:pointer-events-none ${styling} ${
+                    inMonth ? '' : 'opacity-40'
+                  } ${key === todayKey ? 'ring-1 ring-blue-400' : ''}`}
+                >
+                  {format(day, 'd')}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+            <span className="inline-flex items-center gap-1.5">
+              <span className="h-3 w-3 rounded bg-red-100 border border-red-200" /> Cerrado
+            </span>
+            <span className="inline-flex items-center gap-1.5">
+              <span className="h-3 w-3 rounded bg-amber-100 border border-amber-200" /> Horario especial
+            </span>
+          </div>
+        </div>
+
+        {/* Editor / list */}
+        <div>
+          {form ? (
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm text-gray-500">
+                  {anchor ? 'Elegí el último día del rango (o guardá solo este día)' : 'Fechas seleccionadas'}
+                </p>
+                <p className="font-medium text-gray-900">{formatRange(form.start_date, form.end_date)}</p>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, is_closed: true })}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                    form.is_closed
+                      ? 'bg-red-50 border-red-300 text-red-700'
+                      : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Cerrado
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, is_closed: false })}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                    !form.is_closed
+                      ? 'bg-amber-50 border-amber-300 text-amber-800'
+                      : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Horario especial
+                </button>
+              </div>
+
+              {!form.is_closed && (
+                <TimeIntervalsEditor
+                  intervals={form.intervals}
+                  onChange={(intervals) => setForm({ ...form, intervals })}
+                  error={formErrors?.field === 'intervals' ? formErrors.message : undefined}
+                  errorIndex={formErrors?.intervalIndex}
+                />
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Motivo <span className="text-gray-400 font-normal">(opcional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={form.reason}
+                  onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                  placeholder="Vacaciones, feriado..."
+                  className="w-full h-10 px-3 rounded-lg border border-gray-300 text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="flex gap-2 pt-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {saving ? 'Guardando...' : 'Guardar excepción'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  disabled={saving}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Cancelar
+                </button>
+              </div>
+            </div>
+          ) : loading ? (
+            <div className="p-6 flex items-center justify-center">
+              <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+            </div>
+          ) : overrides.length === 0 ? (
+            <div className="text-sm text-gray-500">
+              No hay días especiales. Hacé click en una fecha del calendario para crear uno.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {overrides.map((override) => (
+                <li key={override.id} className="py-3 flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {formatRange(override.start_date, override.end_date)}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {override.is_closed
+                        ? 'Cerrado'
+                        : override.intervals.map((i) => `${i.start_time} - ${i.end_time}`).join(', ')}
+                      {override.reason && ` · ${override.reason}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleEdit(override)}
+                      className="px-2.5 py-1.5 text-sm text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    >
+                      Editar
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(override.id)}
+                      className="px-2.5 py-1.5 text-sm text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      Eliminar
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,12 +8,17 @@
 import { useState } from 'react';
 import { createBookingSchema } from '@/utils/validations';
 import { createBooking } from '@/actions/bookings';
+import { formatInTimeZone, getTimeZoneLabel } from '@/utils/dateHelpers';
 import toast from 'react-hot-toast';
 
 interface BookingFormProps {
   slotStart: Date;
   slotEnd: Date;
-  onSuccess: () => void;
+  timeZone: string; // visitor's zone, stored on the booking
+  hostTimeZone: string;
+  hostId?: string | null; // the /appointment host by default
+  meetingTypeId?: string | null;
+  onSuccess: (booking: { id: string; manageToken: string | null }) => void;
   onCancel: () => void;
   showAsPage?: boolean;
 }
@@ -21,6 +26,10 @@ interface BookingFormProps {
 export default function BookingForm({
   slotStart,
   slotEnd,
+  timeZone,
+  hostTimeZone,
+  hostId = null,
+  meetingTypeId = null,
   onSuccess,
   onCancel,
   showAsPage = false,
@@ -41,6 +50,8 @@ export default function BookingForm({
       const validation = createBookingSchema.safeParse({
         slot_start: slotStart.toISOString(),
         slot_end: slotEnd.toISOString(),
+        timezone: timeZone,
+        meeting_type_id: meetingTypeId,
         ...formData,
         phone: formData.phone || null,
         notes: formData.notes || null,
@@ -52,16 +63,18 @@ export default function BookingForm({
         return;
       }
 
-      const result = await createBooking(validation.data);
+      const result = await createBooking(validation.data, hostId);
 
-      if (!result.success) {
+      if (!result.success || !result.data) {
         toast.error(result.error || 'Error al crear la reserva');
         setLoading(false);
         return;
       }
 
-      toast.success('¡Reserva confirmada! Recibirás un email de confirmación.');
-      onSuccess();
+      toast.success(
+        `¡Reserva confirmada para el ${formatInTimeZone(slotStart, "d 'de' MMMM, HH:mm", timeZone)}! Recibirás un email de confirmación.`
+      );
+      onSuccess(result.data);
     } catch (error) {
       toast.error('Error al crear la reserva');
       console.error(error);
@@ -126,6 +139,7 @@ export default function BookingForm({
                 weekday: 'short',
                 day: 'numeric',
                 month: 'short',
+                timeZone,
               })}
             </span>
           </div>
@@ -135,15 +149,26 @@ export default function BookingForm({
               {slotStart.toLocaleTimeString('es-AR', {
                 hour: '2-digit',
                 minute: '2-digit',
+                timeZone,
               })}
               {' - '}
               {slotEnd.toLocaleTimeString('es-AR', {
                 hour: '2-digit',
                 minute: '2-digit',
+                timeZone,
               })}
             </span>
           </div>
         </div>
+        <p className="text-[12px] text-slate-500">
+          Horario en {getTimeZoneLabel(timeZone, slotStart)}
+          {timeZone !== hostTimeZone && (
+            <>
+              {' · '}
+              {formatInTimeZone(slotStart, 'HH:mm', hostTimeZone)} para el anfitrión ({getTimeZoneLabel(hostTimeZone, slotStart)})
+            </>
+          )}
+        </p>
       </div>
 
       {/* Campos del formulario */}
@@ -0,0 +1,183 @@
+/**
+ * BookingPage Component
+ * Public calendar interface for booking appointments with a host (the
+ * /appointment host by default), for one of their meeting types or,
+ * without any, their default slot
+ */
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import DateTimePicker from '@/components/DateTimePicker';
+import BookingForm from '@/components/BookingForm';
+import TimeZoneSelect, { useBrowserTimeZone } from '@/components/TimeZoneSelect';
+import { getBookingAvailability } from '@/actions/slots';
+import type { BookingWindow, HostProfile, MeetingType, TimeSlot } from '@/types/database';
+import { DEFAULT_SETTINGS } from '@/types/database';
+import toast from 'react-hot-toast';
+
+interface BookingPageProps {
+  host?: HostProfile | null;
+  meetingType?: MeetingType | null;
+}
+
+export default function BookingPage({ host = null, meetingType = null }: BookingPageProps) {
+  const router = useRouter();
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [showBookingForm, setShowBookingForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [bookingWindow, setBookingWindow] = useState<BookingWindow | null>(null);
+  const [hostTimeZone, setHostTimeZone] = useState(DEFAULT_SETTINGS.timezone);
+  const [selectedTimeZone, setSelectedTimeZone] = useState<string | null>(null);
+
+  // Visitors see times in their browser's zone unless they pick another one
+  const browserTimeZone = useBrowserTimeZone(hostTimeZone);
+  const timeZone = selectedTimeZone ?? browserTimeZone;
+
+  const hostId = host?.user_id;
+  const meetingTypeId = meetingType?.id;
+
+  const loadSlots = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Slot duration, buffers, notice and advance window come from the
+      // meeting type on top of the host's settings
+      const availability = await getBookingAvailability(meetingTypeId, hostId);
+      setSlots(availability.slots);
+      setBookingWindow(availability.window);
+      setHostTimeZone(availability.timezone);
+    } catch (error) {
+      console.error('Error loading slots:', error);
+      toast.error('Error al cargar los horarios disponibles');
+    } finally {
+      setLoading(false);
+    }
+  }, [meetingTypeId, hostId]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const handleSlotClick = (slot: TimeSlot) => {
+    if (slot.available) {
+      setSelectedSlot(slot);
+    }
+  };
+
+  const handleNextClick = () => {
+    if (selectedSlot) {
+      setShowBookingForm(true);
+    }
+  };
+
+  const handleBackClick = () => {
+    setShowBookingForm(false);
+  };
+
+  const handleBookingSuccess = ({ manageToken }: { manageToken: string | null }) => {
+    // The management page doubles as the confirmation screen
+    if (manageToken) {
+      router.push(`/booking/${manageToken}?confirmada=1`);
+      return;
+    }
+
+    setShowBookingForm(false);
+    setSelectedSlot(null);
+    loadSlots();
+    router.refresh();
+  };
+
+  const handleBookingCancel = () => {
+    setShowBookingForm(false);
+    setSelectedSlot(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12 sm:py-16 lg:py-20">
+      {/* Fondo decorativo animado */}
+      <div className="fixed inset-0 -z-10 overflow-hidden pointer-events-none">
+        <div className="absolute top-1/3 left-1/4 w-96 h-96 bg-blue-300/20 rounded-full blur-3xl -translate-x-1/2 -translate-y-1/2 animate-pulse" />
+        <div className="absolute bottom-1/3 right-1/4 w-96 h-96 bg-cyan-300/15 rounded-full blur-3xl translate-x-1/2 translate-y-1/2 animate-pulse" style={{ animationDelay: '1.5s' }} />
+        <div className="absolute top-1/2 right-1/3 w-80 h-80 bg-blue-200/10 rounded-full blur-3xl animate-pulse" style={{ animationDelay: '3s' }} />
+      </div>
+
+      <div className="w-full max-w-[1100px]">
+        <div className="relative">
+          {/* Título como encabezado de sección */}
+          {!showBookingForm && (
+            <div className="mb-6 sm:mb-8 text-center">
+              {host && <p className="mb-2 text-sm font-medium text-slate-500">{host.display_name}</p>}
+              {meetingType ? (
+                <>
+                  <Link href={host ? `/${host.username}` : '/appointment'} className="inline-block mb-3 text-sm text-blue-600 hover:text-blue-700">
+                    ← Ver todos los tipos de reunión
+                  </Link>
+                  <h1 className="flex items-center justify-center gap-3 text-2xl sm:text-3xl lg:text-4xl font-semibold text-slate-900 mb-3 tracking-tight">
+                    <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: meetingType.color }} />
+                    {meetingType.name}
+                  </h1>
+                  <p className="text-slate-600 text-sm sm:text-base">
+                    {meetingType.duration_minutes} minutos
+                    {meetingType.description && ` · ${meetingType.description}`}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h1 className="text-2xl sm:text-3xl lg:text-4xl font-semibold text-slate-900 mb-3 tracking-tight">
+                    Selecciona una fecha y hora
+                  </h1>
+                  <p className="text-slate-600 text-sm sm:text-base">
+                    Elige el horario que mejor te convenga para tu reunión
+                  </p>
+                </>
+              )}
+              <div className="mt-4 flex justify-center">
+                <TimeZoneSelect
+                  value={timeZone}
+                  onChange={setSelectedTimeZone}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Contenedor principal con glassmorphism */}
+          <div className="relative bg-white/40 backdrop-blur-2xl rounded-3xl sm:rounded-4xl border border-white/50 shadow-2xl shadow-blue-900/10 overflow-hidden">
+            {/* Degradados internos premium */}
+            <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-3xl sm:rounded-4xl" />
+            
+            {/* Contenido principal con paddings adecuados */}
+            <div className="relative px-8 sm:px-10 lg:px-14 py-10 sm:py-12 lg:py-14">
+              {!showBookingForm ? (
+                <DateTimePicker
+                  slots={slots}
+                  onSlotClick={handleSlotClick}
+                  selectedSlot={selectedSlot || undefined}
+                  loading={loading}
+                  onNextClick={handleNextClick}
+                  timeZone={timeZone}
+                  hostTimeZone={hostTimeZone}
+                  minDate={bookingWindow?.minDate}
+                  maxDate={bookingWindow?.maxDate}
+                />
+              ) : (
+                <BookingForm
+                  slotStart={new Date(selectedSlot?.start || '')}
+                  slotEnd={new Date(selectedSlot?.end || '')}
+                  timeZone={timeZone}
+                  hostTimeZone={hostTimeZone}
+                  hostId={hostId}
+                  meetingTypeId={meetingTypeId}
+                  onSuccess={handleBookingSuccess}
+                  onCancel={handleBackClick}
+                  showAsPage={true}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,589 @@
+/**
+ * BookingsManager Component
+ * Paginated, filterable list of bookings with a detail drawer, of the admin
+ * or of their whole team
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { addDays } from 'date-fns';
+import { getBookings } from '@/actions/events';
+import { getBookingStatusHistory, updateBookingStatus } from '@/actions/bookings';
+import type {
+  BookingStatus,
+  BookingStatusChange,
+  CalendarScope,
+  EventType,
+  EventWithBooking,
+  PaginatedResponse,
+} from '@/types/database';
+import { BOOKING_STATUS_TRANSITIONS } from '@/types/database';
+import type { GetBookingsQuery, UpdateBookingStatusInput } from '@/utils/validations';
+import toast from 'react-hot-toast';
+
+type StatusAction = UpdateBookingStatusInput['status'];
+
+interface BookingsManagerProps {
+  scope?: CalendarScope;
+  userId?: string | null;
+  hostNames?: Record<string, string>; // user id -> name, labels team bookings
+  canManageTeam?: boolean; // owners and admins handle teammates' bookings too
+}
+type When = NonNullable<GetBookingsQuery['when']>;
+type SortBy = NonNullable<GetBookingsQuery['sort_by']>;
+type SortDir = NonNullable<GetBookingsQuery['sort_dir']>;
+
+interface Filters {
+  status: BookingStatus | '';
+  event_type: EventType | '';
+  when: When;
+  from: string; // 'yyyy-MM-dd', local
+  to: string;
+  sort: `${SortBy}:${SortDir}`;
+}
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const DEFAULT_FILTERS: Filters = {
+  status: '',
+  event_type: 'booking',
+  when: 'upcoming',
+  from: '',
+  to: '',
+  sort: 'start_time:asc',
+};
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+  confirmed: 'Confirmada',
+  cancelled: 'Cancelada',
+  completed: 'Completada',
+  no_show: 'No asistió',
+};
+
+// Button label for moving a booking to each status
+const STATUS_ACTIONS: Record<StatusAction, string> = {
+  cancelled: 'Cancelar reserva',
+  completed: 'Marcar completada',
+  no_show: 'Marcar ausente',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  confirmed: 'bg-green-400/30 text-green-700 border-green-300/50',
+  cancelled: 'bg-red-400/20 text-red-700 border-red-300/50',
+  completed: 'bg-slate-300/30 text-slate-700 border-slate-300/50',
+  no_show: 'bg-amber-400/25 text-amber-800 border-amber-300/60',
+};
+
+const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  booking: 'Reserva',
+  meeting: 'Reunión',
+  block: 'Bloqueo',
+  personal: 'Personal',
+};
+
+const SORT_OPTIONS: { value: Filters['sort']; label: string }[] = [
+  { value: 'start_time:asc', label: 'Fecha (más próximas primero)' },
+  { value: 'start_time:desc', label: 'Fecha (más lejanas primero)' },
+  { value: 'created_at:desc', label: 'Creadas recientemente' },
+  { value: 'title:asc', label: 'Título (A-Z)' },
+];
+
+const selectClass =
+  'h-10 px-3 rounded-xl border border-slate-200 bg-white/70 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
+// Local calendar date -> ISO instant at its local midnight
+const dateInputToIso = (date: string, dayOffset = 0) => addDays(new Date(`${date}T00:00`), dayOffset).toISOString();
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('es-AR', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' });
+
+export default function BookingsManager({
+  scope = 'own',
+  userId = null,
+  hostNames = {},
+  canManageTeam = false,
+}: BookingsManagerProps) {
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [result, setResult] = useState<{ key: string; page: PaginatedResponse<EventWithBooking> | null } | null>(null);
+  const [selected, setSelected] = useState<EventWithBooking | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [history, setHistory] = useState<{ key: string; changes: BookingStatusChange[] } | null>(null);
+
+  const [sortBy, sortDir] = filters.sort.split(':') as [SortBy, SortDir];
+  const query: GetBookingsQuery = {
+    page,
+    page_size: PAGE_SIZE,
+    status: filters.status || undefined,
+    event_type: filters.event_type || undefined,
+    when: filters.when,
+    from: filters.from ? dateInputToIso(filters.from) : undefined,
+    to: filters.to ? dateInputToIso(filters.to, 1) : undefined,
+    search: search || undefined,
+    sort_by: sortBy,
+    sort_dir: sortDir,
+  };
+  const queryJson = JSON.stringify(query);
+  const queryKey = `${queryJson}|${scope}|${reloadToken}`;
+
+  // Debounce the free-text search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    const key = `${queryJson}|${scope}|${reloadToken}`;
+
+    getBookings(JSON.parse(queryJson) as GetBookingsQuery, scope)
+      .then((response) => {
+        if (!response.success) {
+          toast.error(response.error || 'Error al cargar las reservas');
+        }
+        setResult({ key, page: response.data ?? null });
+      })
+      .catch(() => {
+        toast.error('Error al cargar las reservas');
+        setResult({ key, page: null });
+      });
+  }, [queryJson, scope, reloadToken]);
+
+  // Status history of the booking open in the drawer
+  const historyKey = selected?.booking ? `${selected.booking.id}|${selected.booking.status}` : null;
+
+  useEffect(() => {
+    if (!historyKey) return;
+
+    getBookingStatusHistory(historyKey.split('|')[0])
+      .then((response) => {
+        setHistory({ key: historyKey, changes: response.data ?? [] });
+      })
+      .catch((error) => {
+        console.error('Load booking history error:', error);
+      });
+  }, [historyKey]);
+
+  const canChangeSelected = !!selected && (scope === 'own' || selected.created_by === userId || canManageTeam);
+  const statusActions = selected?.booking && canChangeSelected
+    ? (BOOKING_STATUS_TRANSITIONS[selected.booking.status as BookingStatus] ?? []).filter(
+        (status): status is StatusAction => status in STATUS_ACTIONS
+      )
+    : [];
+
+  const loading = result?.key !== queryKey;
+  const rows = result?.page?.data ?? [];
+  const total = result?.page?.total ?? 0;
+  const firstRow = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastRow = Math.min(page * PAGE_SIZE, total);
+
+  const updateFilter = <K extends keyof Filters>(field: K, value: Filters[K]) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+    setPage(1);
+  };
+
+  const resetFilters = () => {
+    setFilters(DEFAULT_FILTERS);
+    setSearchInput('');
+    setSearch('');
+    setPage(1);
+  };
+
+  const openDrawer = (event: EventWithBooking) => {
+    setSelected(event);
+    setStatusReason('');
+  };
+
+  const handleStatusChange = async (event: EventWithBooking, status: StatusAction) => {
+    if (!event.booking) return;
+    if (status === 'cancelled' && !confirm('¿Cancelar esta reserva? El horario quedará libre para otras reservas.')) {
+      return;
+    }
+
+    setChangingStatus(true);
+    try {
+      const response = await updateBookingStatus({
+        id: event.booking.id,
+        status,
+        reason: statusReason.trim() || null,
+      });
+      if (response.success) {
+        toast.success(`Reserva actualizada: ${STATUS_LABELS[status].toLowerCase()}`);
+        setSelected({
+          ...event,
+          booking: { ...event.booking, status, status_reason: statusReason.trim() || null },
+        });
+        setStatusReason('');
+        setReloadToken((token) => token + 1);
+      } else {
+        toast.error(response.error || 'Error al actualizar la reserva');
+      }
+    } catch (error) {
+      console.error('Update booking status error:', error);
+      toast.error('Error al actualizar la reserva');
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  return (
+    <div className="relative bg-white/40 backdrop-blur-md rounded-2xl border border-white/50 shadow-lg shadow-blue-900/10 overflow-hidden">
+      <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-2xl" />
+
+      {/* Filters */}
+      <div className="relative px-6 py-5 border-b border-white/30 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-slate-900 tracking-tight">Reservas</h2>
+          <button
+            onClick={resetFilters}
+            className="text-sm text-slate-600 hover:text-blue-600 transition-colors"
+          >
+            Limpiar filtros
+          </button>
+        </div>
+
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Buscar por nombre, email o notas"
+          maxLength={100}
+          className={`${selectClass} w-full`}
+        />
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+          <select
+            value={filters.when}
+            onChange={(e) => updateFilter('when', e.target.value as When)}
+            className={selectClass}
+            aria-label="Período"
+          >
+            <option value="upcoming">Próximas</option>
+            <option value="past">Pasadas</option>
+            <option value="all">Todas</option>
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) => updateFilter('status', e.target.value as Filters['status'])}
+            className={selectClass}
+            aria-label="Estado"
+          >
+            <option value="">Todos los estados</option>
+            {(Object.keys(STATUS_LABELS) as BookingStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.event_type}
+            onChange={(e) => updateFilter('event_type', e.target.value as Filters['event_type'])}
+            className={selectClass}
+            aria-label="Tipo de evento"
+          >
+            <option value="">Todos los tipos</option>
+            {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map((type) => (
+              <option key={type} value={type}>
+                {EVENT_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={selectClass}
+            aria-label="Desde"
+            title="Desde"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={selectClass}
+            aria-label="Hasta"
+            title="Hasta"
+          />
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilter('sort', e.target.value as Filters['sort'])}
+            className={selectClass}
+            aria-label="Ordenar"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Results */}
+      {loading && !result ? (
+        <div className="relative p-12 text-center text-slate-500">
+          <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-slate-300 border-t-blue-600 mb-2" />
+          <p>Cargando reservas...</p>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="relative p-12 text-center text-slate-500">
+          <p className="font-medium">No hay reservas que coincidan</p>
+          <p className="text-sm mt-1">Probá con otros filtros</p>
+        </div>
+      ) : (
+        <div className={`relative overflow-x-auto transition-opacity ${loading ? 'opacity-60' : ''}`}>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-semibold text-slate-600 uppercase border-b border-white/30">
+                <th className="px-6 py-3">Fecha</th>
+                <th className="px-6 py-3">Horario</th>
+                <th className="px-6 py-3">Cliente / Título</th>
+                <th className="px-6 py-3 hidden md:table-cell">Email</th>
+                <th className="px-6 py-3">Estado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/20">
+              {rows.map((event) => (
+                <tr
+                  key={event.id}
+                  onClick={() => openDrawer(event)}
+                  className="cursor-pointer hover:bg-white/30 transition-colors duration-200"
+                >
+                  <td className="px-6 py-3 text-slate-700 capitalize whitespace-nowrap">{formatDate(event.start_time)}</td>
+                  <td className="px-6 py-3 text-blue-600 font-medium whitespace-nowrap">
+                    {formatTime(event.start_time)} - {formatTime(event.end_time)}
+                  </td>
+                  <td className="px-6 py-3 text-slate-900 font-medium">
+                    {event.booking?.name ?? event.title}
+                    {event.event_type !== 'booking' && (
+                      <span className="ml-2 text-xs text-slate-500">{EVENT_TYPE_LABELS[event.event_type as EventType]}</span>
+                    )}
+                    {scope === 'team' && (
+                      <span className="block text-xs font-normal text-slate-500">
+                        {(event.created_by && hostNames[event.created_by]) || 'Miembro'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-slate-600 hidden md:table-cell">{event.booking?.email ?? '—'}</td>
+                  <td className="px-6 py-3">
+                    {event.booking ? (
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold border ${
+                          STATUS_STYLES[event.booking.status] ?? STATUS_STYLES.completed
+                        }`}
+                      >
+                        {STATUS_LABELS[event.booking.status as BookingStatus] ?? event.booking.status}
+                      </span>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="relative px-6 py-4 border-t border-white/30 flex items-center justify-between text-sm text-slate-600">
+        <span>
+          {total > 0 ? `Mostrando ${firstRow}–${lastRow} de ${total}` : 'Sin resultados'}
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page === 1 || loading}
+            className="px-3 py-1.5 bg-white/50 border border-white/50 rounded-lg hover:bg-white/70 disabled:opacity-50 transition-all duration-300"
+          >
+            Anterior
+          </button>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={!result?.page?.hasMore || loading}
+            className="px-3 py-1.5 bg-white/50 border border-white/50 rounded-lg hover:bg-white/70 disabled:opacity-50 transition-all duration-300"
+          >
+            Siguiente
+          </button>
+        </div>
+      </div>
+
+      {/* Detail drawer */}
+      {selected && (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/30 backdrop-blur-sm" onClick={() => setSelected(null)}>
+          <aside
+            onClick={(e) => e.stopPropagation()}
+            className="relative h-full w-full max-w-md bg-white/80 backdrop-blur-2xl border-l border-white/60 shadow-2xl p-8 overflow-y-auto"
+          >
+            <div className="flex items-start justify-between gap-4 mb-6">
+              <div>
+                <p className="text-xs font-semibold text-slate-500 uppercase">
+                  {EVENT_TYPE_LABELS[selected.event_type as EventType]}
+                </p>
+                <h3 className="text-xl font-semibold text-slate-900">{selected.title}</h3>
+              </div>
+              <button
+                onClick={() => setSelected(null)}
+                className="p-2 text-slate-400 hover:text-slate-700 rounded-lg transition-colors"
+                title="Cerrar"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <dl className="space-y-4 text-sm">
+              {scope === 'team' && (
+                <div>
+                  <dt className="text-slate-500">Anfitrión</dt>
+                  <dd className="text-slate-900 font-medium">{(selected.created_by && hostNames[selected.created_by]) || 'Miembro'}</dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-slate-500">Fecha</dt>
+                <dd className="text-slate-900 font-medium capitalize">{formatDate(selected.start_time)}</dd>
+              </div>
+              <div>
+                <dt className="text-slate-500">Horario</dt>
+                <dd className="text-slate-900 font-medium">
+                  {formatTime(selected.start_time)} - {formatTime(selected.end_time)}
+                </dd>
+              </div>
+              {selected.description && (
+                <div>
+                  <dt className="text-slate-500">Descripción</dt>
+                  <dd className="text-slate-900 whitespace-pre-line">{selected.description}</dd>
+                </div>
+              )}
+              {selected.booking && (
+                <>
+                  <div>
+                    <dt className="text-slate-500">Estado</dt>
+                    <dd>
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold border ${
+                          STATUS_STYLES[selected.booking.status] ?? STATUS_STYLES.completed
+                        }`}
+                      >
+                        {STATUS_LABELS[selected.booking.status as BookingStatus] ?? selected.booking.status}
+                      </span>
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Nombre</dt>
+                    <dd className="text-slate-900 font-medium">{selected.booking.name}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Email</dt>
+                    <dd>
+                      <a href={`mailto:${selected.booking.email}`} className="text-blue-600 hover:underline">
+                        {selected.booking.email}
+                      </a>
+                    </dd>
+                  </div>
+                  {selected.booking.phone && (
+                    <div>
+                      <dt className="text-slate-500">Teléfono</dt>
+                      <dd>
+                        <a href={`tel:${selected.booking.phone}`} className="text-slate-900 hover:underline">
+                          {selected.booking.phone}
+                        </a>
+                      </dd>
+                    </div>
+                  )}
+                  {selected.booking.notes && (
+                    <div>
+                      <dt className="text-slate-500">Notas</dt>
+                      <dd className="text-slate-900 whitespace-pre-line">{selected.booking.notes}</dd>
+                    </div>
+                  )}
+                </>
+              )}
+            </dl>
+
+            {selected.booking && (
+              <div className="pt-6 mt-6 border-t border-slate-200/60 space-y-3">
+                {selected.booking.status_reason && (
+                  <p className="text-sm text-slate-600">
+                    <span className="text-slate-500">Motivo: </span>
+                    {selected.booking.status_reason}
+                  </p>
+                )}
+
+                {statusActions.length > 0 && (
+                  <>
+                    <textarea
+                      value={statusReason}
+                      onChange={(e) => setStatusReason(e.target.value)}
+                      rows={2}
+                      maxLength={500}
+                      placeholder="Motivo (opcional)"
+                      className="w-full rounded-xl border border-slate-200 bg-white/70 px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none"
+                      disabled={changingStatus}
+                    />
+                    <div className="flex flex-col gap-2">
+                      {statusActions.map((status) => (
+                        <button
+                          key={status}
+                          onClick={() => handleStatusChange(selected, status)}
+                          disabled={changingStatus}
+                          className={`w-full px-4 py-2.5 text-sm font-medium rounded-lg border disabled:opacity-50 transition-all duration-300 ${
+                            status === 'cancelled'
+                              ? 'text-red-700 bg-red-400/20 border-red-300/60 hover:bg-red-400/30'
+                              : 'text-slate-700 bg-white/50 border-white/60 hover:bg-white/70 hover:border-blue-300/50'
+                          }`}
+                        >
+                          {STATUS_ACTIONS[status]}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {/* History */}
+                <div className="pt-3">
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">Historial</h4>
+                  {history?.key !== historyKey ? (
+                    <p className="text-sm text-slate-400">Cargando...</p>
+                  ) : history.changes.length === 0 ? (
+                    <p className="text-sm text-slate-400">Sin cambios registrados</p>
+                  ) : (
+                    <ol className="space-y-2 text-sm">
+                      {history.changes.map((change) => (
+                        <li key={change.id} className="flex flex-col">
+                          <span className="text-slate-900">
+                            {change.from_status
+                              ? `${STATUS_LABELS[change.from_status as BookingStatus] ?? change.from_status} → ${
+                                  STATUS_LABELS[change.to_status as BookingStatus] ?? change.to_status
+                                }`
+                              : `Creada (${STATUS_LABELS[change.to_status as BookingStatus] ?? change.to_status})`}
+                          </span>
+                          <span className="text-xs text-slate-500">
+                            {formatDate(change.created_at)} {formatTime(change.created_at)}
+                            {change.reason && ` · ${change.reason}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </div>
+            )}
+          </aside>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
 } from 'date-fns';
 import { es } from 'date-fns/locale';
 import type { TimeSlot } from '@/types/database';
+import { getDateKeyInTimeZone } from '@/utils/dateHelpers';
 
 type CalendarSize = 'md' | 'lg';
 
@@ -24,12 +25,13 @@ interface CalendarProps {
   onMonthChange: (nextMonth: Date) => void;
 
   slots: TimeSlot[];
+  timeZone: string; // zone used to decide which day each slot falls on
   selectedDate?: Date;
   onSelectDate: (date: Date) => void;
 
   weekStartsOn?: 0 | 1; // default 1 (lunes)
   size?: CalendarSize; // default lg
-   minDate?: Date;  // Add this
+  minDate?: Date; // days with no slot inside [minDate, maxDate] are disabled
   maxDate?: Date;
 }
 
@@ -37,27 +39,27 @@ export default function Calendar({
   currentMonth,
   onMonthChange,
   slots,
+  timeZone,
   selectedDate,
   onSelectDate,
   weekStartsOn = 1,
   size = 'lg',
+  minDate,
+  maxDate,
 }: CalendarProps) {
-  const today = new Date();
-  const now = new Date();
-  const minDate = new Date(now.getTime() + 12 * 60 * 60 * 1000);
-  const maxDate = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  const todayKey = getDateKeyInTimeZone(new Date(), timeZone);
   // Map de disponibilidad por día
   const availableByDay = useMemo(() => {
-  const map = new Map<string, number>();
-  for (const s of slots) {
-    if (!s.available) continue;
-    const slotDate = new Date(s.start);
-    if (slotDate < minDate || slotDate > maxDate) continue;
-    const key = format(startOfDay(slotDate), 'yyyy-MM-dd');
-    map.set(key, (map.get(key) || 0) + 1);
-  }
-  return map;
-}, [slots]);
+    const map = new Map<string, number>();
+    for (const s of slots) {
+      if (!s.available) continue;
+      const slotDate = new Date(s.start);
+      if ((minDate && slotDate < minDate) || (maxDate && slotDate > maxDate)) continue;
+      const key = getDateKeyInTimeZone(slotDate, timeZone);
+      map.set(key, (map.get(key) || 0) + 1);
+    }
+    return map;
+  }, [slots, timeZone, minDate, maxDate]);
 
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
@@ -193,7 +195,7 @@ export default function Calendar({
             const disabled = !inMonth || !hasAvailability;
 
             const isSelected = !!selectedDate && isSameDay(day, selectedDate);
-            const isToday = isSameDay(day, today);
+            const isToday = dayKey === todayKey;
 
             // Enhanced glassmorphism styling
             let styling = '';
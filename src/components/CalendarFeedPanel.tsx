@@ -0,0 +1,212 @@
+/**
+ * CalendarFeedPanel Component
+ * Admin panel for the private iCalendar feed: subscription URL, what it
+ * includes and rotating its secret
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  deleteCalendarFeed,
+  getCalendarFeed,
+  rotateCalendarFeedToken,
+  saveCalendarFeedOptions,
+} from '@/actions/settings';
+import type { CalendarFeed } from '@/types/database';
+import toast from 'react-hot-toast';
+
+export default function CalendarFeedPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  const loadFeed = async () => {
+    setLoading(true);
+    try {
+      const result = await getCalendarFeed();
+      if (result.success) {
+        setFeed(result.data ?? null);
+      } else {
+        toast.error(result.error || 'Error al cargar el calendario');
+      }
+    } catch (error) {
+      console.error('Load feed error:', error);
+      toast.error('Error al cargar el calendario');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (feed && !confirm('Las suscripciones con el enlace actual dejarán de actualizarse. ¿Generar uno nuevo?')) {
+      return;
+    }
+
+    setSaving(true);
+    const result = await rotateCalendarFeedToken();
+    setSaving(false);
+
+    if (result.success && result.data) {
+      setFeed(result.data);
+      toast.success(feed ? 'Enlace regenerado' : 'Calendario activado');
+    } else {
+      toast.error(result.error || 'Error al generar el enlace');
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Las suscripciones existentes dejarán de funcionar. ¿Desactivar el calendario?')) {
+      return;
+    }
+
+    setSaving(true);
+    const result = await deleteCalendarFeed();
+    setSaving(false);
+
+    if (result.success) {
+      setFeed(null);
+      toast.success('Calendario desactivado');
+    } else {
+      toast.error(result.error || 'Error al desactivar');
+    }
+  };
+
+  const handleOptionChange = async (option: 'include_private' | 'include_attendees', value: boolean) => {
+    if (!feed) return;
+
+    const previous = feed;
+    const next = { ...feed, [option]: value };
+    setFeed(next);
+
+    const result = await saveCalendarFeedOptions({
+      include_private: next.include_private,
+      include_attendees: next.include_attendees,
+    });
+    if (!result.success) {
+      setFeed(previous);
+      toast.error(result.error || 'Error al guardar');
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Enlace copiado');
+    } catch {
+      toast.error('No se pudo copiar el enlace');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Suscripción de calendario</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Mirá tus eventos y reservas en Google Calendar, Apple Calendar u Outlook
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {!feed ? (
+          <button
+            onClick={handleRotate}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Activando...' : 'Activar calendario suscribible'}
+          </button>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Enlace privado
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900 bg-gray-50 font-mono"
+                />
+                <button
+                  type="button"
+                  onClick={() => copyUrl(feed.url)}
+                  className="px-3 h-10 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Copiar
+                </button>
+                <a
+                  href={feed.webcalUrl}
+                  className="px-3 h-10 inline-flex items-center rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Abrir
+                </a>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Cualquiera con este enlace puede ver tu agenda. No lo compartas.
+              </p>
+            </div>
+
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={feed.include_private}
+                onChange={(e) => handleOptionChange('include_private', e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">Incluir eventos privados y personales</span>
+                <span className="block text-xs text-gray-500">Si no, esos eventos no aparecen en la suscripción</span>
+              </span>
+            </label>
+
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={feed.include_attendees}
+                onChange={(e) => handleOptionChange('include_attendees', e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">Incluir datos de los visitantes</span>
+                <span className="block text-xs text-gray-500">
+                  Nombre, email, teléfono y notas de cada reserva. Si no, las reservas aparecen como &quot;Reserva&quot;
+                </span>
+              </span>
+            </label>
+
+            <div className="pt-4 border-t border-gray-100 flex flex-wrap gap-2">
+              <button
+                onClick={handleRotate}
+                disabled={saving}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                Regenerar enlace
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={saving}
+                className="px-4 py-2 text-red-600 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50 transition-colors"
+              >
+                Desactivar
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
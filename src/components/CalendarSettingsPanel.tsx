@@ -4,7 +4,7 @@
  */
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   getCalendarSettings,
   saveCalendarSettings,
@@ -12,24 +12,55 @@ import {
   saveSchedule,
 } from '@/actions/settings';
 import type { CalendarSettings, DaySchedule } from '@/types/database';
-import { DAY_NAMES } from '@/types/database';
+import { DAY_NAMES, DEFAULT_SETTINGS } from '@/types/database';
+import { getTimeZoneOptions } from '@/utils/dateHelpers';
+import { weeklyScheduleSchema } from '@/utils/validations';
+import TimeIntervalsEditor from './TimeIntervalsEditor';
 import toast from 'react-hot-toast';
 
+// Minutes before the booking
+const REMINDER_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 10080, label: '1 semana' },
+  { minutes: 2880, label: '2 días' },
+  { minutes: 1440, label: '24 horas' },
+  { minutes: 120, label: '2 horas' },
+  { minutes: 60, label: '1 hora' },
+  { minutes: 30, label: '30 minutos' },
+  { minutes: 15, label: '15 minutos' },
+];
+
+const formatReminderOffset = (minutes: number): string =>
+  REMINDER_OPTIONS.find((option) => option.minutes === minutes)?.label ?? `${minutes} minutos`;
+
 export default function CalendarSettingsPanel() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   
   // Settings state
-  const [settings, setSettings] = useState<Omit<CalendarSettings, 'id' | 'user_id'>>({
-    slot_duration: 30,
-    buffer_time: 0,
-    advance_booking_days: 60,
-    min_notice_hours: 12,
-  });
+  const [settings, setSettings] = useState<Omit<CalendarSettings, 'id' | 'user_id'>>(DEFAULT_SETTINGS);
   
   // Schedule state
   const [schedule, setSchedule] = useState<DaySchedule[]>([]);
 
+  const timeZones = useMemo(() => {
+    const zones = getTimeZoneOptions();
+    // Keep a saved zone selectable even if this browser doesn't list it
+    return zones.includes(settings.timezone) ? zones : [settings.timezone, ...zones];
+  }, [settings.timezone]);
+
+  // Keep saved offsets selectable even if they aren't one of the presets
+  const reminderOptions = useMemo(() => {
+    const minutes = new Set([...REMINDER_OPTIONS.map((option) => option.minutes), ...settings.reminder_offsets]);
+    return [...minutes].sort((a, b) => b - a);
+  }, [settings.reminder_offsets]);
+
+  const toggleReminder = (minutes: number) => {
+    const offsets = settings.reminder_offsets.includes(minutes)
+      ? settings.reminder_offsets.filter((offset) => offset !== minutes)
+      : [...settings.reminder_offsets, minutes].sort((a, b) => b - a);
+    setSettings({ ...settings, reminder_offsets: offsets });
+  };
+
   useEffect(() => {
     loadData();
   }, []);
@@ -75,6 +106,11 @@ export default function CalendarSettingsPanel() {
   };
 
   const handleSaveSchedule = async () => {
+    if (scheduleErrors.size > 0) {
+      toast.error('Revisá los horarios marcados antes de guardar');
+      return;
+    }
+
     setSaving(true);
     try {
       const result = await saveSchedule(schedule);
@@ -90,14 +126,40 @@ export default function CalendarSettingsPanel() {
     }
   };
 
-  const updateDaySchedule = (dayIndex: number, field: keyof DaySchedule, value: any) => {
+  const updateDay = (dayIndex: number, update: (day: DaySchedule) => DaySchedule) => {
     setSchedule((prev) =>
-      prev.map((day, i) =>
-        i === dayIndex ? { ...day, [field]: value } : day
-      )
+      prev.map((day, i) => (i === dayIndex ? update(day) : day))
     );
   };
 
+  const toggleDay = (dayIndex: number, isActive: boolean) => {
+    updateDay(dayIndex, (day) => ({
+      ...day,
+      is_active: isActive,
+      intervals: isActive && day.intervals.length === 0
+        ? [{ start_time: '09:00', end_time: '18:00' }]
+        : day.intervals,
+    }));
+  };
+
+  // Field errors from the same schema the server validates with, keyed by day index
+  const scheduleErrors = useMemo(() => {
+    const errors = new Map<number, { message: string; intervalIndex?: number }>();
+    const validation = weeklyScheduleSchema.safeParse(schedule);
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        const [dayIndex, , intervalIndex] = issue.path;
+        if (typeof dayIndex === 'number' && !errors.has(dayIndex)) {
+          errors.set(dayIndex, {
+            message: issue.message,
+            intervalIndex: typeof intervalIndex === 'number' ? intervalIndex : undefined,
+          });
+        }
+      }
+    }
+    return errors;
+  }, [schedule]);
+
   if (loading) {
     return (
       <div className="p-6 flex items-center justify-center">
@@ -200,6 +262,79 @@ export default function CalendarSettingsPanel() {
                 Tiempo mínimo antes de la reunión para poder reservar
               </p>
             </div>
+
+            {/* Cancellation cutoff */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Cancelar o reprogramar hasta
+              </label>
+              <select
+                value={settings.cancellation_cutoff_hours}
+                onChange={(e) => setSettings({ ...settings, cancellation_cutoff_hours: Number(e.target.value) })}
+                className="w-full h-10 px-3 rounded-lg border border-gray-300 text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={0}>Hasta el inicio</option>
+                <option value={1}>1 hora antes</option>
+                <option value={2}>2 horas antes</option>
+                <option value={4}>4 horas antes</option>
+                <option value={12}>12 horas antes</option>
+                <option value={24}>24 horas antes</option>
+                <option value={48}>48 horas antes</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Límite para que los visitantes cambien su reserva desde su enlace
+              </p>
+            </div>
+          </div>
+
+          {/* Timezone */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Zona horaria
+            </label>
+            <select
+              value={settings.timezone}
+              onChange={(e) => setSettings({ ...settings, timezone: e.target.value })}
+              className="w-full h-10 px-3 rounded-lg border border-gray-300 text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Los horarios laborales se interpretan en esta zona horaria
+            </p>
+          </div>
+
+          {/* Reminders */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Recordatorios por email
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {reminderOptions.map((minutes) => {
+                const active = settings.reminder_offsets.includes(minutes);
+                return (
+                  <button
+                    key={minutes}
+                    type="button"
+                    onClick={() => toggleReminder(minutes)}
+                    className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      active
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {formatReminderOffset(minutes)} antes
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Se envían a los visitantes con reservas confirmadas (máximo 5)
+            </p>
           </div>
 
           <div className="pt-4 border-t border-gray-100">
@@ -226,45 +361,36 @@ export default function CalendarSettingsPanel() {
             {schedule.map((day, index) => (
               <div
                 key={day.day_of_week}
-                className={`flex items-center gap-4 p-3 rounded-lg border transition-colors ${
+                className={`flex items-start gap-4 p-3 rounded-lg border transition-colors ${
                   day.is_active
                     ? 'border-blue-200 bg-blue-50/50'
                     : 'border-gray-200 bg-gray-50'
                 }`}
               >
                 {/* Toggle */}
-                <label className="relative inline-flex items-center cursor-pointer">
+                <label className="relative inline-flex items-center cursor-pointer mt-1.5">
                   <input
                     type="checkbox"
                     checked={day.is_active}
-                    onChange={(e) => updateDaySchedule(index, 'is_active', e.target.checked)}
+                    onChange={(e) => toggleDay(index, e.target.checked)}
                     className="sr-only peer"
                   />
                   <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
                 </label>
 
                 {/* Day Name */}
-                <div className="w-24 font-medium text-gray-900">
+                <div className="w-24 font-medium text-gray-900 leading-9">
                   {DAY_NAMES[day.day_of_week]}
                 </div>
 
-                {/* Time Inputs */}
+                {/* Time Windows */}
                 {day.is_active ? (
-                  <div className="flex items-center gap-2 flex-1">
-                    <input
-                      type="time"
-                      value={day.start_time}
-                      onChange={(e) => updateDaySchedule(index, 'start_time', e.target.value)}
-                      className="h-9 px-3 rounded-lg border border-gray-300 text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    />
-                    <span className="text-gray-500">a</span>
-                    <input
-                      type="time"
-                      value={day.end_time}
-                      onChange={(e) => updateDaySchedule(index, 'end_time', e.target.value)}
-                      className="h-9 px-3 rounded-lg border border-gray-300 text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    />
-                  </div>
+                  <TimeIntervalsEditor
+                    intervals={day.intervals}
+                    onChange={(intervals) => updateDay(index, (d) => ({ ...d, intervals }))}
+                    error={scheduleErrors.get(index)?.message}
+                    errorIndex={scheduleErrors.get(index)?.intervalIndex}
+                  />
                 ) : (
                   <div className="flex-1 text-gray-400 text-sm">
                     No disponible
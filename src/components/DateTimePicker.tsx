@@ -1,9 +1,10 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { format, startOfDay, isSameDay } from 'date-fns';
+import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import type { TimeSlot } from '@/types/database';
+import { formatInTimeZone, getDateKeyInTimeZone, getTimeZoneLabel } from '@/utils/dateHelpers';
 import Calendar from './Calendar';
 import * as ScrollArea from '@radix-ui/react-scroll-area';
 
@@ -13,6 +14,11 @@ interface DateTimePickerProps {
   onSlotClick: (slot: TimeSlot) => void;
   onNextClick: () => void;
   loading?: boolean;
+  timeZone: string; // zone the visitor wants times displayed in
+  hostTimeZone: string;
+  // Booking window from the host's settings (min notice / advance days)
+  minDate?: Date;
+  maxDate?: Date;
 }
 
 export default function DateTimePicker({
@@ -21,34 +27,34 @@ export default function DateTimePicker({
   onSlotClick,
   onNextClick,
   loading = false,
+  timeZone,
+  hostTimeZone,
+  minDate,
+  maxDate,
 }: DateTimePickerProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
 
-  // Ventana: desde +12h hasta +7d
-  const { minDate, maxDate } = useMemo(() => {
-    const now = new Date();
-    return {
-      minDate: new Date(now.getTime() + 12 * 60 * 60 * 1000),
-      maxDate: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000),
-    };
-  }, []);
-
   const selectedDateSlots = useMemo(() => {
     if (!selectedDate) return [] as TimeSlot[];
-    const target = startOfDay(selectedDate);
+    // Grid cells are plain calendar days; slots belong to the day they fall on in the visitor's zone
+    const target = format(selectedDate, 'yyyy-MM-dd');
 
     return slots
       .filter((s) => s.available)
       .filter((s) => {
         const slotTime = new Date(s.start);
-        if (slotTime < minDate || slotTime > maxDate) return false;
+        if ((minDate && slotTime < minDate) || (maxDate && slotTime > maxDate)) return false;
 
-        const slotDay = startOfDay(slotTime);
-        return isSameDay(slotDay, target);
+        return getDateKeyInTimeZone(slotTime, timeZone) === target;
       })
       .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
-  }, [selectedDate, slots, minDate, maxDate]);
+  }, [selectedDate, slots, minDate, maxDate, timeZone]);
+
+  const showHostTime = timeZone !== hostTimeZone;
+
+  const hostTimeLabel = (slot: TimeSlot) =>
+    formatInTimeZone(slot.start, 'HH:mm', hostTimeZone);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-[60%_40%] gap-10 items-start">
@@ -58,12 +64,11 @@ export default function DateTimePicker({
           currentMonth={currentMonth}
           onMonthChange={setCurrentMonth}
           slots={slots}
+          timeZone={timeZone}
           selectedDate={selectedDate}
           onSelectDate={(d: Date) => setSelectedDate(d)}
           weekStartsOn={1}
           size="lg"
-          // Si tu Calendar soporta este filtro, genial; si no, no pasa nada.
-          // Si NO existe en tu CalendarProps, borrá estas 2 líneas:
           minDate={minDate}
           maxDate={maxDate}
         />
@@ -76,6 +81,11 @@ export default function DateTimePicker({
             <h3 className="text-base font-semibold text-slate-900 capitalize">
               {format(selectedDate, 'EEEE, d MMMM', { locale: es })}
             </h3>
+            {showHostTime && (
+              <p className="text-xs text-slate-500">
+                Horarios en {getTimeZoneLabel(timeZone)} · anfitrión en {getTimeZoneLabel(hostTimeZone)}
+              </p>
+            )}
 
             {loading ? (
               <div className="py-10 text-center">
@@ -91,8 +101,13 @@ export default function DateTimePicker({
                       if (isSelected) {
                         return (
                           <div key={String(slot.start)} className="grid grid-cols-2 gap-2">
-                            <div className="h-10 rounded-lg bg-slate-600 text-white text-sm font-semibold flex items-center justify-center">
-                              {format(new Date(slot.start), 'HH:mm')}
+                            <div className="h-10 rounded-lg bg-slate-600 text-white text-sm font-semibold flex items-center justify-center gap-2">
+                              {formatInTimeZone(slot.start, 'HH:mm', timeZone)}
+                              {showHostTime && (
+                                <span className="text-xs font-normal text-white/70">
+                                  ({hostTimeLabel(slot)})
+                                </span>
+                              )}
                             </div>
                             <button
                               type="button"
@@ -112,7 +127,12 @@ export default function DateTimePicker({
                           type="button"
                           className="h-10 w-full rounded-lg border border-slate-200 bg-white text-slate-700 text-sm font-medium hover:bg-slate-50 transition-colors"
                         >
-                          {format(new Date(slot.start), 'HH:mm')}
+                          {formatInTimeZone(slot.start, 'HH:mm', timeZone)}
+                          {showHostTime && (
+                            <span className="ml-2 text-xs font-normal text-slate-400">
+                              ({hostTimeLabel(slot)} anfitrión)
+                            </span>
+                          )}
                         </button>
                       );
                     })}
@@ -0,0 +1,482 @@
+/**
+ * EventForm Component
+ * Create/edit modal for admin events (one-off, recurring, or a single occurrence)
+ */
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { addMinutes, differenceInMinutes, format, isValid } from 'date-fns';
+import {
+  checkEventOverlap,
+  createEvent,
+  getEvent,
+  updateEvent,
+  updateEventOccurrence,
+} from '@/actions/events';
+import { createEventSchema } from '@/utils/validations';
+import type { Event, EventType, EventWithBooking } from '@/types/database';
+import toast from 'react-hot-toast';
+
+interface EventFormProps {
+  event?: EventWithBooking | null; // edit mode when set
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+type FieldName = 'title' | 'description' | 'start' | 'end' | 'event_type' | 'rrule';
+type EditScope = 'occurrence' | 'series';
+
+const EVENT_TYPE_OPTIONS: { value: Exclude<EventType, 'booking'>; label: string }[] = [
+  { value: 'meeting', label: 'Reunión' },
+  { value: 'block', label: 'Bloqueo' },
+  { value: 'personal', label: 'Personal' },
+];
+
+const DURATION_PRESETS = [15, 30, 45, 60, 90, 120];
+
+const RECURRENCE_OPTIONS = [
+  { value: '', label: 'No se repite' },
+  { value: 'FREQ=DAILY', label: 'Todos los días' },
+  { value: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', label: 'Días hábiles (lunes a viernes)' },
+  { value: 'FREQ=WEEKLY', label: 'Todas las semanas' },
+  { value: 'FREQ=MONTHLY', label: 'Todos los meses' },
+];
+
+// Schema paths -> form fields (start/end are edited as date + time + duration)
+const FIELD_BY_PATH: Record<string, FieldName> = {
+  title: 'title',
+  description: 'description',
+  start_time: 'start',
+  end_time: 'end',
+  event_type: 'event_type',
+  rrule: 'rrule',
+};
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes} minutos`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} ${hours === 1 ? 'hora' : 'horas'}`;
+};
+
+// Form fields from an event; dates and times are in the admin's local zone
+const toFormState = (event?: Pick<Event, 'title' | 'description' | 'start_time' | 'end_time' | 'event_type' | 'is_public' | 'rrule'> | null) => {
+  const start = event ? new Date(event.start_time) : addMinutes(new Date(), 60 - new Date().getMinutes());
+  const duration = event ? differenceInMinutes(new Date(event.end_time), start) : 60;
+
+  return {
+    title: event?.title ?? '',
+    description: event?.description ?? '',
+    date: format(start, 'yyyy-MM-dd'),
+    startTime: format(start, 'HH:mm'),
+    duration,
+    customDuration: !DURATION_PRESETS.includes(duration),
+    event_type: (event?.event_type ?? 'meeting') as Exclude<EventType, 'booking'>,
+    is_public: event?.is_public ?? true,
+    rrule: event?.rrule ?? '',
+  };
+};
+
+export default function EventForm({ event, onSaved, onCancel }: EventFormProps) {
+  const isOccurrence = !!event?.occurrence_start;
+  const [scope, setScope] = useState<EditScope>('occurrence');
+  const [form, setForm] = useState(() => toFormState(event));
+  const [saving, setSaving] = useState(false);
+  const [loadingSeries, setLoadingSeries] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [overlapResult, setOverlapResult] = useState<{ key: string; overlaps: boolean } | null>(null);
+
+  const editingOccurrence = isOccurrence && scope === 'occurrence';
+
+  // Start/end as ISO strings, or '' while the date/time inputs are incomplete
+  const { startIso, endIso } = useMemo(() => {
+    const start = new Date(`${form.date}T${form.startTime}`);
+    if (!form.date || !form.startTime || !isValid(start)) {
+      return { startIso: '', endIso: '' };
+    }
+    return {
+      startIso: start.toISOString(),
+      endIso: addMinutes(start, form.duration).toISOString(),
+    };
+  }, [form.date, form.startTime, form.duration]);
+
+  const payload = {
+    title: form.title.trim(),
+    description: form.description.trim() || null,
+    start_time: startIso,
+    end_time: endIso,
+    event_type: form.event_type,
+    is_public: form.is_public,
+    rrule: editingOccurrence ? null : form.rrule || null,
+  };
+
+  // Field errors from the same schema the server validates with
+  const validation = createEventSchema.safeParse(payload);
+  const fieldErrors = useMemo(() => {
+    const errors: Partial<Record<FieldName, string>> = {};
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        const field = FIELD_BY_PATH[String(issue.path[0])];
+        if (field && !errors[field]) {
+          errors[field] = issue.message;
+        }
+      }
+    }
+    return errors;
+  }, [validation]);
+
+  // Warn about overlaps while editing, before the server rejects the save
+  const overlapKey = validation.success
+    ? [startIso, endIso, payload.event_type, payload.rrule, scope].join('|')
+    : null;
+
+  useEffect(() => {
+    if (!overlapKey) return;
+
+    const timer = setTimeout(async () => {
+      const [start_time, end_time, event_type, rrule] = overlapKey.split('|');
+      const result = await checkEventOverlap({
+        start_time,
+        end_time,
+        event_type: event_type as EventType,
+        rrule: rrule || null,
+        event_id: event?.id,
+      });
+      if (result.success && result.data) {
+        setOverlapResult({ key: overlapKey, overlaps: result.data.overlaps });
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [overlapKey, event?.id]);
+
+  const overlaps = !!overlapKey && overlapResult?.key === overlapKey && overlapResult.overlaps;
+
+  const updateField = <K extends keyof typeof form>(field: K, value: (typeof form)[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setFormError(null);
+  };
+
+  const handleScopeChange = async (nextScope: EditScope) => {
+    if (!event || nextScope === scope) return;
+
+    if (nextScope === 'occurrence') {
+      setScope(nextScope);
+      setForm(toFormState(event));
+      return;
+    }
+
+    // Editing the whole series starts from the series itself (its first occurrence)
+    setLoadingSeries(true);
+    const result = await getEvent(event.id);
+    setLoadingSeries(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Error al cargar la serie');
+      return;
+    }
+
+    setScope(nextScope);
+    setForm(toFormState(result.data));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+
+    if (!validation.success) {
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const result = !event
+        ? await createEvent(validation.data)
+        : editingOccurrence
+          ? await updateEventOccurrence({
+              event_id: event.id,
+              occurrence_start: event.occurrence_start!,
+              title: validation.data.title,
+              description: validation.data.description,
+              start_time: validation.data.start_time,
+              end_time: validation.data.end_time,
+              is_public: validation.data.is_public,
+            })
+          : await updateEvent({ id: event.id, ...validation.data });
+
+      if (!result.success) {
+        setFormError(result.error || 'Error al guardar el evento');
+        return;
+      }
+
+      toast.success(event ? 'Evento actualizado' : 'Evento creado exitosamente');
+      onSaved();
+    } catch (error) {
+      console.error(error);
+      setFormError('Error al guardar el evento');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = (field: FieldName) =>
+    `h-11 w-full rounded-xl border bg-white/70 px-3 text-[15px] text-slate-900 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all duration-200 ${
+      submitted && fieldErrors[field] ? 'border-red-400' : 'border-slate-200'
+    }`;
+
+  const renderFieldError = (field: FieldName) =>
+    submitted && fieldErrors[field] ? (
+      <p className="mt-1 text-xs text-red-600">{fieldErrors[field]}</p>
+    ) : null;
+
+  const recurrenceOptions = form.rrule && !RECURRENCE_OPTIONS.some((o) => o.value === form.rrule)
+    ? [...RECURRENCE_OPTIONS, { value: form.rrule, label: `Personalizada (${form.rrule})` }]
+    : RECURRENCE_OPTIONS;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="relative bg-white/50 backdrop-blur-2xl rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-8 border border-white/60 shadow-2xl shadow-blue-900/20"
+      >
+        <div className="absolute inset-0 bg-linear-to-br from-white/70 via-white/50 to-white/30 pointer-events-none rounded-2xl" />
+
+        <div className="relative flex flex-col gap-4">
+          <h3 className="text-xl font-semibold text-slate-900">
+            {event ? 'Editar evento' : 'Crear nuevo evento'}
+          </h3>
+
+          {/* Occurrence vs whole series */}
+          {isOccurrence && (
+            <div className="flex gap-2 p-1 bg-white/40 rounded-xl border border-white/50">
+              {(['occurrence', 'series'] as EditScope[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => handleScopeChange(option)}
+                  disabled={loadingSeries}
+                  className={`flex-1 px-3 py-2 text-sm font-medium rounded-lg transition-all duration-300 ${
+                    scope === option ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+                  }`}
+                >
+                  {option === 'occurrence' ? 'Solo esta ocurrencia' : 'Toda la serie'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Title */}
+          <div>
+            <label htmlFor="event-title" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+              Título <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="event-title"
+              type="text"
+              value={form.title}
+              onChange={(e) => updateField('title', e.target.value)}
+              className={inputClass('title')}
+              placeholder="Reunión de equipo"
+              disabled={saving}
+            />
+            {renderFieldError('title')}
+          </div>
+
+          {/* Date & start time */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="event-date" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+                Fecha
+              </label>
+              <input
+                id="event-date"
+                type="date"
+                value={form.date}
+                onChange={(e) => updateField('date', e.target.value)}
+                className={inputClass('start')}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label htmlFor="event-start" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+                Hora de inicio
+              </label>
+              <input
+                id="event-start"
+                type="time"
+                value={form.startTime}
+                onChange={(e) => updateField('startTime', e.target.value)}
+                className={inputClass('start')}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          {renderFieldError('start')}
+
+          {/* Duration */}
+          <div>
+            <span className="block text-[13px] font-medium text-slate-700 mb-1.5">Duración</span>
+            <div className="flex flex-wrap gap-2">
+              {DURATION_PRESETS.map((minutes) => (
+                <button
+                  key={minutes}
+                  type="button"
+                  onClick={() => setForm((prev) => ({ ...prev, duration: minutes, customDuration: false }))}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-all duration-200 ${
+                    !form.customDuration && form.duration === minutes
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white/60 text-slate-700 border-slate-200 hover:border-blue-300'
+                  }`}
+                >
+                  {formatDuration(minutes)}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateField('customDuration', true)}
+                className={`px-3 py-1.5 text-sm rounded-lg border transition-all duration-200 ${
+                  form.customDuration
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white/60 text-slate-700 border-slate-200 hover:border-blue-300'
+                }`}
+              >
+                Otra
+              </button>
+            </div>
+            {form.customDuration && (
+              <div className="mt-2 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={5}
+                  max={24 * 60}
+                  step={5}
+                  value={form.duration}
+                  onChange={(e) => updateField('duration', Number(e.target.value))}
+                  className={`${inputClass('end')} w-28`}
+                  disabled={saving}
+                />
+                <span className="text-sm text-slate-600">minutos</span>
+              </div>
+            )}
+            {endIso && (
+              <p className="mt-1 text-xs text-slate-500">
+                Termina a las {format(new Date(endIso), 'HH:mm')}
+              </p>
+            )}
+            {renderFieldError('end')}
+          </div>
+
+          {/* Type & visibility */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="event-type" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+                Tipo
+              </label>
+              <select
+                id="event-type"
+                value={form.event_type}
+                onChange={(e) => updateField('event_type', e.target.value as Exclude<EventType, 'booking'>)}
+                className={inputClass('event_type')}
+                disabled={saving || editingOccurrence}
+              >
+                {EVENT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {renderFieldError('event_type')}
+            </div>
+            <div>
+              <label htmlFor="event-visibility" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+                Visibilidad
+              </label>
+              <select
+                id="event-visibility"
+                value={form.is_public ? 'public' : 'private'}
+                onChange={(e) => updateField('is_public', e.target.value === 'public')}
+                className={inputClass('event_type')}
+                disabled={saving}
+              >
+                <option value="public">Público</option>
+                <option value="private">Privado</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Recurrence */}
+          {!editingOccurrence && (
+            <div>
+              <label htmlFor="event-rrule" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+                Repetición
+              </label>
+              <select
+                id="event-rrule"
+                value={form.rrule}
+                onChange={(e) => updateField('rrule', e.target.value)}
+                className={inputClass('rrule')}
+                disabled={saving}
+              >
+                {recurrenceOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {renderFieldError('rrule')}
+            </div>
+          )}
+
+          {/* Description */}
+          <div>
+            <label htmlFor="event-description" className="block text-[13px] font-medium text-slate-700 mb-1.5">
+              Descripción <span className="text-slate-400 text-[12px] font-normal">(opcional)</span>
+            </label>
+            <textarea
+              id="event-description"
+              rows={3}
+              value={form.description}
+              onChange={(e) => updateField('description', e.target.value)}
+              className={`${inputClass('description')} h-auto py-2 resize-none`}
+              disabled={saving}
+            />
+            {renderFieldError('description')}
+          </div>
+
+          {overlaps && (
+            <div className="p-3 rounded-xl bg-amber-400/20 border border-amber-300/60 text-sm text-amber-800">
+              Este horario se solapa con otro evento que bloquea tu agenda.
+            </div>
+          )}
+
+          {formError && (
+            <div className="p-3 rounded-xl bg-red-400/20 border border-red-300/60 text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={saving}
+              className="flex-1 px-4 py-2.5 bg-white/40 backdrop-blur-md text-slate-700 border border-white/50 rounded-lg hover:bg-white/60 hover:border-blue-300/50 transition-all duration-300"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving || loadingSeries}
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-linear-to-br from-blue-400/85 via-blue-400/75 to-cyan-400/65 backdrop-blur-xl border border-blue-300/70 rounded-lg hover:shadow-lg hover:shadow-blue-400/20 transition-all duration-300 disabled:opacity-50"
+            >
+              {saving ? 'Guardando...' : event ? 'Guardar cambios' : 'Crear evento'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
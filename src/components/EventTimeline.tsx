@@ -0,0 +1,567 @@
+/**
+ * EventTimeline Component
+ * Week/day view of the admin's events with drag-to-reschedule and resize.
+ * With the team scope it shows every member's events; only the admin's own
+ * can be dragged, or every one for team owners and admins.
+ */
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { addDays, startOfDay, startOfWeek } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import { getEventsInRange, updateEvent, updateEventOccurrence } from '@/actions/events';
+import { getAvailabilityOverrides, getCalendarSettings, getSchedule } from '@/actions/settings';
+import type { AvailabilityOverride, CalendarScope, DaySchedule, EventWithBooking } from '@/types/database';
+import { DEFAULT_SETTINGS } from '@/types/database';
+import { resolveDayIntervals, timeToMinutes } from '@/utils/availability';
+import {
+  formatInTimeZone,
+  getDateKeyInTimeZone,
+  getDayOfWeek,
+  getTimeZoneLabel,
+  getZonedDateRange,
+} from '@/utils/dateHelpers';
+import toast from 'react-hot-toast';
+
+interface EventTimelineProps {
+  refreshKey: number; // bump to reload (e.g. after the event form saves)
+  onEditEvent: (event: EventWithBooking) => void;
+  onEventsChanged: () => void;
+  scope?: CalendarScope;
+  userId?: string | null;
+  hostNames?: Record<string, string>; // user id -> name, labels team events
+  canManageTeam?: boolean; // owners and admins edit teammates' events too
+}
+
+type View = 'week' | 'day';
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  event: EventWithBooking;
+  key: string;
+  mode: DragMode;
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  deltaDays: number;
+  deltaMinutes: number;
+}
+
+interface Segment {
+  event: EventWithBooking;
+  top: number; // minutes since the day's midnight
+  bottom: number;
+  isLast: boolean; // segment where the event ends (gets the resize handle)
+  lane: number;
+  lanes: number;
+}
+
+const HOUR_HEIGHT = 48; // px
+const SNAP_MINUTES = 15;
+const MIN_DURATION_MINUTES = 15;
+const DRAG_THRESHOLD_PX = 4;
+const SCROLL_TO_HOUR = 7;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const EVENT_COLORS: Record<string, string> = {
+  booking: 'bg-green-400/30 border-green-400/60 text-green-900',
+  meeting: 'bg-blue-400/30 border-blue-400/60 text-blue-900',
+  block: 'bg-slate-400/30 border-slate-400/60 text-slate-900',
+  personal: 'bg-purple-400/25 border-purple-400/50 text-purple-900',
+};
+
+const eventKey = (event: EventWithBooking) => `${event.id}-${event.occurrence_start ?? ''}`;
+
+const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+/**
+ * Moves an instant by whole days and minutes on the host's wall clock,
+ * so dragging across a DST change keeps the hour the admin dropped it on
+ */
+const shiftWallTime = (iso: string, timeZone: string, days: number, minutes: number): Date => {
+  const wall = new TZDate(iso, timeZone);
+  return new Date(
+    TZDate.tz(
+      timeZone,
+      wall.getFullYear(),
+      wall.getMonth(),
+      wall.getDate() + days,
+      wall.getHours(),
+      wall.getMinutes() + minutes
+    )
+  );
+};
+
+/**
+ * Start/end the event would have with the current drag applied
+ */
+const applyDrag = (
+  event: EventWithBooking,
+  drag: Pick<DragState, 'mode' | 'deltaDays' | 'deltaMinutes'>,
+  timeZone: string
+) => {
+  if (drag.mode === 'move') {
+    return {
+      start: shiftWallTime(event.start_time, timeZone, drag.deltaDays, drag.deltaMinutes),
+      end: shiftWallTime(event.end_time, timeZone, drag.deltaDays, drag.deltaMinutes),
+    };
+  }
+
+  const start = new Date(event.start_time);
+  const end = shiftWallTime(event.end_time, timeZone, 0, drag.deltaMinutes);
+  const minEnd = new Date(start.getTime() + MIN_DURATION_MINUTES * 60_000);
+  return { start, end: end < minEnd ? minEnd : end };
+};
+
+/**
+ * Parts of each event that fall on one host-local day, laid out in lanes
+ * so overlapping events sit side by side
+ */
+const layoutDay = (events: EventWithBooking[], dayStart: Date, dayEnd: Date): Segment[] => {
+  const dayMs = dayStart.getTime();
+  const segments = events
+    .filter((event) => Date.parse(event.start_time) < dayEnd.getTime() && Date.parse(event.end_time) > dayMs)
+    .map((event) => ({
+      event,
+      top: Math.max(0, (Date.parse(event.start_time) - dayMs) / 60_000),
+      bottom: Math.min(dayEnd.getTime() - dayMs, Date.parse(event.end_time) - dayMs) / 60_000,
+      isLast: Date.parse(event.end_time) <= dayEnd.getTime(),
+      lane: 0,
+      lanes: 1,
+    }))
+    .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+  let cluster: Segment[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = 0;
+
+  const closeCluster = () => {
+    cluster.forEach((segment) => (segment.lanes = laneEnds.length));
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const segment of segments) {
+    if (segment.top >= clusterEnd) {
+      closeCluster();
+    }
+    const lane = laneEnds.findIndex((end) => end <= segment.top);
+    segment.lane = lane === -1 ? laneEnds.length : lane;
+    laneEnds[segment.lane] = segment.bottom;
+    clusterEnd = Math.max(clusterEnd, segment.bottom);
+    cluster.push(segment);
+  }
+  closeCluster();
+
+  return segments;
+};
+
+export default function EventTimeline({
+  refreshKey,
+  onEditEvent,
+  onEventsChanged,
+  scope = 'own',
+  userId = null,
+  hostNames = {},
+  canManageTeam = false,
+}: EventTimelineProps) {
+  const [view, setView] = useState<View>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [timeZone, setTimeZone] = useState(DEFAULT_SETTINGS.timezone);
+  const [schedule, setSchedule] = useState<DaySchedule[]>([]);
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([]);
+  const [eventsResult, setEventsResult] = useState<{ key: string; events: EventWithBooking[] } | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const columnsRef = useRef<HTMLDivElement>(null);
+
+  // Host-local days on screen, each anchored at midnight in the host's zone
+  const days = useMemo(() => {
+    const zoned = new TZDate(anchor, timeZone);
+    const first = view === 'week' ? startOfWeek(zoned, { weekStartsOn: 1 }) : startOfDay(zoned);
+    return getZonedDateRange(first, view === 'week' ? 7 : 1, timeZone);
+  }, [anchor, view, timeZone]);
+
+  const rangeStart = days[0].toISOString();
+  const rangeEnd = addDays(days[days.length - 1], 1).toISOString();
+  const rangeKey = `${rangeStart}|${rangeEnd}|${scope}|${refreshKey}|${reloadToken}`;
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      const [settings, scheduleResult, overridesResult] = await Promise.all([
+        getCalendarSettings(),
+        getSchedule(),
+        getAvailabilityOverrides(),
+      ]);
+      if (settings.success && settings.data) {
+        setTimeZone(settings.data.timezone);
+      }
+      if (scheduleResult.success && scheduleResult.data) {
+        setSchedule(scheduleResult.data);
+      }
+      if (overridesResult.success && overridesResult.data) {
+        setOverrides(overridesResult.data);
+      }
+    };
+
+    loadConfig().catch((error) => {
+      console.error('Load timeline config error:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    const [start_date, end_date, rangeScope] = rangeKey.split('|');
+
+    getEventsInRange({ start_date, end_date }, rangeScope as CalendarScope)
+      .then((result) => {
+        if (!result.success) {
+          toast.error(result.error || 'Error al cargar los eventos');
+        }
+        setEventsResult({ key: rangeKey, events: result.data || [] });
+      })
+      .catch(() => {
+        toast.error('Error al cargar los eventos');
+      });
+  }, [rangeKey]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  const loading = eventsResult?.key !== rangeKey;
+  const events = useMemo(() => eventsResult?.events ?? [], [eventsResult]);
+
+  // Events as they'd look with the in-progress drag applied
+  const displayedEvents = useMemo(() => {
+    if (!drag) return events;
+    return events.map((event) => {
+      if (eventKey(event) !== drag.key) return event;
+      const { start, end } = applyDrag(event, drag, timeZone);
+      return { ...event, start_time: start.toISOString(), end_time: end.toISOString() };
+    });
+  }, [events, drag, timeZone]);
+
+  const columns = useMemo(
+    () =>
+      days.map((day) => {
+        const dayEnd = addDays(day, 1);
+        const dateKey = getDateKeyInTimeZone(day, timeZone);
+        return {
+          day,
+          dateKey,
+          available: resolveDayIntervals(schedule, overrides, dateKey, getDayOfWeek(day)),
+          segments: layoutDay(displayedEvents, day, dayEnd),
+        };
+      }),
+    [days, timeZone, schedule, overrides, displayedEvents]
+  );
+
+  // Teammates' events are shown read-only
+  const isEditable = (event: EventWithBooking) =>
+    scope === 'own' || event.created_by === userId || canManageTeam;
+
+  const navigate = (direction: -1 | 0 | 1) => {
+    if (direction === 0) {
+      setAnchor(new Date());
+      return;
+    }
+    setAnchor((prev) => addDays(prev, direction * (view === 'week' ? 7 : 1)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, event: EventWithBooking, mode: DragMode) => {
+    // Cancelled bookings stay visible but no longer hold their slot
+    if (e.button !== 0 || savingKey || event.booking?.status === 'cancelled' || !isEditable(event)) return;
+    e.stopPropagation();
+
+    // Captured by the columns container: the block itself re-mounts as it moves between days
+    const container = columnsRef.current;
+    if (!container) return;
+    container.setPointerCapture(e.pointerId);
+
+    setDrag({
+      event,
+      key: eventKey(event),
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      columnWidth: container.getBoundingClientRect().width / days.length,
+      deltaDays: 0,
+      deltaMinutes: 0,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+
+    const deltaMinutes = snap((e.clientY - drag.originY) / (HOUR_HEIGHT / 60));
+    const deltaDays =
+      drag.mode === 'move' && drag.columnWidth > 0
+        ? Math.round((e.clientX - drag.originX) / drag.columnWidth)
+        : 0;
+
+    if (deltaMinutes !== drag.deltaMinutes || deltaDays !== drag.deltaDays) {
+      setDrag({ ...drag, deltaMinutes, deltaDays });
+    }
+  };
+
+  const handlePointerUp = async (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { event, ...current } = drag;
+    setDrag(null);
+
+    const moved =
+      Math.abs(e.clientX - current.originX) > DRAG_THRESHOLD_PX ||
+      Math.abs(e.clientY - current.originY) > DRAG_THRESHOLD_PX;
+
+    // A click (no real drag) opens the form, like the list's edit button
+    if (!moved) {
+      if (event.event_type !== 'booking') {
+        onEditEvent(event);
+      }
+      return;
+    }
+
+    if (current.deltaDays === 0 && current.deltaMinutes === 0) {
+      return;
+    }
+
+    const { start, end } = applyDrag(event, current, timeZone);
+    const snapshot = eventsResult;
+
+    // Optimistic update; rolled back if the server rejects it (e.g. overlaps)
+    setSavingKey(current.key);
+    setEventsResult((prev) =>
+      prev && {
+        ...prev,
+        events: prev.events.map((item) =>
+          eventKey(item) === current.key
+            ? { ...item, start_time: start.toISOString(), end_time: end.toISOString() }
+            : item
+        ),
+      }
+    );
+
+    try {
+      const result = event.occurrence_start
+        ? await updateEventOccurrence({
+            event_id: event.id,
+            occurrence_start: event.occurrence_start,
+            start_time: start.toISOString(),
+            end_time: end.toISOString(),
+          })
+        : await updateEvent({
+            id: event.id,
+            start_time: start.toISOString(),
+            end_time: end.toISOString(),
+          });
+
+      if (!result.success) {
+        setEventsResult(snapshot);
+        toast.error(result.error || 'Error al mover el evento');
+        return;
+      }
+
+      toast.success(current.mode === 'move' ? 'Evento reprogramado' : 'Duración actualizada');
+      setReloadToken((token) => token + 1);
+      onEventsChanged();
+    } catch (error) {
+      console.error('Reschedule error:', error);
+      setEventsResult(snapshot);
+      toast.error('Error al mover el evento');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handlePointerCancel = () => {
+    setDrag(null);
+  };
+
+  const rangeLabel =
+    view === 'week'
+      ? `${formatInTimeZone(days[0], 'd MMM', timeZone)} – ${formatInTimeZone(days[6], 'd MMM yyyy', timeZone)}`
+      : formatInTimeZone(days[0], "EEEE d 'de' MMMM yyyy", timeZone);
+
+  return (
+    <div className="relative bg-white/40 backdrop-blur-md rounded-2xl border border-white/50 shadow-lg shadow-blue-900/10 overflow-hidden">
+      <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-2xl" />
+
+      {/* Toolbar */}
+      <div className="relative px-6 py-4 border-b border-white/30 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-slate-600 bg-white/50 border border-white/50 rounded-lg hover:bg-white/70 transition-all duration-300"
+            title="Anterior"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => navigate(0)}
+            className="px-3 py-1.5 text-sm font-medium text-slate-700 bg-white/50 border border-white/50 rounded-lg hover:bg-white/70 transition-all duration-300"
+          >
+            Hoy
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="p-2 text-slate-600 bg-white/50 border border-white/50 rounded-lg hover:bg-white/70 transition-all duration-300"
+            title="Siguiente"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+          <h2 className="ml-2 text-lg font-semibold text-slate-900 tracking-tight capitalize">{rangeLabel}</h2>
+          {loading && (
+            <div className="inline-flex h-4 w-4 animate-spin rounded-full border-2 border-slate-300 border-t-blue-600" />
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-500">{getTimeZoneLabel(timeZone)}</span>
+          <div className="flex gap-1 bg-white/30 rounded-xl p-1 border border-white/40">
+            {(['week', 'day'] as View[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-all duration-300 ${
+                  view === option ? 'bg-white/70 text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                {option === 'week' ? 'Semana' : 'Día'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="relative overflow-x-auto">
+        <div className={view === 'week' ? 'min-w-[760px]' : ''}>
+          {/* Day headers */}
+          <div className="flex border-b border-white/30">
+            <div className="w-14 shrink-0" />
+            {columns.map(({ day, dateKey }) => (
+              <button
+                key={dateKey}
+                onClick={() => {
+                  setAnchor(day);
+                  setView('day');
+                }}
+                className="flex-1 py-2 text-center text-xs font-semibold text-slate-600 uppercase hover:text-blue-600 transition-colors"
+              >
+                {formatInTimeZone(day, 'EEE d', timeZone)}
+              </button>
+            ))}
+          </div>
+
+          {/* Grid */}
+          <div ref={scrollRef} className="h-[600px] overflow-y-auto">
+            <div className="flex relative" style={{ height: 24 * HOUR_HEIGHT }}>
+              {/* Hour gutter */}
+              <div className="w-14 shrink-0 relative">
+                {HOURS.map((hour) => (
+                  <div
+                    key={hour}
+                    className="absolute right-2 -translate-y-1/2 text-[11px] text-slate-400"
+                    style={{ top: hour * HOUR_HEIGHT }}
+                  >
+                    {hour > 0 && `${String(hour).padStart(2, '0')}:00`}
+                  </div>
+                ))}
+              </div>
+
+              <div
+                ref={columnsRef}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
+                className="flex-1 flex relative"
+              >
+                {columns.map(({ dateKey, available, segments }) => (
+                  <div key={dateKey} className="flex-1 relative border-l border-white/40">
+                    {/* Hour lines */}
+                    {HOURS.map((hour) => (
+                      <div
+                        key={hour}
+                        className="absolute inset-x-0 border-t border-slate-200/50"
+                        style={{ top: hour * HOUR_HEIGHT }}
+                      />
+                    ))}
+
+                    {/* Availability windows (the admin's own schedule) */}
+                    {scope === 'own' && available.map((interval) => {
+                      const top = timeToMinutes(interval.start_time);
+                      const bottom = timeToMinutes(interval.end_time);
+                      return (
+                        <div
+                          key={interval.start_time}
+                          className="absolute inset-x-0 bg-emerald-300/15"
+                          style={{ top: (top * HOUR_HEIGHT) / 60, height: ((bottom - top) * HOUR_HEIGHT) / 60 }}
+                        />
+                      );
+                    })}
+
+                    {/* Events */}
+                    {segments.map((segment) => {
+                      const { event } = segment;
+                      const key = eventKey(event);
+                      const isDragging = drag?.key === key;
+                      const informational = event.overlap_policy === 'informational';
+                      const editable = isEditable(event);
+
+                      return (
+                        <div
+                          key={key}
+                          onPointerDown={(e) => handlePointerDown(e, event, 'move')}
+                          className={`absolute rounded-lg border px-2 py-1 text-xs overflow-hidden select-none touch-none backdrop-blur-md transition-shadow ${
+                            editable ? 'cursor-grab' : 'cursor-default'
+                          } ${
+                            EVENT_COLORS[event.event_type] ?? EVENT_COLORS.meeting
+                          } ${informational ? 'border-dashed opacity-70' : ''} ${
+                            isDragging ? 'shadow-lg z-20 cursor-grabbing' : 'z-10'
+                          } ${savingKey === key ? 'animate-pulse' : ''}`}
+                          style={{
+                            top: (segment.top * HOUR_HEIGHT) / 60,
+                            height: Math.max(((segment.bottom - segment.top) * HOUR_HEIGHT) / 60, 18),
+                            left: `calc(${(segment.lane / segment.lanes) * 100}% + 2px)`,
+                            width: `calc(${100 / segment.lanes}% - 4px)`,
+                          }}
+                          title={event.title}
+                        >
+                          <div className="font-semibold truncate">
+                            {event.booking ? event.booking.name : event.title}
+                          </div>
+                          <div className="truncate opacity-80">
+                            {formatInTimeZone(event.start_time, 'HH:mm', timeZone)} –{' '}
+                            {formatInTimeZone(event.end_time, 'HH:mm', timeZone)}
+                            {event.rrule && ' · Se repite'}
+                          </div>
+                          {scope === 'team' && (
+                            <div className="truncate opacity-70">{(event.created_by && hostNames[event.created_by]) || 'Miembro'}</div>
+                          )}
+
+                          {segment.isLast && editable && (
+                            <div
+                              onPointerDown={(e) => handlePointerDown(e, event, 'resize')}
+                              className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
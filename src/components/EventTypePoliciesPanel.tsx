@@ -0,0 +1,147 @@
+/**
+ * EventTypePoliciesPanel Component
+ * Admin panel for choosing which event types take up the host's time
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getEventTypePolicies, saveEventTypePolicies } from '@/actions/settings';
+import type { EventTypePolicy, OverlapPolicy } from '@/types/database';
+import { DEFAULT_EVENT_TYPE_POLICIES } from '@/types/database';
+import toast from 'react-hot-toast';
+
+const EVENT_TYPE_LABELS: Record<EventTypePolicy['event_type'], string> = {
+  meeting: 'Reuniones',
+  block: 'Bloqueos',
+  personal: 'Personales',
+};
+
+const POLICY_OPTIONS: { value: OverlapPolicy; label: string; description: string }[] = [
+  {
+    value: 'blocks',
+    label: 'Bloquea horario',
+    description: 'Oculta los turnos y no puede solaparse con otros eventos que bloquean',
+  },
+  {
+    value: 'allows_overlap',
+    label: 'Permite solapamiento',
+    description: 'Oculta los turnos, pero se pueden agendar otros eventos encima',
+  },
+  {
+    value: 'informational',
+    label: 'Solo informativo',
+    description: 'No ocupa horario: los visitantes pueden reservar igual',
+  },
+];
+
+export default function EventTypePoliciesPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [policies, setPolicies] = useState<EventTypePolicy[]>(DEFAULT_EVENT_TYPE_POLICIES);
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    setLoading(true);
+    try {
+      const result = await getEventTypePolicies();
+      if (result.success && result.data) {
+        setPolicies(result.data);
+      }
+    } catch (error) {
+      console.error('Load policies error:', error);
+      toast.error('Error al cargar las políticas');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updatePolicy = (eventType: EventTypePolicy['event_type'], overlapPolicy: OverlapPolicy) => {
+    setPolicies((prev) =>
+      prev.map((p) => (p.event_type === eventType ? { ...p, overlap_policy: overlapPolicy } : p))
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveEventTypePolicies(policies);
+      if (result.success) {
+        toast.success('Políticas guardadas');
+      } else {
+        toast.error(result.error || 'Error al guardar');
+      }
+    } catch (error) {
+      toast.error('Error al guardar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Tipos de evento</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Define qué eventos ocupan tu horario y cuáles pueden solaparse
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+          <span className="w-32 text-sm font-medium text-gray-700">Reservas</span>
+          <span className="text-sm text-gray-500">
+            Siempre bloquean horario
+          </span>
+        </div>
+
+        {policies.map((policy) => (
+          <div
+            key={policy.event_type}
+            className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4"
+          >
+            <span className="w-32 text-sm font-medium text-gray-700">
+              {EVENT_TYPE_LABELS[policy.event_type]}
+            </span>
+            <div className="flex-1">
+              <select
+                value={policy.overlap_policy}
+                onChange={(e) => updatePolicy(policy.event_type, e.target.value as OverlapPolicy)}
+                className="w-full sm:w-64 h-10 px-3 rounded-lg border border-gray-300 text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {POLICY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {POLICY_OPTIONS.find((o) => o.value === policy.overlap_policy)?.description}
+              </p>
+            </div>
+          </div>
+        ))}
+
+        <div className="pt-4 border-t border-gray-100">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Guardando...' : 'Guardar políticas'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
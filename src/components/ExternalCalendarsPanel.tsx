@@ -0,0 +1,257 @@
+/**
+ * ExternalCalendarsPanel Component
+ * Admin panel for the host's other calendars (ICS URLs or uploaded .ics
+ * files) whose events block booking slots
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  addExternalCalendar,
+  deleteExternalCalendar,
+  getExternalCalendars,
+  refreshExternalCalendar,
+} from '@/actions/settings';
+import type { ExternalCalendar, ExternalCalendarSourceType } from '@/types/database';
+import toast from 'react-hot-toast';
+
+// Secret calendar URLs are never shown in full, only where they point to
+const getUrlHost = (url: string | null): string => {
+  try {
+    return url ? new URL(url.replace(/^webcals?:/i, 'https:')).hostname : '';
+  } catch {
+    return '';
+  }
+};
+
+const formatSyncedAt = (date: string | null): string =>
+  date
+    ? new Date(date).toLocaleString('es-AR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : 'nunca';
+
+export default function ExternalCalendarsPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+
+  const [sourceType, setSourceType] = useState<ExternalCalendarSourceType>('url');
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  useEffect(() => {
+    loadCalendars();
+  }, []);
+
+  const loadCalendars = async () => {
+    try {
+      const result = await getExternalCalendars();
+      if (result.success) {
+        setCalendars(result.data || []);
+      } else {
+        toast.error(result.error || 'Error al cargar los calendarios externos');
+      }
+    } catch (error) {
+      console.error('Load external calendars error:', error);
+      toast.error('Error al cargar los calendarios externos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setUrl('');
+    setFile(null);
+    setFileInputKey((key) => key + 1);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (sourceType === 'file' && !file) {
+      toast.error('Elegí un archivo .ics');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = sourceType === 'url'
+        ? await addExternalCalendar({ source_type: 'url', name, url })
+        : await addExternalCalendar({ source_type: 'file', name, ics_content: await file!.text() });
+
+      if (result.success) {
+        toast.success('Calendario agregado');
+        resetForm();
+        await loadCalendars();
+      } else {
+        toast.error(result.error || 'Error al agregar el calendario');
+      }
+    } catch (error) {
+      console.error('Add external calendar error:', error);
+      toast.error('Error al agregar el calendario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRefresh = async (id: string) => {
+    setRefreshingId(id);
+    const result = await refreshExternalCalendar(id);
+    setRefreshingId(null);
+
+    if (result.success) {
+      toast.success('Calendario actualizado');
+    } else {
+      toast.error(result.error || 'Error al actualizar el calendario');
+    }
+    await loadCalendars();
+  };
+
+  const handleDelete = async (calendar: ExternalCalendar) => {
+    if (!confirm(`Sus eventos dejarán de bloquear horarios. ¿Eliminar "${calendar.name}"?`)) {
+      return;
+    }
+
+    const result = await deleteExternalCalendar(calendar.id);
+    if (result.success) {
+      setCalendars((prev) => prev.filter((c) => c.id !== calendar.id));
+      toast.success('Calendario eliminado');
+    } else {
+      toast.error(result.error || 'Error al eliminar');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Calendarios externos</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Los eventos de tus otros calendarios ocupan esos horarios. Los visitantes no ven sus detalles.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {calendars.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {calendars.map((calendar) => (
+              <li key={calendar.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{calendar.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {calendar.source_type === 'url' ? getUrlHost(calendar.url) || 'URL' : 'Archivo .ics'}
+                    {' · '}
+                    {calendar.busy_count} {calendar.busy_count === 1 ? 'evento' : 'eventos'}
+                    {' · '}
+                    Actualizado: {formatSyncedAt(calendar.last_synced_at)}
+                  </p>
+                  {calendar.last_error && (
+                    <p className="text-xs text-red-600 mt-1">{calendar.last_error}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleRefresh(calendar.id)}
+                    disabled={refreshingId === calendar.id}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    {refreshingId === calendar.id ? 'Actualizando...' : 'Actualizar'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(calendar)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    Eliminar
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-4">
+          <div className="flex gap-2">
+            {(['url', 'file'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setSourceType(type)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                  sourceType === type
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {type === 'url' ? 'Desde URL' : 'Subir archivo'}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nombre</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ej: Trabajo"
+              maxLength={100}
+              required
+              className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+            />
+          </div>
+
+          {sourceType === 'url' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">URL del calendario (.ics)</label>
+              <input
+                type="text"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://calendar.google.com/calendar/ical/.../basic.ics"
+                required
+                className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900 font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                En Google Calendar: Configuración del calendario → &quot;Dirección secreta en formato iCal&quot;. Se actualiza periódicamente.
+              </p>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Archivo</label>
+              <input
+                key={fileInputKey}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="block w-full text-sm text-gray-700"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Un archivo no se actualiza solo: para reflejar cambios, eliminalo y subilo de nuevo.
+              </p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Importando...' : 'Agregar calendario'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
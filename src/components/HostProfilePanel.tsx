@@ -0,0 +1,172 @@
+/**
+ * HostProfilePanel Component
+ * Admin panel for the host's public profile: the username of their booking
+ * URL (/<username>), the name and description visitors see
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getHostProfile, saveHostProfile } from '@/actions/hostProfiles';
+import type { HostProfileInput } from '@/utils/validations';
+import toast from 'react-hot-toast';
+
+export default function HostProfilePanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [savedUsername, setSavedUsername] = useState<string | null>(null);
+  const [publicUrl, setPublicUrl] = useState<string | null>(null);
+  const [form, setForm] = useState<HostProfileInput>({ username: '', display_name: '', bio: '' });
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    try {
+      const result = await getHostProfile();
+      if (result.success) {
+        if (result.data) {
+          const { username, display_name, bio, url } = result.data;
+          setForm({ username, display_name, bio: bio ?? '' });
+          setSavedUsername(username);
+          setPublicUrl(url);
+        }
+      } else {
+        toast.error(result.error || 'Error al cargar el perfil');
+      }
+    } catch (error) {
+      console.error('Load profile error:', error);
+      toast.error('Error al cargar el perfil');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (
+      savedUsername &&
+      form.username.trim().toLowerCase() !== savedUsername &&
+      !confirm(`Los enlaces a /${savedUsername} dejarán de funcionar. ¿Cambiar el usuario?`)
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveHostProfile(form);
+    setSaving(false);
+
+    if (result.success && result.data) {
+      const { username, url } = result.data;
+      setForm((prev) => ({ ...prev, username }));
+      setSavedUsername(username);
+      setPublicUrl(url);
+      toast.success('Perfil guardado');
+    } else {
+      toast.error(result.error || 'Error al guardar el perfil');
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Enlace copiado');
+    } catch {
+      toast.error('No se pudo copiar el enlace');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Perfil público</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Tu página de reservas, con tus horarios y tipos de reunión, en una URL propia
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {publicUrl && (
+          <div className="flex gap-2 items-center p-3 rounded-lg bg-blue-50 border border-blue-200">
+            <a
+              href={publicUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex-1 min-w-0 truncate font-mono text-sm text-blue-700 hover:underline"
+            >
+              {publicUrl}
+            </a>
+            <button
+              type="button"
+              onClick={() => copyUrl(publicUrl)}
+              className="text-xs font-medium text-blue-600 hover:underline"
+            >
+              Copiar
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Usuario</label>
+            <div className="flex items-center h-10 rounded-lg border border-gray-300 overflow-hidden">
+              <span className="px-3 text-sm text-gray-500 bg-gray-50 h-full flex items-center border-r border-gray-300">
+                /
+              </span>
+              <input
+                type="text"
+                value={form.username}
+                onChange={(e) => setForm((prev) => ({ ...prev, username: e.target.value }))}
+                placeholder="ana-garcia"
+                minLength={3}
+                maxLength={30}
+                required
+                className="flex-1 min-w-0 h-full px-3 text-sm text-gray-900 font-mono"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nombre visible</label>
+            <input
+              type="text"
+              value={form.display_name}
+              onChange={(e) => setForm((prev) => ({ ...prev, display_name: e.target.value }))}
+              placeholder="Ana García"
+              maxLength={100}
+              required
+              className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Descripción</label>
+          <textarea
+            value={form.bio ?? ''}
+            onChange={(e) => setForm((prev) => ({ ...prev, bio: e.target.value }))}
+            rows={2}
+            maxLength={1000}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-900"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? 'Guardando...' : 'Guardar perfil'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * InviteAcceptance Component
+ * Joins a team from its invitation link: with the account already signed
+ * in, by signing in first, or by creating the account for the invited email
+ */
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { acceptInvite, createInvitedAccount } from '@/actions/organizations';
+import type { InvitePreview } from '@/types/database';
+import { ORGANIZATION_ROLES } from '@/types/database';
+import toast from 'react-hot-toast';
+
+interface InviteAcceptanceProps {
+  token: string;
+  invite: InvitePreview;
+  signedInEmail: string | null;
+}
+
+const inputClass =
+  'w-full h-11 px-4 rounded-xl border border-slate-200 bg-white/70 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
+const buttonClass =
+  'w-full py-3 px-5 rounded-xl font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors';
+
+export default function InviteAcceptance({ token, invite, signedInEmail }: InviteAcceptanceProps) {
+  const router = useRouter();
+  const { signIn, signOut } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const role = ORGANIZATION_ROLES.find((r) => r.role === invite.role);
+  const isInvitee = signedInEmail?.toLowerCase() === invite.email.toLowerCase();
+
+  const join = async () => {
+    const result = await acceptInvite(token);
+    if (result.success) {
+      toast.success(`Te uniste a ${invite.organizationName}`);
+      router.push('/admin');
+      router.refresh();
+    } else {
+      toast.error(result.error || 'Error al aceptar la invitación');
+    }
+  };
+
+  const handleAccept = async () => {
+    setSaving(true);
+    try {
+      await join();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const result = await createInvitedAccount(token, { password, confirmPassword });
+      if (!result.success) {
+        toast.error(result.error || 'Error al crear la cuenta');
+        return;
+      }
+
+      const { error } = await signIn(invite.email, password);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+
+      await join();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSwitchAccount = async () => {
+    await signOut();
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-semibold text-slate-900">Unite a {invite.organizationName}</h1>
+        <p className="text-sm text-slate-600">
+          Invitación para <span className="font-medium text-slate-900">{invite.email}</span> como{' '}
+          {role?.label.toLowerCase() ?? invite.role}
+        </p>
+        {role && <p className="text-xs text-slate-500">{role.description}</p>}
+      </div>
+
+      {isInvitee ? (
+        <button type="button" onClick={handleAccept} disabled={saving} className={buttonClass}>
+          {saving ? 'Uniéndote...' : 'Aceptar invitación'}
+        </button>
+      ) : signedInEmail ? (
+        <div className="space-y-4 text-center">
+          <p className="text-sm text-slate-600">
+            Iniciaste sesión como <span className="font-medium text-slate-900">{signedInEmail}</span>. Para aceptar,
+            entrá con la cuenta de {invite.email}.
+          </p>
+          <button type="button" onClick={handleSwitchAccount} className={buttonClass}>
+            Cambiar de cuenta
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <Link
+            href={`/login?next=${encodeURIComponent(`/invite/${token}`)}`}
+            className="block w-full py-3 px-5 rounded-xl text-center font-medium text-slate-700 bg-white/60 border border-white/60 hover:bg-white/80 transition-colors"
+          >
+            Ya tengo cuenta: iniciar sesión
+          </Link>
+
+          <div className="h-px bg-slate-200/70" />
+
+          <form onSubmit={handleCreateAccount} className="space-y-4">
+            <p className="text-sm font-medium text-slate-700">O creá tu cuenta</p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Contraseña"
+              autoComplete="new-password"
+              minLength={8}
+              required
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Repetí la contraseña"
+              autoComplete="new-password"
+              minLength={8}
+              required
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-500">
+              Al menos 8 caracteres, con una mayúscula, una minúscula y un número.
+            </p>
+            <button type="submit" disabled={saving} className={buttonClass}>
+              {saving ? 'Creando cuenta...' : 'Crear cuenta y unirme'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+/**
+ * ManageBooking Component
+ * Visitor view of a booking reached through its management link:
+ * details, cancellation and rescheduling until the host's cutoff
+ */
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import DateTimePicker from './DateTimePicker';
+import { getBookingAvailability } from '@/actions/slots';
+import { cancelManagedBooking, rescheduleManagedBooking } from '@/actions/bookings';
+import { formatInTimeZone, getTimeZoneLabel } from '@/utils/dateHelpers';
+import { getGoogleCalendarUrl, getOutlookCalendarUrl } from '@/utils/calendarLinks';
+import type { BookingWindow, ManagedBooking, TimeSlot } from '@/types/database';
+import toast from 'react-hot-toast';
+
+interface ManageBookingProps {
+  token: string;
+  booking: ManagedBooking;
+  manageUrl: string; // absolute link to this page, for calendar event details
+  justBooked?: boolean; // shown as the booking confirmation
+}
+
+const STATUS_MESSAGES: Record<ManagedBooking['status'], string> = {
+  confirmed: 'Tu reserva está confirmada',
+  cancelled: 'Esta reserva fue cancelada',
+  completed: 'Esta reunión ya se realizó',
+  no_show: 'Esta reunión ya pasó',
+};
+
+type Mode = 'view' | 'cancel' | 'reschedule';
+
+export default function ManageBooking({ token, booking, manageUrl, justBooked = false }: ManageBookingProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>('view');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [bookingWindow, setBookingWindow] = useState<BookingWindow | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+
+  // Times are shown in the zone the visitor booked from
+  const timeZone = booking.timezone ?? booking.hostTimeZone;
+
+  const calendarEvent = {
+    title: booking.title,
+    start: booking.start_time,
+    end: booking.end_time,
+    details: `Ver, cancelar o reprogramar: ${manageUrl}`,
+  };
+
+  const startReschedule = async () => {
+    setMode('reschedule');
+    setSelectedSlot(null);
+    setSlotsLoading(true);
+    try {
+      const availability = await getBookingAvailability(booking.meetingTypeId, booking.hostId);
+      setSlots(availability.slots);
+      setBookingWindow(availability.window);
+    } catch (error) {
+      console.error('Error loading slots:', error);
+      toast.error('Error al cargar los horarios disponibles');
+    } finally {
+      setSlotsLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setSaving(true);
+    const result = await cancelManagedBooking(token, reason || null);
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Error al cancelar la reserva');
+      return;
+    }
+
+    toast.success('Reserva cancelada');
+    setMode('view');
+    router.refresh();
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedSlot) return;
+
+    setSaving(true);
+    const result = await rescheduleManagedBooking({
+      token,
+      slot_start: new Date(selectedSlot.start).toISOString(),
+      slot_end: new Date(selectedSlot.end).toISOString(),
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Error al reprogramar la reserva');
+      if (result.code === 'SLOT_TAKEN') {
+        startReschedule();
+      }
+      return;
+    }
+
+    toast.success(
+      `Reserva reprogramada para el ${formatInTimeZone(selectedSlot.start, "d 'de' MMMM, HH:mm", timeZone)}`
+    );
+    setMode('view');
+    router.refresh();
+  };
+
+  if (mode === 'reschedule') {
+    return (
+      <div className="flex flex-col gap-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900 mb-1">Elige un nuevo horario</h1>
+            <p className="text-sm text-slate-600">
+              Actual: {formatInTimeZone(booking.start_time, "EEEE d 'de' MMMM, HH:mm", timeZone)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setMode('view')}
+            disabled={saving}
+            className="text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors"
+          >
+            Volver
+          </button>
+        </div>
+
+        <DateTimePicker
+          slots={slots}
+          selectedSlot={selectedSlot || undefined}
+          onSlotClick={(slot) => slot.available && setSelectedSlot(slot)}
+          onNextClick={handleReschedule}
+          loading={slotsLoading || saving}
+          timeZone={timeZone}
+          hostTimeZone={booking.hostTimeZone}
+          minDate={bookingWindow?.minDate}
+          maxDate={bookingWindow?.maxDate}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto flex flex-col gap-6">
+      <div className="text-center">
+        <p className="text-sm font-medium text-blue-700 mb-2">
+          {justBooked && booking.status === 'confirmed' ? '¡Reserva confirmada!' : STATUS_MESSAGES[booking.status]}
+        </p>
+        <h1 className="text-2xl sm:text-3xl font-semibold text-slate-900 tracking-tight">{booking.title}</h1>
+      </div>
+
+      <div className="rounded-2xl bg-white/70 border border-white/60 p-5 flex flex-col gap-2 text-sm text-slate-700">
+        <p className="capitalize">
+          {formatInTimeZone(booking.start_time, "EEEE d 'de' MMMM yyyy", timeZone)}
+        </p>
+        <p>
+          {formatInTimeZone(booking.start_time, 'HH:mm', timeZone)}
+          {' - '}
+          {formatInTimeZone(booking.end_time, 'HH:mm', timeZone)}
+          <span className="text-slate-500"> · {getTimeZoneLabel(timeZone, new Date(booking.start_time))}</span>
+        </p>
+        <p className="text-slate-500">
+          {booking.name} · {booking.email}
+        </p>
+      </div>
+
+      {booking.status === 'confirmed' && (
+        <div className="flex flex-col gap-2">
+          <p className="text-xs font-medium text-center text-slate-500 uppercase tracking-wide">Agregar al calendario</p>
+          <div className="grid grid-cols-3 gap-2">
+            <a
+              href={getGoogleCalendarUrl(calendarEvent)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="h-10 inline-flex items-center justify-center rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              Google
+            </a>
+            <a
+              href={getOutlookCalendarUrl(calendarEvent)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="h-10 inline-flex items-center justify-center rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              Outlook
+            </a>
+            <a
+              href={`/booking/${token}/invite.ics`}
+              download
+              className="h-10 inline-flex items-center justify-center rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              Apple / .ics
+            </a>
+          </div>
+        </div>
+      )}
+
+      {booking.status === 'confirmed' && !booking.canChange && (
+        <p className="text-sm text-center text-slate-600">
+          Ya pasó el plazo para cancelar o reprogramar esta reserva. Si necesitas cambiarla, contacta al anfitrión.
+        </p>
+      )}
+
+      {booking.canChange && mode === 'view' && (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              type="button"
+              onClick={startReschedule}
+              className="flex-1 h-11 rounded-xl bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 transition-colors"
+            >
+              Reprogramar
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode('cancel')}
+              className="flex-1 h-11 rounded-xl border border-slate-200 bg-white text-slate-700 text-sm font-semibold hover:bg-slate-50 transition-colors"
+            >
+              Cancelar reserva
+            </button>
+          </div>
+          <p className="text-xs text-center text-slate-500">
+            Puedes hacer cambios hasta el{' '}
+            {formatInTimeZone(booking.changeDeadline, "d 'de' MMMM, HH:mm", timeZone)}
+          </p>
+        </div>
+      )}
+
+      {booking.canChange && mode === 'cancel' && (
+        <div className="rounded-2xl bg-white/70 border border-white/60 p-5 flex flex-col gap-3">
+          <label htmlFor="cancel-reason" className="text-sm font-medium text-slate-700">
+            Motivo de la cancelación (opcional)
+          </label>
+          <textarea
+            id="cancel-reason"
+            rows={3}
+            maxLength={500}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            disabled={saving}
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+          />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setMode('view')}
+              disabled={saving}
+              className="flex-1 h-11 rounded-xl border border-slate-200 bg-white text-slate-700 text-sm font-semibold hover:bg-slate-50 transition-colors"
+            >
+              Volver
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={saving}
+              className="flex-1 h-11 rounded-xl bg-red-600 text-white text-sm font-semibold hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Cancelando...' : 'Confirmar cancelación'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
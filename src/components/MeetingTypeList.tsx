@@ -0,0 +1,65 @@
+/**
+ * MeetingTypeList Component
+ * Landing page of a host's booking URL: one card per active meeting type,
+ * each linking to its calendar
+ */
+import Link from 'next/link';
+import type { HostProfile, MeetingType } from '@/types/database';
+
+interface MeetingTypeListProps {
+  meetingTypes: MeetingType[];
+  basePath: string; // /appointment or /<username>
+  host?: HostProfile | null;
+}
+
+export default function MeetingTypeList({ meetingTypes, basePath, host = null }: MeetingTypeListProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12 sm:py-16 lg:py-20">
+      <div className="w-full max-w-[800px]">
+        <div className="mb-6 sm:mb-8 text-center">
+          {host && (
+            <>
+              <p className="mb-2 text-sm font-medium text-slate-500">{host.display_name}</p>
+              {host.bio && <p className="mb-4 text-slate-600 text-sm sm:text-base">{host.bio}</p>}
+            </>
+          )}
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-semibold text-slate-900 mb-3 tracking-tight">
+            ¿Qué tipo de reunión quieres reservar?
+          </h1>
+          <p className="text-slate-600 text-sm sm:text-base">
+            Elige una opción para ver los horarios disponibles
+          </p>
+        </div>
+
+        <div className="relative bg-white/40 backdrop-blur-2xl rounded-3xl sm:rounded-4xl border border-white/50 shadow-2xl shadow-blue-900/10 overflow-hidden">
+          <div className="absolute inset-0 bg-linear-to-br from-white/60 via-white/40 to-white/20 pointer-events-none rounded-3xl sm:rounded-4xl" />
+
+          <ul className="relative divide-y divide-slate-200/70">
+            {meetingTypes.map((meetingType) => (
+              <li key={meetingType.id}>
+                <Link
+                  href={`${basePath}/${meetingType.slug}`}
+                  className="flex items-start gap-4 px-8 sm:px-10 py-6 hover:bg-white/50 transition-colors"
+                >
+                  <span
+                    className="mt-1.5 w-3 h-3 rounded-full shrink-0"
+                    style={{ backgroundColor: meetingType.color }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-baseline justify-between gap-4">
+                      <h2 className="text-lg font-semibold text-slate-900">{meetingType.name}</h2>
+                      <span className="text-sm text-slate-500 shrink-0">{meetingType.duration_minutes} min</span>
+                    </div>
+                    {meetingType.description && (
+                      <p className="mt-1 text-sm text-slate-600">{meetingType.description}</p>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+/**
+ * MeetingTypesPanel Component
+ * Admin panel for meeting types: duration, buffers, notice and the URL of
+ * each one's booking page
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  createMeetingType,
+  deleteMeetingType,
+  getMeetingTypes,
+  updateMeetingType,
+} from '@/actions/meetingTypes';
+import { getHostProfile } from '@/actions/hostProfiles';
+import type { MeetingTypeInput } from '@/utils/validations';
+import type { MeetingType } from '@/types/database';
+import toast from 'react-hot-toast';
+
+const EMPTY_FORM: MeetingTypeInput = {
+  name: '',
+  slug: '',
+  description: '',
+  duration_minutes: 30,
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 0,
+  min_notice_hours: 12,
+  color: '#2563eb',
+  is_active: true,
+};
+
+const NUMBER_FIELDS: { key: keyof MeetingTypeInput; label: string; min: number; max: number }[] = [
+  { key: 'duration_minutes', label: 'Duración (min)', min: 5, max: 480 },
+  { key: 'buffer_before_minutes', label: 'Margen antes (min)', min: 0, max: 240 },
+  { key: 'buffer_after_minutes', label: 'Margen después (min)', min: 0, max: 240 },
+  { key: 'min_notice_hours', label: 'Anticipación mínima (h)', min: 0, max: 168 },
+];
+
+// "Consulta inicial" -> "consulta-inicial"
+const toSlug = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+const toForm = (meetingType: MeetingType): MeetingTypeInput => ({
+  name: meetingType.name,
+  slug: meetingType.slug,
+  description: meetingType.description ?? '',
+  duration_minutes: meetingType.duration_minutes,
+  buffer_before_minutes: meetingType.buffer_before_minutes,
+  buffer_after_minutes: meetingType.buffer_after_minutes,
+  min_notice_hours: meetingType.min_notice_hours,
+  color: meetingType.color,
+  is_active: meetingType.is_active,
+});
+
+export default function MeetingTypesPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [meetingTypes, setMeetingTypes] = useState<MeetingType[]>([]);
+  // null: form closed; 'new' or the id of the type being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MeetingTypeInput>(EMPTY_FORM);
+  const [slugEdited, setSlugEdited] = useState(false);
+  // Where the booking pages live: the host's public URL once they pick a username
+  const [basePath, setBasePath] = useState('/appointment');
+
+  useEffect(() => {
+    loadMeetingTypes();
+  }, []);
+
+  const loadMeetingTypes = async () => {
+    try {
+      const [result, profile] = await Promise.all([getMeetingTypes(), getHostProfile()]);
+      if (profile.success && profile.data) {
+        setBasePath(`/${profile.data.username}`);
+      }
+      if (result.success) {
+        setMeetingTypes(result.data || []);
+      } else {
+        toast.error(result.error || 'Error al cargar los tipos de reunión');
+      }
+    } catch (error) {
+      console.error('Load meeting types error:', error);
+      toast.error('Error al cargar los tipos de reunión');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (meetingType?: MeetingType) => {
+    setEditingId(meetingType ? meetingType.id : 'new');
+    setForm(meetingType ? toForm(meetingType) : EMPTY_FORM);
+    // Existing URLs may already be shared, so they only change by hand
+    setSlugEdited(Boolean(meetingType));
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleNameChange = (name: string) => {
+    setForm((prev) => ({ ...prev, name, slug: slugEdited ? prev.slug : toSlug(name) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = { ...form, description: form.description?.trim() || null };
+
+    setSaving(true);
+    const result =
+      editingId && editingId !== 'new'
+        ? await updateMeetingType({ ...input, id: editingId })
+        : await createMeetingType(input);
+    setSaving(false);
+
+    if (result.success && result.data) {
+      const saved = result.data;
+      setMeetingTypes((prev) =>
+        prev.some((m) => m.id === saved.id) ? prev.map((m) => (m.id === saved.id ? saved : m)) : [...prev, saved]
+      );
+      closeForm();
+      toast.success('Tipo de reunión guardado');
+    } else {
+      toast.error(result.error || 'Error al guardar');
+    }
+  };
+
+  const handleDelete = async (meetingType: MeetingType) => {
+    if (!confirm(`Las reservas ya hechas se mantienen. ¿Eliminar "${meetingType.name}"?`)) {
+      return;
+    }
+
+    const result = await deleteMeetingType(meetingType.id);
+    if (result.success) {
+      setMeetingTypes((prev) => prev.filter((m) => m.id !== meetingType.id));
+      if (editingId === meetingType.id) closeForm();
+      toast.success('Tipo de reunión eliminado');
+    } else {
+      toast.error(result.error || 'Error al eliminar');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Tipos de reunión</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Cada tipo tiene su duración, márgenes y anticipación, y su propia página en {basePath}. Sin ninguno, las
+          reservas usan la duración y el margen de arriba.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {meetingTypes.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {meetingTypes.map((meetingType) => (
+              <li key={meetingType.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: meetingType.color }} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {meetingType.name}
+                    {!meetingType.is_active && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        Inactivo
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {basePath}/{meetingType.slug} · {meetingType.duration_minutes} min
+                    {(meetingType.buffer_before_minutes > 0 || meetingType.buffer_after_minutes > 0) &&
+                      ` · márgenes ${meetingType.buffer_before_minutes}/${meetingType.buffer_after_minutes} min`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => openForm(meetingType)}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Editar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(meetingType)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    Eliminar
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editingId ? (
+          <form onSubmit={handleSubmit} className="space-y-4 border border-gray-200 rounded-lg p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nombre</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  placeholder="Consulta inicial"
+                  maxLength={100}
+                  required
+                  className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">URL</label>
+                <div className="flex items-center h-10 rounded-lg border border-gray-300 overflow-hidden">
+                  <span className="px-3 text-sm text-gray-500 bg-gray-50 h-full flex items-center border-r border-gray-300">
+                    {basePath}/
+                  </span>
+                  <input
+                    type="text"
+                    value={form.slug}
+                    onChange={(e) => {
+                      setSlugEdited(true);
+                      setForm((prev) => ({ ...prev, slug: e.target.value }));
+                    }}
+                    maxLength={60}
+                    required
+                    className="flex-1 min-w-0 h-full px-3 text-sm text-gray-900 font-mono"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Descripción</label>
+              <textarea
+                value={form.description ?? ''}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                maxLength={1000}
+                className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-900"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {NUMBER_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+                  <input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    value={form[field.key] as number}
+                    onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                    required
+                    className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm((prev) => ({ ...prev, color: e.target.value }))}
+                  className="h-8 w-10 rounded border border-gray-300"
+                />
+                Color
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm((prev) => ({ ...prev, is_active: e.target.checked }))}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Activo (visible y reservable)
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'Guardando...' : 'Guardar'}
+              </button>
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 rounded-lg border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancelar
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Agregar tipo de reunión
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
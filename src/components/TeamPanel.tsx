@@ -0,0 +1,446 @@
+/**
+ * TeamPanel Component
+ * Admin panel for the host's organization: create it, members and their
+ * roles, invitations by email, leave or delete the team
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createOrganization,
+  deleteOrganization,
+  getTeam,
+  inviteMember,
+  leaveOrganization,
+  removeMember,
+  revokeInvite,
+  updateMemberRole,
+  updateOrganization,
+} from '@/actions/organizations';
+import type { OrganizationInvite, OrganizationRole, TeamMember, TeamOverview } from '@/types/database';
+import { ORGANIZATION_ROLES, TEAM_MANAGE_ROLES } from '@/types/database';
+import type { OrganizationInviteInput } from '@/utils/validations';
+import toast from 'react-hot-toast';
+
+interface TeamPanelProps {
+  onTeamChanged?: () => void; // the dashboard's team view depends on the role
+}
+
+type MemberRole = OrganizationInviteInput['role'];
+
+// Roles that can be given to a member (ownership isn't handed out)
+const MEMBER_ROLES = ORGANIZATION_ROLES.filter((r) => r.role !== 'owner');
+
+const roleLabel = (role: OrganizationRole): string =>
+  ORGANIZATION_ROLES.find((r) => r.role === role)?.label ?? role;
+
+const formatDate = (date: string): string =>
+  new Date(date).toLocaleDateString('es-AR', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function TeamPanel({ onTeamChanged }: TeamPanelProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [team, setTeam] = useState<TeamOverview | null>(null);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('staff');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    try {
+      const result = await getTeam();
+      if (result.success) {
+        setTeam(result.data ?? null);
+        setName(result.data?.organization.name ?? '');
+      } else {
+        toast.error(result.error || 'Error al cargar el equipo');
+      }
+    } catch (error) {
+      console.error('Load team error:', error);
+      toast.error('Error al cargar el equipo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refresh = async () => {
+    await loadTeam();
+    onTeamChanged?.();
+  };
+
+  const canManage = !!team && TEAM_MANAGE_ROLES.includes(team.role);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const result = await createOrganization({ name });
+    setSaving(false);
+
+    if (result.success) {
+      toast.success('Equipo creado');
+      await refresh();
+    } else {
+      toast.error(result.error || 'Error al crear el equipo');
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const result = await updateOrganization({ name });
+    setSaving(false);
+
+    if (result.success) {
+      setTeam((prev) => prev && { ...prev, organization: { ...prev.organization, name: name.trim() } });
+      toast.success('Equipo guardado');
+    } else {
+      toast.error(result.error || 'Error al guardar el equipo');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const result = await inviteMember({ email: inviteEmail, role: inviteRole });
+    setSaving(false);
+
+    if (result.success && result.data) {
+      setInviteUrl(result.data.url);
+      setInviteEmail('');
+      toast.success('Invitación enviada');
+      await loadTeam();
+    } else {
+      toast.error(result.error || 'Error al enviar la invitación');
+    }
+  };
+
+  const handleRevoke = async (invite: OrganizationInvite) => {
+    if (!confirm(`El enlace enviado a ${invite.email} dejará de funcionar. ¿Revocar la invitación?`)) {
+      return;
+    }
+
+    const result = await revokeInvite(invite.id);
+    if (result.success) {
+      setTeam((prev) => prev && { ...prev, invites: prev.invites.filter((i) => i.id !== invite.id) });
+      toast.success('Invitación revocada');
+    } else {
+      toast.error(result.error || 'Error al revocar');
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: MemberRole) => {
+    const result = await updateMemberRole({ user_id: member.user_id, role });
+    if (result.success) {
+      setTeam((prev) => prev && {
+        ...prev,
+        members: prev.members.map((m) => (m.user_id === member.user_id ? { ...m, role } : m)),
+      });
+      toast.success('Rol actualizado');
+    } else {
+      toast.error(result.error || 'Error al cambiar el rol');
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!confirm(`${member.display_name ?? member.email} dejará de ver el calendario del equipo. ¿Quitarlo?`)) {
+      return;
+    }
+
+    const result = await removeMember(member.user_id);
+    if (result.success) {
+      setTeam((prev) => prev && { ...prev, members: prev.members.filter((m) => m.user_id !== member.user_id) });
+      toast.success('Miembro quitado');
+    } else {
+      toast.error(result.error || 'Error al quitar el miembro');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm('Vas a dejar de ver el calendario del equipo. ¿Dejar el equipo?')) {
+      return;
+    }
+
+    const result = await leaveOrganization();
+    if (result.success) {
+      toast.success('Dejaste el equipo');
+      await refresh();
+    } else {
+      toast.error(result.error || 'Error al dejar el equipo');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Los miembros conservan sus calendarios pero dejan de compartirlos. ¿Eliminar el equipo?')) {
+      return;
+    }
+
+    const result = await deleteOrganization();
+    if (result.success) {
+      toast.success('Equipo eliminado');
+      await refresh();
+    } else {
+      toast.error(result.error || 'Error al eliminar el equipo');
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Enlace copiado');
+    } catch {
+      toast.error('No se pudo copiar el enlace');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Equipo</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Compartí el panel con otros anfitriones: cada uno tiene su calendario y su rol decide qué ve del resto
+        </p>
+      </div>
+
+      {!team ? (
+        <form onSubmit={handleCreate} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nombre del equipo</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Consultorio Centro"
+              maxLength={100}
+              required
+              className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Vas a ser el propietario. Para sumarte a un equipo que ya existe, pedile una invitación a quien lo administra.
+          </p>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Creando...' : 'Crear equipo'}
+          </button>
+        </form>
+      ) : (
+        <div className="p-6 space-y-6">
+          {canManage ? (
+            <form onSubmit={handleRename} className="flex gap-2 items-end">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nombre del equipo</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={100}
+                  required
+                  className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving || name.trim() === team.organization.name}
+                className="h-10 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Guardar
+              </button>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-700">
+              <span className="font-medium text-gray-900">{team.organization.name}</span> · Tu rol:{' '}
+              {roleLabel(team.role)}
+            </p>
+          )}
+
+          {/* Members */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Miembros</h4>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {team.members.map((member) => {
+                const isSelf = member.user_id === user?.id;
+                const editable = canManage && !isSelf && member.role !== 'owner';
+
+                return (
+                  <li key={member.user_id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {member.display_name ?? member.email}
+                        {isSelf && <span className="ml-2 text-xs font-normal text-gray-500">(vos)</span>}
+                      </p>
+                      {member.display_name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                    </div>
+                    {editable ? (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                          className="h-9 px-2 rounded-lg border border-gray-300 text-sm text-gray-900"
+                        >
+                          {MEMBER_ROLES.map((r) => (
+                            <option key={r.role} value={r.role}>
+                              {r.label}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(member)}
+                          className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                        >
+                          Quitar
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 w-fit">
+                        {roleLabel(member.role)}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            <ul className="mt-3 space-y-1 text-xs text-gray-500">
+              {ORGANIZATION_ROLES.map((r) => (
+                <li key={r.role}>
+                  <span className="font-medium text-gray-700">{r.label}:</span> {r.description}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {canManage && (
+            <>
+              {/* Invites */}
+              <form onSubmit={handleInvite} className="space-y-4">
+                <h4 className="text-sm font-medium text-gray-700">Invitar</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="email@ejemplo.com"
+                    maxLength={255}
+                    required
+                    className="sm:col-span-2 w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+                    className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900"
+                  >
+                    {MEMBER_ROLES.map((r) => (
+                      <option key={r.role} value={r.role}>
+                        {r.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {saving ? 'Enviando...' : 'Enviar invitación'}
+                </button>
+              </form>
+
+              {inviteUrl && (
+                <div className="p-4 rounded-lg border border-green-200 bg-green-50 space-y-2">
+                  <p className="text-sm font-medium text-green-800">
+                    Le enviamos el enlace por email. También podés compartirlo vos: funciona una sola vez, para ese email.
+                  </p>
+                  <div className="flex gap-2 items-center">
+                    <code className="flex-1 min-w-0 truncate text-xs text-gray-900">{inviteUrl}</code>
+                    <button
+                      type="button"
+                      onClick={() => copyUrl(inviteUrl)}
+                      className="text-xs font-medium text-blue-600 hover:underline"
+                    >
+                      Copiar
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setInviteUrl(null)}
+                      className="text-xs font-medium text-gray-600 hover:underline"
+                    >
+                      Listo
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {team.invites.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Invitaciones pendientes</h4>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {team.invites.map((invite) => (
+                      <li key={invite.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{invite.email}</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {roleLabel(invite.role)} ·{' '}
+                            {new Date(invite.expires_at) < new Date()
+                              ? 'Vencida'
+                              : `Vence el ${formatDate(invite.expires_at)}`}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleRevoke(invite)}
+                          className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                        >
+                          Revocar
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="pt-4 border-t border-gray-200">
+            {team.role === 'owner' ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Eliminar equipo
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleLeave}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Dejar el equipo
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
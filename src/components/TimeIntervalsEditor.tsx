@@ -0,0 +1,92 @@
+/**
+ * TimeIntervalsEditor Component
+ * Editable list of HH:mm windows (weekly schedule and date overrides)
+ */
+'use client';
+
+import type { TimeInterval } from '@/types/database';
+import { minutesToTime, timeToMinutes } from '@/utils/availability';
+
+interface TimeIntervalsEditorProps {
+  intervals: TimeInterval[];
+  onChange: (intervals: TimeInterval[]) => void;
+  error?: string;
+  errorIndex?: number; // window to highlight, if the error points at one
+}
+
+export default function TimeIntervalsEditor({
+  intervals,
+  onChange,
+  error,
+  errorIndex,
+}: TimeIntervalsEditorProps) {
+  const updateInterval = (index: number, field: keyof TimeInterval, value: string) => {
+    onChange(
+      intervals.map((interval, i) =>
+        i === index ? { ...interval, [field]: value } : interval
+      )
+    );
+  };
+
+  const addInterval = () => {
+    // New window starts one hour after the last one ends
+    const last = intervals[intervals.length - 1];
+    const start = last ? timeToMinutes(last.end_time) + 60 : 9 * 60;
+    onChange([
+      ...intervals,
+      { start_time: minutesToTime(start), end_time: minutesToTime(start + 60) },
+    ]);
+  };
+
+  const removeInterval = (index: number) => {
+    onChange(intervals.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 flex-1">
+      {intervals.map((interval, index) => {
+        const inputClass = `h-9 px-3 rounded-lg border text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+          errorIndex === index ? 'border-red-400' : 'border-gray-300'
+        }`;
+
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="time"
+              value={interval.start_time}
+              onChange={(e) => updateInterval(index, 'start_time', e.target.value)}
+              className={inputClass}
+            />
+            <span className="text-gray-500">a</span>
+            <input
+              type="time"
+              value={interval.end_time}
+              onChange={(e) => updateInterval(index, 'end_time', e.target.value)}
+              className={inputClass}
+            />
+            {intervals.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeInterval(index)}
+                className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                title="Quitar franja"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={addInterval}
+        className="self-start text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        + Agregar franja
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * TimeZoneSelect Component
+ * Lets visitors choose the zone slot times are displayed in
+ */
+'use client';
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { getBrowserTimeZone, getTimeZoneLabel, getTimeZoneOptions } from '@/utils/dateHelpers';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  disabled?: boolean;
+}
+
+const subscribe = () => () => {};
+
+/**
+ * Browser zone once hydrated; `fallback` while rendering on the server
+ */
+export function useBrowserTimeZone(fallback: string): string {
+  return useSyncExternalStore(subscribe, getBrowserTimeZone, () => fallback);
+}
+
+export default function TimeZoneSelect({ value, onChange, disabled = false }: TimeZoneSelectProps) {
+  const options = useMemo(() => {
+    const zones = getTimeZoneOptions();
+    const list = zones.includes(value) ? zones : [value, ...zones];
+    return list.map((zone) => ({ value: zone, label: getTimeZoneLabel(zone) }));
+  }, [value]);
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+      <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 21a9 9 0 100-18 9 9 0 000 18zm0 0c2.5-2.4 3.75-5.4 3.75-9S14.5 5.4 12 3m0 18c-2.5-2.4-3.75-5.4-3.75-9S9.5 5.4 12 3M3.5 9h17m-17 6h17" />
+      </svg>
+      <span className="sr-only">Zona horaria</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="h-9 max-w-[260px] rounded-xl border border-white/50 bg-white/50 backdrop-blur-md px-3 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-300/50 disabled:opacity-50"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
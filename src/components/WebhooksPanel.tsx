@@ -0,0 +1,372 @@
+/**
+ * WebhooksPanel Component
+ * Admin panel for webhook endpoints: subscribed events, signing secret,
+ * test sends and the delivery log
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  rotateWebhookSecret,
+  sendWebhookTest,
+  updateWebhook,
+} from '@/actions/webhooks';
+import { WEBHOOK_EVENTS } from '@/types/database';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '@/types/database';
+import toast from 'react-hot-toast';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  delivered: { label: 'Entregado', className: 'bg-green-100 text-green-700' },
+  pending: { label: 'Reintentando', className: 'bg-yellow-100 text-yellow-700' },
+  failed: { label: 'Fallido', className: 'bg-red-100 text-red-700' },
+};
+
+const formatDateTime = (date: string): string =>
+  new Date(date).toLocaleString('es-AR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const [loading, setLoading] = useState(true);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getWebhookDeliveries(webhookId).then((result) => {
+      if (result.success) {
+        setDeliveries(result.data || []);
+      } else {
+        toast.error(result.error || 'Error al cargar los envíos');
+      }
+      setLoading(false);
+    });
+  }, [webhookId]);
+
+  if (loading) {
+    return <p className="text-xs text-gray-500">Cargando envíos...</p>;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-gray-500">Todavía no hubo envíos</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-xs">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="p-3">
+          <button
+            type="button"
+            onClick={() => setOpenId(openId === delivery.id ? null : delivery.id)}
+            className="w-full flex flex-wrap items-center gap-2 text-left"
+          >
+            <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[delivery.status].className}`}>
+              {STATUS_STYLES[delivery.status].label}
+            </span>
+            <span className="font-mono text-gray-900">{delivery.event_type}</span>
+            <span className="text-gray-500">{formatDateTime(delivery.created_at)}</span>
+            <span className="text-gray-500 ml-auto">
+              {delivery.last_status_code ?? '—'} · {delivery.attempts} {delivery.attempts === 1 ? 'intento' : 'intentos'}
+            </span>
+          </button>
+          {openId === delivery.id && (
+            <div className="mt-2 space-y-1">
+              {delivery.last_error && <p className="text-red-600">{delivery.last_error}</p>}
+              {delivery.status === 'pending' && delivery.next_attempt_at && (
+                <p className="text-gray-500">Próximo intento: {formatDateTime(delivery.next_attempt_at)}</p>
+              )}
+              <pre className="p-2 bg-gray-50 rounded overflow-x-auto text-gray-700">
+                {JSON.stringify(delivery.payload, null, 2)}
+              </pre>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function WebhooksPanel() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+  const [logVersion, setLogVersion] = useState(0); // remounts the log after a test
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(WEBHOOK_EVENTS.map((event) => event.type));
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      const result = await getWebhooks();
+      if (result.success) {
+        setWebhooks(result.data || []);
+      } else {
+        toast.error(result.error || 'Error al cargar los webhooks');
+      }
+    } catch (error) {
+      console.error('Load webhooks error:', error);
+      toast.error('Error al cargar los webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleEvent = (list: WebhookEventType[], type: WebhookEventType): WebhookEventType[] =>
+    list.includes(type) ? list.filter((t) => t !== type) : [...list, type];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const result = await createWebhook({ url, events });
+    setSaving(false);
+
+    if (result.success && result.data) {
+      const created = result.data;
+      setWebhooks((prev) => [...prev, created]);
+      setRevealedId(created.id);
+      setUrl('');
+      toast.success('Webhook creado. Guardá el secreto para verificar las firmas');
+    } else {
+      toast.error(result.error || 'Error al crear el webhook');
+    }
+  };
+
+  const handleUpdate = async (webhook: Webhook, changes: Partial<Pick<Webhook, 'events' | 'is_active'>>) => {
+    if (changes.events?.length === 0) {
+      toast.error('Elegí al menos un evento');
+      return;
+    }
+
+    const previous = webhooks;
+    setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? { ...w, ...changes } : w)));
+
+    const result = await updateWebhook({ id: webhook.id, ...changes });
+    if (!result.success) {
+      setWebhooks(previous);
+      toast.error(result.error || 'Error al guardar');
+    }
+  };
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    const result = await sendWebhookTest(id);
+    setTestingId(null);
+
+    if (result.success) {
+      toast.success(`Prueba entregada (HTTP ${result.data?.statusCode})`);
+    } else {
+      toast.error(result.error || 'Error al enviar la prueba');
+    }
+
+    setLogId(id);
+    setLogVersion((version) => version + 1);
+  };
+
+  const handleRotate = async (id: string) => {
+    if (!confirm('Las firmas con el secreto actual dejarán de verificarse. ¿Generar uno nuevo?')) {
+      return;
+    }
+
+    const result = await rotateWebhookSecret(id);
+    if (result.success && result.data) {
+      const { secret } = result.data;
+      setWebhooks((prev) => prev.map((w) => (w.id === id ? { ...w, secret } : w)));
+      setRevealedId(id);
+      toast.success('Secreto regenerado');
+    } else {
+      toast.error(result.error || 'Error al regenerar el secreto');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Se dejará de notificar a ${webhook.url}. ¿Eliminar el webhook?`)) {
+      return;
+    }
+
+    const result = await deleteWebhook(webhook.id);
+    if (result.success) {
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      toast.success('Webhook eliminado');
+    } else {
+      toast.error(result.error || 'Error al eliminar');
+    }
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Secreto copiado');
+    } catch {
+      toast.error('No se pudo copiar el secreto');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="inline-flex h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Webhooks</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Avisá a otros sistemas (CRM, automatizaciones) cuando cambian tus reservas o eventos
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {webhooks.map((webhook) => (
+          <div key={webhook.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <p className="flex-1 min-w-0 font-mono text-sm text-gray-900 truncate">{webhook.url}</p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={webhook.is_active}
+                  onChange={(e) => handleUpdate(webhook, { is_active: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Activo
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label
+                  key={event.type}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border cursor-pointer transition-colors ${
+                    webhook.events.includes(event.type)
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    className="sr-only"
+                    checked={webhook.events.includes(event.type)}
+                    onChange={() => handleUpdate(webhook, { events: toggleEvent(webhook.events, event.type) })}
+                  />
+                  {event.label}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-2 items-center">
+              <span className="text-xs text-gray-500">Secreto:</span>
+              <code className="flex-1 min-w-0 truncate text-xs text-gray-700">
+                {revealedId === webhook.id ? webhook.secret : '••••••••••••••••'}
+              </code>
+              <button
+                type="button"
+                onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                className="text-xs font-medium text-blue-600 hover:underline"
+              >
+                {revealedId === webhook.id ? 'Ocultar' : 'Mostrar'}
+              </button>
+              <button
+                type="button"
+                onClick={() => copySecret(webhook.secret)}
+                className="text-xs font-medium text-blue-600 hover:underline"
+              >
+                Copiar
+              </button>
+            </div>
+
+            <div className="pt-3 border-t border-gray-100 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => handleTest(webhook.id)}
+                disabled={testingId === webhook.id}
+                className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                {testingId === webhook.id ? 'Enviando...' : 'Enviar prueba'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setLogId(logId === webhook.id ? null : webhook.id)}
+                className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                {logId === webhook.id ? 'Ocultar envíos' : 'Ver envíos'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRotate(webhook.id)}
+                className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Regenerar secreto
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(webhook)}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Eliminar
+              </button>
+            </div>
+
+            {logId === webhook.id && <DeliveryLog key={logVersion} webhookId={webhook.id} />}
+          </div>
+        ))}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">URL del endpoint</label>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://mi-crm.com/webhooks/agenda"
+              required
+              className="w-full h-10 px-3 rounded-lg border border-gray-300 text-sm text-gray-900 font-mono"
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Eventos</span>
+            <div className="flex flex-wrap gap-3">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event.type} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event.type)}
+                    onChange={() => setEvents((prev) => toggleEvent(prev, event.type))}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {event.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Cada envío es un POST JSON firmado: el header <code>X-Webhook-Signature</code> trae{' '}
+            <code>t=&lt;timestamp&gt;,v1=&lt;firma&gt;</code>, con la firma HMAC-SHA256 de{' '}
+            <code>&lt;timestamp&gt;.&lt;body&gt;</code> usando el secreto. Si el endpoint no responde 2xx, se reintenta
+            con espera creciente durante unas 2 horas.
+          </p>
+
+          <button
+            type="submit"
+            disabled={saving || events.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Creando...' : 'Agregar webhook'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
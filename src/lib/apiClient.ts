@@ -0,0 +1,184 @@
+/**
+ * REST API client (/api/v1)
+ * Generated from the OpenAPI document by scripts/generate-api-client.ts;
+ * don't edit by hand, run `npm run generate:api-client` instead.
+ */
+
+export interface CreateBookingInput {
+  slot_start: string;
+  slot_end: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  notes?: string | null;
+  timezone?: string | null;
+  meeting_type_id?: string | null;
+}
+
+export interface CancelBookingInput {
+  reason?: string | null;
+}
+
+export interface RescheduleBookingInput {
+  slot_start: string;
+  slot_end: string;
+}
+
+export interface Slot {
+  start: string;
+  end: string;
+  available: boolean;
+}
+
+export interface Event {
+  id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  event_type: 'meeting' | 'booking' | 'block' | 'personal';
+  overlap_policy: 'blocks' | 'allows_overlap' | 'informational';
+  is_public: boolean;
+  rrule: string | null;
+  exdates: string[];
+  recurrence_end: string | null;
+  recurrence_parent_id: string | null;
+  original_start: string | null;
+  created_at: string;
+  booking: {
+    id: string;
+    name: string;
+    email: string;
+    phone: string | null;
+    notes: string | null;
+    status: 'confirmed' | 'cancelled' | 'completed' | 'no_show';
+    status_reason: string | null;
+    status_changed_at: string | null;
+  } | null;
+  occurrence_start?: string;
+}
+
+export interface CreatedBooking {
+  id: string;
+  manage_url: string | null;
+}
+
+export interface CancelledBooking {
+  id: string;
+  status: 'cancelled';
+}
+
+export interface RescheduledBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface SlotList {
+  data: Slot[];
+}
+
+export interface EventList {
+  data: Event[];
+}
+
+export interface CreatedBookingResponse {
+  data: CreatedBooking;
+}
+
+export interface CancelledBookingResponse {
+  data: CancelledBooking;
+}
+
+export interface RescheduledBookingResponse {
+  data: RescheduledBooking;
+}
+
+export interface ApiError {
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface ListSlotsQuery {
+  date: string;
+  days?: number;
+  meeting_type_id?: string;
+}
+
+export interface ListEventsQuery {
+  start_date: string;
+  end_date: string;
+}
+
+export type ApiClientResult<T> =
+  | { success: true; status: number; data: T }
+  | { success: false; status: number; error: string; code: string };
+
+export interface ApiClientOptions {
+  apiKey: string;
+  baseUrl?: string; // e.g. https://tu-app.vercel.app/api/v1; same origin by default
+  fetch?: typeof fetch;
+}
+
+export function createApiClient({ apiKey, baseUrl = '/api/v1', fetch: fetchImpl = fetch }: ApiClientOptions) {
+  const request = async <T>(
+    method: string,
+    path: string,
+    { query, body }: { query?: object; body?: unknown } = {}
+  ): Promise<ApiClientResult<T>> => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined && value !== null) search.set(key, String(value));
+    }
+
+    const queryString = search.toString();
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}${path}${queryString ? `?${queryString}` : ''}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      return { success: false, status: 0, error: (error as Error).message, code: 'NETWORK_ERROR' };
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      return {
+        success: false,
+        status: response.status,
+        error: payload?.error?.message ?? response.statusText,
+        code: payload?.error?.code ?? 'SERVER_ERROR',
+      };
+    }
+
+    return { success: true, status: response.status, data: payload?.data as T };
+  };
+
+  return {
+    /** Horarios del host desde una fecha */
+    listSlots: (query: ListSlotsQuery) =>
+      request<SlotList['data']>('GET', `/slots`, { query }),
+    /** Reservar un horario */
+    createBooking: (body: CreateBookingInput) =>
+      request<CreatedBookingResponse['data']>('POST', `/bookings`, { body }),
+    /** Cancelar una reserva */
+    cancelBooking: (id: string, body?: CancelBookingInput) =>
+      request<CancelledBookingResponse['data']>('POST', `/bookings/${encodeURIComponent(id)}/cancel`, { body }),
+    /** Mover una reserva confirmada a otro horario */
+    rescheduleBooking: (id: string, body: RescheduleBookingInput) =>
+      request<RescheduledBookingResponse['data']>('POST', `/bookings/${encodeURIComponent(id)}/reschedule`, { body }),
+    /** Eventos del host en un rango de hasta 42 días */
+    listEvents: (query: ListEventsQuery) =>
+      request<EventList['data']>('GET', `/events`, { query }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
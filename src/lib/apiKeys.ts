@@ -0,0 +1,120 @@
+/**
+ * API keys for the REST API (/api/v1)
+ * A key acts as the host who created it. Only its SHA-256 is stored, so a
+ * lost key can't be recovered, only revoked and replaced. Keys are random
+ * enough that a fast hash is safe to look them up by.
+ * Server-only: keys are looked up with the service role.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+
+const KEY_PREFIX = 'agk_';
+
+// Characters of the key shown in the admin panel ('agk_' + 8)
+const VISIBLE_PREFIX_LENGTH = 12;
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+export interface ApiKeyIdentity {
+  keyId: string;
+  hostId: string;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export type ApiAuthResult =
+  | { ok: true; identity: ApiKeyIdentity; rateLimit: RateLimitState }
+  | { ok: false; status: 401 | 429 | 500; code: string; message: string; rateLimit?: RateLimitState };
+
+export const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key).digest('hex');
+};
+
+export const generateApiKey = (): { key: string; prefix: string; hash: string } => {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, VISIBLE_PREFIX_LENGTH), hash: hashApiKey(key) };
+};
+
+/**
+ * 'Authorization: Bearer <key>' or 'X-API-Key: <key>'
+ */
+const getRequestKey = (request: Request): string | null => {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim();
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+};
+
+/**
+ * Resolves the request's key and counts the request against its rate limit
+ */
+export async function authenticateApiRequest(request: Request): Promise<ApiAuthResult> {
+  const key = getRequestKey(request);
+  if (!key || !key.startsWith(KEY_PREFIX)) {
+    return { ok: false, status: 401, code: 'UNAUTHORIZED', message: 'Falta la API key o no es válida' };
+  }
+
+  try {
+    const supabase = createAdminSupabaseClient();
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .select('id, user_id, rate_limit_per_minute')
+      .eq('key_hash', hashApiKey(key))
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching API key:', error);
+      return { ok: false, status: 500, code: 'SERVER_ERROR', message: 'Error al verificar la API key' };
+    }
+    if (!apiKey) {
+      return { ok: false, status: 401, code: 'UNAUTHORIZED', message: 'Falta la API key o no es válida' };
+    }
+
+    const { data: usage, error: limitError } = await supabase
+      .rpc('consume_api_rate_limit', {
+        p_key_id: apiKey.id,
+        p_limit: apiKey.rate_limit_per_minute,
+        p_window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+      })
+      .single<{ allowed: boolean; remaining: number; reset_at: string }>();
+
+    if (limitError || !usage) {
+      console.error('Error checking API rate limit:', limitError);
+      return { ok: false, status: 500, code: 'SERVER_ERROR', message: 'Error al verificar el límite de uso' };
+    }
+
+    const rateLimit: RateLimitState = {
+      limit: apiKey.rate_limit_per_minute,
+      remaining: usage.remaining,
+      resetAt: new Date(usage.reset_at),
+    };
+
+    if (!usage.allowed) {
+      return {
+        ok: false,
+        status: 429,
+        code: 'RATE_LIMITED',
+        message: 'Se superó el límite de solicitudes de esta API key',
+        rateLimit,
+      };
+    }
+
+    // Best effort; only shown in the admin panel
+    await supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id);
+
+    return { ok: true, identity: { keyId: apiKey.id, hostId: apiKey.user_id }, rateLimit };
+  } catch (error) {
+    console.error('Unexpected error authenticating API request:', error);
+    return { ok: false, status: 500, code: 'SERVER_ERROR', message: 'Error al verificar la API key' };
+  }
+}
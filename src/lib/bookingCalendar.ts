@@ -0,0 +1,33 @@
+/**
+ * Calendar representation of a booking
+ * The same UID is used in every invite, download and feed, so calendar apps
+ * update the event they already have instead of adding a new one.
+ */
+import { buildIcsCalendar } from '@/lib/ics';
+import type { IcsEvent, IcsMethod } from '@/lib/ics';
+import { getSiteUrl } from '@/lib/siteUrl';
+import type { BookingEmailData } from '@/lib/mailer/templates';
+
+export const getBookingUid = (bookingId: string): string => {
+  return `booking-${bookingId}@${new URL(getSiteUrl()).hostname}`;
+};
+
+export const getBookingIcsEvent = (data: BookingEmailData): IcsEvent => ({
+  uid: getBookingUid(data.bookingId),
+  start: data.startTime,
+  end: data.endTime,
+  summary: data.title,
+  description: data.manageUrl ? `Ver, cancelar o reprogramar: ${data.manageUrl}` : null,
+  url: data.manageUrl,
+  status: data.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+  sequence: data.sequence,
+  organizer: data.hostEmail ? { email: data.hostEmail } : null,
+  attendees: [{ email: data.email, name: data.name }],
+});
+
+/**
+ * REQUEST/CANCEL for email invites, PUBLISH for downloads
+ */
+export const buildBookingIcs = (data: BookingEmailData, method: IcsMethod): string => {
+  return buildIcsCalendar({ method, events: [getBookingIcsEvent(data)] });
+};
@@ -0,0 +1,44 @@
+/**
+ * Booking management tokens
+ * Signed links that let a visitor manage their booking without an account:
+ * '<booking id>.<HMAC-SHA256 of the id>', both base64url.
+ * Server-only: requires BOOKING_TOKEN_SECRET.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const getSecret = (): string => {
+  const secret = process.env.BOOKING_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('BOOKING_TOKEN_SECRET is not configured');
+  }
+  return secret;
+};
+
+const sign = (payload: string): Buffer => {
+  return createHmac('sha256', getSecret()).update(`booking:${payload}`).digest();
+};
+
+export const createBookingToken = (bookingId: string): string => {
+  const payload = Buffer.from(bookingId).toString('base64url');
+  return `${payload}.${sign(bookingId).toString('base64url')}`;
+};
+
+/**
+ * Booking id the token was issued for, or null if it was tampered with
+ */
+export const verifyBookingToken = (token: string): string | null => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const bookingId = Buffer.from(payload, 'base64url').toString();
+  const expected = sign(bookingId);
+  const received = Buffer.from(signature, 'base64url');
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  return bookingId;
+};
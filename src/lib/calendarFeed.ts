@@ -0,0 +1,175 @@
+/**
+ * Private iCalendar feed of a host's agenda
+ * Served at /api/feed/<token>.ics for calendar apps to subscribe to.
+ * Server-only: looks the token up with the service role.
+ */
+import { addDays } from 'date-fns';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { buildIcsCalendar, formatIcsDate } from '@/lib/ics';
+import type { IcsEvent } from '@/lib/ics';
+import { getBookingUid } from '@/lib/bookingCalendar';
+import { getSiteUrl } from '@/lib/siteUrl';
+import { expandOccurrences } from '@/utils/recurrence';
+import { DEFAULT_SETTINGS } from '@/types/database';
+
+// Window of the agenda included in the feed
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+// How often subscribed apps are asked to refresh
+const FEED_REFRESH_MINUTES = 30;
+
+const FEED_EVENT_COLUMNS = `
+  id,
+  title,
+  description,
+  start_time,
+  end_time,
+  event_type,
+  overlap_policy,
+  is_public,
+  rrule,
+  exdates,
+  updated_at,
+  bookings (id, name, email, phone, notes, status)
+`;
+
+interface FeedEventRow {
+  id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  event_type: string;
+  overlap_policy: string;
+  is_public: boolean | null;
+  rrule: string | null;
+  exdates: string[] | null;
+  updated_at: string;
+  bookings: { id: string; name: string; email: string; phone: string | null; notes: string | null; status: string }[];
+}
+
+interface FeedOptions {
+  include_private: boolean;
+  include_attendees: boolean;
+}
+
+export const getCalendarFeedUrl = (token: string): string => {
+  return `${getSiteUrl()}/api/feed/${token}.ics`;
+};
+
+const getEventUid = (eventId: string, occurrenceStart?: Date): string => {
+  const occurrence = occurrenceStart ? `-${formatIcsDate(occurrenceStart)}` : '';
+  return `event-${eventId}${occurrence}@${new URL(getSiteUrl()).hostname}`;
+};
+
+const toIcsEvent = (event: FeedEventRow, options: FeedOptions): IcsEvent => {
+  const base = {
+    start: event.start_time,
+    end: event.end_time,
+    transparent: event.overlap_policy === 'informational',
+    lastModified: event.updated_at,
+  };
+
+  const booking = event.bookings?.[0];
+  if (booking) {
+    // Without attendee details the booking is just busy time with a generic title
+    return {
+      ...base,
+      uid: getBookingUid(booking.id),
+      summary: options.include_attendees ? event.title : 'Reserva',
+      description: options.include_attendees
+        ? [booking.name, booking.email, booking.phone, booking.notes].filter(Boolean).join('\n')
+        : null,
+      attendees: options.include_attendees ? [{ email: booking.email, name: booking.name }] : [],
+      status: 'CONFIRMED',
+    };
+  }
+
+  return {
+    ...base,
+    uid: getEventUid(event.id),
+    summary: event.title,
+    description: event.description,
+  };
+};
+
+/**
+ * ICS document for the feed with this token, or null if there's no such feed
+ */
+export async function buildCalendarFeed(token: string): Promise<string | null> {
+  const supabase = createAdminSupabaseClient();
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('user_id, include_private, include_attendees')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) {
+    throw new Error(`Error fetching calendar feed: ${feedError.message}`);
+  }
+  if (!feed) {
+    return null;
+  }
+
+  const now = new Date();
+  const rangeStart = addDays(now, -FEED_PAST_DAYS);
+  const rangeEnd = addDays(now, FEED_FUTURE_DAYS);
+
+  const [singles, series, settings] = await Promise.all([
+    supabase
+      .from('events')
+      .select(FEED_EVENT_COLUMNS)
+      .eq('created_by', feed.user_id)
+      .is('rrule', null)
+      .lt('start_time', rangeEnd.toISOString())
+      .gt('end_time', rangeStart.toISOString())
+      .order('start_time', { ascending: true }),
+    supabase
+      .from('events')
+      .select(FEED_EVENT_COLUMNS)
+      .eq('created_by', feed.user_id)
+      .not('rrule', 'is', null)
+      .lt('start_time', rangeEnd.toISOString())
+      .or(`recurrence_end.is.null,recurrence_end.gt.${rangeStart.toISOString()}`),
+    supabase
+      .from('calendar_settings')
+      .select('timezone')
+      .eq('user_id', feed.user_id)
+      .maybeSingle(),
+  ]);
+
+  const error = singles.error || series.error;
+  if (error) {
+    throw new Error(`Error fetching feed events: ${error.message}`);
+  }
+
+  const isIncluded = (event: FeedEventRow) => {
+    if (event.bookings?.[0]?.status === 'cancelled') return false;
+    if (!feed.include_private && (event.event_type === 'personal' || event.is_public === false)) return false;
+    return true;
+  };
+
+  // Series repeat in the host's zone; each occurrence goes out as its own event
+  const timeZone = settings.data?.timezone || DEFAULT_SETTINGS.timezone;
+  const occurrences = ((series.data || []) as FeedEventRow[]).filter(isIncluded).flatMap((event) =>
+    expandOccurrences(event, rangeStart, rangeEnd, timeZone).map(
+      (occurrence) => ({
+        ...toIcsEvent(event, feed),
+        uid: getEventUid(event.id, occurrence.start),
+        start: occurrence.start,
+        end: occurrence.end,
+      })
+    )
+  );
+
+  return buildIcsCalendar({
+    name: 'Agenda',
+    refreshIntervalMinutes: FEED_REFRESH_MINUTES,
+    events: [
+      ...((singles.data || []) as FeedEventRow[]).filter(isIncluded).map((event) => toIcsEvent(event, feed)),
+      ...occurrences,
+    ],
+  });
+}
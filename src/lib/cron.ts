@@ -0,0 +1,18 @@
+/**
+ * Authorization for scheduled job routes
+ * Schedulers call them with 'Authorization: Bearer <CRON_SECRET>' (Vercel Cron
+ * does this automatically when CRON_SECRET is set). Server-only.
+ */
+import { timingSafeEqual } from 'crypto';
+
+export const isAuthorizedCronRequest = (request: Request): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
@@ -0,0 +1,194 @@
+/**
+ * External calendar sync
+ * Reads a host's other calendars (an ICS URL or an uploaded .ics file) and
+ * caches their busy intervals in external_busy, where the slot engine picks
+ * them up. Run on a schedule by /api/cron/external-calendars and
+ * `npm run sync-calendars`, and on demand from the admin panel.
+ * Server-only: uses the service role.
+ */
+import { addDays } from 'date-fns';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { getIcsBusyIntervals, isIcsDocument } from '@/lib/icsParser';
+import { assertPublicUrl } from '@/lib/outboundUrl';
+import { DEFAULT_SETTINGS } from '@/types/database';
+
+type AdminClient = ReturnType<typeof createAdminSupabaseClient>;
+
+export interface ExternalCalendarSource {
+  id: string;
+  user_id: string;
+  source_type: string;
+  url: string | null;
+  ics_content: string | null;
+}
+
+export interface ExternalSyncResult {
+  synced: number;
+  failed: number;
+}
+
+// Busy time kept from a little in the past (events running now) to past the booking window
+const SYNC_PAST_DAYS = 1;
+const SYNC_FUTURE_DAYS = 366;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_ICS_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+/**
+ * webcal:// is how calendar apps advertise subscriptions; it's plain HTTP(S)
+ */
+export const normalizeCalendarUrl = (url: string): string => {
+  return url.trim().replace(/^webcals?:\/\//i, 'https://');
+};
+
+/**
+ * Downloads a calendar, following its redirects by hand so every address
+ * it goes to is checked against the server's own network first
+ */
+const fetchIcs = async (url: string): Promise<string> => {
+  let target = normalizeCalendarUrl(url);
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target);
+    response = await fetch(target, {
+      headers: { Accept: 'text/calendar, */*' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      cache: 'no-store',
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error('Demasiadas redirecciones');
+    }
+    target = new URL(location, target).toString();
+  }
+
+  if (!response.ok) {
+    throw new Error(`El servidor respondió ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_ICS_BYTES) {
+    throw new Error('El calendario es demasiado grande');
+  }
+
+  const text = await response.text();
+  if (text.length > MAX_ICS_BYTES) {
+    throw new Error('El calendario es demasiado grande');
+  }
+  return text;
+};
+
+const getHostTimeZone = async (supabase: AdminClient, userId: string): Promise<string> => {
+  const { data } = await supabase
+    .from('calendar_settings')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data?.timezone || DEFAULT_SETTINGS.timezone;
+};
+
+const replaceBusyIntervals = async (
+  supabase: AdminClient,
+  calendar: ExternalCalendarSource,
+  intervals: { start: Date; end: Date }[]
+) => {
+  // One call, one transaction: on failure the previous intervals stay
+  const { error } = await supabase.rpc('replace_external_busy', {
+    p_calendar_id: calendar.id,
+    p_intervals: intervals.map((interval) => ({
+      start_time: interval.start.toISOString(),
+      end_time: interval.end.toISOString(),
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Error saving busy time: ${error.message}`);
+  }
+};
+
+/**
+ * Re-reads one calendar and replaces its busy intervals. Failures are
+ * recorded in last_error; a calendar that can't be read keeps its previous
+ * intervals, so one that is briefly unreachable doesn't free up the host's time.
+ */
+export async function syncExternalCalendar(
+  calendar: ExternalCalendarSource,
+  now: Date = new Date()
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = createAdminSupabaseClient();
+
+  try {
+    const text = calendar.source_type === 'url' && calendar.url
+      ? await fetchIcs(calendar.url)
+      : calendar.ics_content ?? '';
+
+    if (!isIcsDocument(text)) {
+      throw new Error('El contenido no es un calendario .ics');
+    }
+
+    const timeZone = await getHostTimeZone(supabase, calendar.user_id);
+    const intervals = getIcsBusyIntervals(
+      text,
+      addDays(now, -SYNC_PAST_DAYS),
+      addDays(now, SYNC_FUTURE_DAYS),
+      timeZone
+    );
+
+    await replaceBusyIntervals(supabase, calendar, intervals);
+
+    await supabase
+      .from('external_calendars')
+      .update({ last_synced_at: now.toISOString(), last_error: null })
+      .eq('id', calendar.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error(`Error syncing external calendar ${calendar.id}:`, error);
+
+    const message = error instanceof Error && error.name !== 'TimeoutError'
+      ? error.message
+      : 'El calendario no respondió a tiempo';
+    await supabase
+      .from('external_calendars')
+      .update({ last_error: message })
+      .eq('id', calendar.id);
+
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Refreshes every registered calendar. Uploaded files are re-expanded too,
+ * so their recurring events keep covering the window as time passes.
+ */
+export async function refreshExternalCalendars(now: Date = new Date()): Promise<ExternalSyncResult> {
+  const supabase = createAdminSupabaseClient();
+
+  const { data: calendars, error } = await supabase
+    .from('external_calendars')
+    .select('id, user_id, source_type, url, ics_content');
+
+  if (error) {
+    throw new Error(`Error fetching external calendars: ${error.message}`);
+  }
+
+  const result: ExternalSyncResult = { synced: 0, failed: 0 };
+
+  // One at a time: some providers rate-limit feed downloads
+  for (const calendar of (calendars || []) as ExternalCalendarSource[]) {
+    const { success } = await syncExternalCalendar(calendar, now);
+    if (success) {
+      result.synced++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
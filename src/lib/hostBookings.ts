@@ -0,0 +1,214 @@
+/**
+ * Booking changes shared by the server actions and the REST API (/api/v1)
+ * Callers authenticate (session or API key) and pass the acting host; these
+ * only touch bookings on that host's events.
+ */
+import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
+import { getMeetingTypeConfig } from '@/actions/meetingTypes';
+import { getPublicCalendarConfig } from '@/actions/settings';
+import { checkSlotBookable } from '@/actions/slots';
+import type { createServerSupabaseClient } from '@/lib/supabase/server';
+import { sendBookingEmails } from '@/lib/mailer/bookingEmails';
+import { emitBookingWebhook } from '@/lib/webhooks';
+import { updateBookingStatusSchema } from '@/utils/validations';
+import type { RescheduleHostBookingInput, UpdateBookingStatusInput } from '@/utils/validations';
+import type {
+  ApiResponse,
+  BookingErrorCode,
+  BookingStatus,
+  HostBookingErrorCode,
+  PublicCalendarConfig,
+} from '@/types/database';
+import { BOOKING_STATUS_TRANSITIONS } from '@/types/database';
+
+type SupabaseClient = Awaited<ReturnType<typeof createServerSupabaseClient>>;
+
+export const SLOT_ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+  INVALID_INPUT: 'Datos de reserva inválidos',
+  SLOT_IN_PAST: 'No se puede reservar un horario pasado',
+  MIN_NOTICE_NOT_MET: 'Este horario requiere más anticipación para reservarse',
+  BEYOND_BOOKING_WINDOW: 'Este horario todavía no está disponible para reservar',
+  INVALID_DURATION: 'La duración de la reserva no es válida',
+  OUTSIDE_AVAILABILITY: 'Este horario está fuera de la disponibilidad',
+  SLOT_TAKEN: 'Este horario se acaba de reservar. Elegí otro, por favor',
+  SERVER_ERROR: 'Error al verificar disponibilidad',
+};
+
+// Postgres SQLSTATE raised by the no_overlapping_blocking_events constraint
+const EXCLUSION_VIOLATION = '23P01';
+
+interface HostBooking {
+  id: string;
+  status: BookingStatus;
+  meeting_type_id: string | null;
+  event: { id: string; start_time: string };
+}
+
+async function getHostBooking(
+  supabase: SupabaseClient,
+  hostId: string,
+  bookingId: string
+): Promise<HostBooking | null> {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('id, status, meeting_type_id, events!inner(id, start_time, created_by)')
+    .eq('id', bookingId)
+    .eq('events.created_by', hostId)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Error fetching booking:', error);
+    return null;
+  }
+
+  const { events, ...booking } = data;
+  return { ...booking, event: Array.isArray(events) ? events[0] : events };
+}
+
+/**
+ * Moves a booking along the status workflow (see BOOKING_STATUS_TRANSITIONS).
+ * The database records the change in booking_status_history and, when the
+ * booking is cancelled, stops counting its event as busy.
+ */
+export async function changeBookingStatus(
+  supabase: SupabaseClient,
+  hostId: string,
+  input: UpdateBookingStatusInput
+): Promise<ApiResponse<void, HostBookingErrorCode>> {
+  const validation = updateBookingStatusSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+      code: 'INVALID_INPUT',
+    };
+  }
+
+  const { id, status, reason } = validation.data;
+
+  const current = await getHostBooking(supabase, hostId, id);
+  if (!current) {
+    return { success: false, error: 'Reserva no encontrada', code: 'NOT_FOUND' };
+  }
+
+  const allowed = BOOKING_STATUS_TRANSITIONS[current.status] ?? [];
+  if (!allowed.includes(status)) {
+    return { success: false, error: 'Este cambio de estado no está permitido', code: 'INVALID_TRANSITION' };
+  }
+
+  if (status !== 'cancelled' && new Date(current.event.start_time) > new Date()) {
+    return {
+      success: false,
+      error: 'Solo se puede marcar como completada o ausente una reserva que ya comenzó',
+      code: 'NOT_STARTED',
+    };
+  }
+
+  // Only if nobody changed it meanwhile
+  const { data: updated, error } = await supabase
+    .from('bookings')
+    .update({ status, status_reason: reason || null })
+    .eq('id', id)
+    .eq('status', current.status)
+    .select('id');
+
+  if (error) {
+    console.error('Error updating booking status:', error);
+    return {
+      success: false,
+      error: 'Error al actualizar la reserva',
+      code: 'SERVER_ERROR',
+    };
+  }
+
+  if (!updated || updated.length === 0) {
+    return {
+      success: false,
+      error: 'La reserva cambió mientras tanto. Actualizá la lista',
+      code: 'CONFLICT',
+    };
+  }
+
+  revalidatePath('/');
+  revalidatePath('/admin');
+
+  if (status === 'cancelled') {
+    // The host made the change, so only the visitor is told
+    after(() => sendBookingEmails('cancelled', id, { notifyHost: false }));
+    after(() => emitBookingWebhook('booking.cancelled', id));
+  }
+
+  return { success: true };
+}
+
+/**
+ * Moves a booking to another slot, re-checked like a new booking
+ */
+export async function moveBooking(
+  supabase: SupabaseClient,
+  config: PublicCalendarConfig,
+  booking: HostBooking,
+  slotStart: string,
+  slotEnd: string,
+  { notifyHost = true }: { notifyHost?: boolean } = {}
+): Promise<BookingErrorCode | null> {
+  const slotError = await checkSlotBookable(config, new Date(slotStart), new Date(slotEnd), booking.event.id);
+  if (slotError) {
+    return slotError;
+  }
+
+  const { error } = await supabase
+    .from('events')
+    .update({ start_time: slotStart, end_time: slotEnd })
+    .eq('id', booking.event.id);
+
+  if (error) {
+    if (error.code === EXCLUSION_VIOLATION) {
+      return 'SLOT_TAKEN';
+    }
+
+    console.error('Error rescheduling booking:', error);
+    return 'SERVER_ERROR';
+  }
+
+  revalidatePath('/admin');
+  revalidatePath('/appointment');
+
+  const previousStartTime = booking.event.start_time;
+  after(() => sendBookingEmails('rescheduled', booking.id, { notifyHost, previousStartTime }));
+  after(() => emitBookingWebhook('booking.rescheduled', booking.id, previousStartTime));
+
+  return null;
+}
+
+/**
+ * A host moving one of their confirmed bookings; unlike visitors, hosts
+ * aren't held to the cancellation cutoff
+ */
+export async function rescheduleHostBooking(
+  supabase: SupabaseClient,
+  hostId: string,
+  input: RescheduleHostBookingInput
+): Promise<ApiResponse<void, HostBookingErrorCode>> {
+  const booking = await getHostBooking(supabase, hostId, input.id);
+  if (!booking) {
+    return { success: false, error: 'Reserva no encontrada', code: 'NOT_FOUND' };
+  }
+  if (booking.status !== 'confirmed') {
+    return { success: false, error: 'Esta reserva ya no se puede modificar', code: 'NOT_CHANGEABLE' };
+  }
+
+  // Held to the rules of its meeting type, if it was booked as one
+  const config =
+    (await getMeetingTypeConfig(booking.meeting_type_id, hostId, { includeInactive: true })) ??
+    (await getPublicCalendarConfig(hostId));
+  const slotError = await moveBooking(supabase, config, booking, input.slot_start, input.slot_end, {
+    notifyHost: false,
+  });
+  if (slotError) {
+    return { success: false, error: SLOT_ERROR_MESSAGES[slotError], code: slotError };
+  }
+
+  return { success: true };
+}
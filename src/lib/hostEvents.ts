@@ -0,0 +1,144 @@
+/**
+ * Reading a host's events, shared by the server actions and the REST API (/api/v1)
+ */
+import { addDays } from 'date-fns';
+import type { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getEventsQuerySchema } from '@/utils/validations';
+import type { GetEventsQuery } from '@/utils/validations';
+import { expandOccurrences } from '@/utils/recurrence';
+import type { ApiResponse, EventWithBooking } from '@/types/database';
+import { DEFAULT_SETTINGS } from '@/types/database';
+
+type SupabaseClient = Awaited<ReturnType<typeof createServerSupabaseClient>>;
+
+// Longest range that can be requested at once
+const MAX_RANGE_DAYS = 42;
+
+// Columns listed in the admin dashboard, with the linked booking
+export const EVENT_COLUMNS = `
+  id,
+  title,
+  description,
+  start_time,
+  end_time,
+  event_type,
+  overlap_policy,
+  is_public,
+  rrule,
+  exdates,
+  recurrence_end,
+  recurrence_parent_id,
+  original_start,
+  created_by,
+  created_at,
+  bookings (
+    id,
+    name,
+    email,
+    phone,
+    notes,
+    status,
+    status_reason,
+    status_changed_at
+  )
+`;
+
+// Transform data to match EventWithBooking type
+export const toEventWithBooking = (event: any): EventWithBooking => ({
+  id: event.id,
+  title: event.title,
+  description: event.description,
+  start_time: event.start_time,
+  end_time: event.end_time,
+  event_type: event.event_type,
+  overlap_policy: event.overlap_policy,
+  is_public: event.is_public,
+  rrule: event.rrule,
+  exdates: event.exdates ?? [],
+  recurrence_end: event.recurrence_end,
+  recurrence_parent_id: event.recurrence_parent_id,
+  original_start: event.original_start,
+  created_by: event.created_by,
+  created_at: event.created_at,
+  updated_at: event.updated_at,
+  booking: event.bookings?.[0] || null,
+});
+
+/**
+ * Zone the host's recurring events repeat in (their calendar settings)
+ */
+export async function getHostTimeZone(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('calendar_settings')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data?.timezone ?? DEFAULT_SETTINGS.timezone;
+}
+
+/**
+ * The host's events and series occurrences overlapping [start_date, end_date).
+ * Series are expanded in the host's zone.
+ */
+export async function getHostEventsInRange(
+  supabase: SupabaseClient,
+  hostId: string,
+  query: GetEventsQuery
+): Promise<ApiResponse<EventWithBooking[], 'INVALID_INPUT' | 'SERVER_ERROR'>> {
+  const validation = getEventsQuerySchema.safeParse(query);
+  if (!validation.success || !validation.data.start_date || !validation.data.end_date) {
+    return { success: false, error: 'Rango de fechas inválido', code: 'INVALID_INPUT' };
+  }
+
+  const rangeStart = new Date(validation.data.start_date);
+  const rangeEnd = new Date(validation.data.end_date);
+  if (rangeEnd <= rangeStart || rangeEnd > addDays(rangeStart, MAX_RANGE_DAYS)) {
+    return { success: false, error: 'Rango de fechas inválido', code: 'INVALID_INPUT' };
+  }
+
+  const [singles, series] = await Promise.all([
+    supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .eq('created_by', hostId)
+      .is('rrule', null)
+      .lt('start_time', rangeEnd.toISOString())
+      .gt('end_time', rangeStart.toISOString())
+      .order('start_time', { ascending: true }),
+    supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .eq('created_by', hostId)
+      .not('rrule', 'is', null)
+      .lt('start_time', rangeEnd.toISOString())
+      .or(`recurrence_end.is.null,recurrence_end.gt.${rangeStart.toISOString()}`),
+  ]);
+
+  const error = singles.error || series.error;
+  if (error) {
+    console.error('Error fetching events:', error);
+    return {
+      success: false,
+      error: 'Error al obtener los eventos',
+      code: 'SERVER_ERROR',
+    };
+  }
+
+  const timeZone = await getHostTimeZone(supabase, hostId);
+  const occurrences = (series.data || []).flatMap((event) =>
+    expandOccurrences(event, rangeStart, rangeEnd, timeZone).map((occurrence) => ({
+      ...toEventWithBooking(event),
+      start_time: occurrence.start.toISOString(),
+      end_time: occurrence.end.toISOString(),
+      occurrence_start: occurrence.start.toISOString(),
+    }))
+  );
+
+  return {
+    success: true,
+    data: [...(singles.data || []).map(toEventWithBooking), ...occurrences].sort(
+      (a, b) => Date.parse(a.start_time) - Date.parse(b.start_time)
+    ),
+  };
+}
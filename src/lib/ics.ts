@@ -0,0 +1,141 @@
+/**
+ * iCalendar (RFC 5545) writer
+ * Builds VCALENDAR documents from plain event data; times are written in UTC.
+ */
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcsPerson {
+  email: string;
+  name?: string | null;
+}
+
+export interface IcsEvent {
+  uid: string;
+  start: Date | string;
+  end: Date | string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number; // must grow with every update the recipient should apply
+  transparent?: boolean; // true = doesn't show as busy
+  organizer?: IcsPerson | null;
+  attendees?: IcsPerson[];
+  rrule?: string | null; // 'FREQ=...' (no 'RRULE:' prefix)
+  exdates?: (Date | string)[];
+  recurrenceId?: Date | string | null; // set on an edited occurrence of a series
+  created?: Date | string | null;
+  lastModified?: Date | string | null;
+}
+
+export interface IcsCalendar {
+  method?: IcsMethod;
+  name?: string; // shown by calendar apps for subscriptions
+  refreshIntervalMinutes?: number; // hint for subscribed feeds
+  events: IcsEvent[];
+}
+
+const PRODUCT_ID = '-//Agenda de Reuniones//ES';
+
+/**
+ * 'YYYYMMDDTHHMMSSZ'
+ */
+export const formatIcsDate = (date: Date | string): string => {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const escapeParam = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+/**
+ * Lines longer than 75 octets continue on the next line after a space
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const personLine = (property: 'ORGANIZER' | 'ATTENDEE', person: IcsPerson, extra = ''): string => {
+  const name = person.name ? `;CN=${escapeParam(person.name)}` : '';
+  return `${property}${name}${extra}:mailto:${person.email}`;
+};
+
+const eventLines = (event: IcsEvent, dtstamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.recurrenceId) lines.push(`RECURRENCE-ID:${formatIcsDate(event.recurrenceId)}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  if (event.exdates?.length) lines.push(`EXDATE:${event.exdates.map(formatIcsDate).join(',')}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.transparent !== undefined) lines.push(`TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`);
+  if (event.created) lines.push(`CREATED:${formatIcsDate(event.created)}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+  if (event.organizer) lines.push(personLine('ORGANIZER', event.organizer));
+
+  event.attendees?.forEach((attendee) => {
+    const partstat = event.status === 'CANCELLED' ? 'DECLINED' : 'ACCEPTED';
+    lines.push(personLine('ATTENDEE', attendee, `;ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat}`));
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const buildIcsCalendar = ({ method, name, refreshIntervalMinutes, events }: IcsCalendar): string => {
+  const dtstamp = formatIcsDate(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+
+  if (method) lines.push(`METHOD:${method}`);
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`, `NAME:${escapeText(name)}`);
+  if (refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${refreshIntervalMinutes}M`
+    );
+  }
+
+  events.forEach((event) => lines.push(...eventLines(event, dtstamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,265 @@
+/**
+ * iCalendar (RFC 5545) reader
+ * Turns the VEVENTs of an .ics document into busy intervals, expanding
+ * recurring events (RRULE, EXDATE, RECURRENCE-ID overrides) over a range.
+ * Only times are kept: titles and attendees never leave this module.
+ */
+import { TZDate } from '@date-fns/tz';
+import { expandOccurrences } from '@/utils/recurrence';
+import type { Occurrence } from '@/utils/recurrence';
+import { isValidTimeZone } from '@/utils/dateHelpers';
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ParsedEvent {
+  uid: string | null;
+  start: Date;
+  end: Date;
+  timeZone: string; // zone the event repeats in
+  rrule: string | null;
+  exdates: Date[];
+  recurrenceId: Date | null;
+  busy: boolean;
+}
+
+// ============================================
+// LINES AND PROPERTIES
+// ============================================
+
+/**
+ * Joins folded lines (continuations start with a space or tab)
+ */
+const unfoldLines = (text: string): string[] => {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+};
+
+const parseProperty = (line: string): IcsProperty | null => {
+  // The value starts at the first ':' outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1).trim() };
+};
+
+// ============================================
+// DATES
+// ============================================
+
+/**
+ * DATE ('20260315'), UTC ('20260315T100000Z') or local date-time in `timeZone`
+ */
+const parseIcsDate = (value: string, timeZone: string): { date: Date; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)] as const;
+
+  if (utc) {
+    return { date: new Date(Date.UTC(...parts)), allDay: false };
+  }
+  return { date: new Date(TZDate.tz(timeZone, ...parts)), allDay: hours === undefined };
+};
+
+/**
+ * Zone named by TZID, or the fallback for floating times and names Intl
+ * doesn't know (e.g. Windows zone names)
+ */
+const resolveTimeZone = (tzid: string | undefined, fallback: string): string => {
+  if (!tzid) return fallback;
+  const name = tzid.replace(/^\/[^/]+\/[^/]+\//, ''); // '/mozilla.org/20050126_1/Europe/Madrid'
+  return isValidTimeZone(name) ? name : fallback;
+};
+
+/**
+ * 'P1D', 'PT1H30M', 'P2W' -> milliseconds
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 86400 +
+      Number(hours ?? 0) * 3600 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)) *
+    1000;
+  return sign === '-' ? -ms : ms;
+};
+
+// ============================================
+// EVENTS
+// ============================================
+
+const parseEvent = (properties: IcsProperty[], fallbackTimeZone: string): ParsedEvent | null => {
+  const find = (name: string) => properties.find((property) => property.name === name);
+
+  const dtstart = find('DTSTART');
+  if (!dtstart) {
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(dtstart.params.TZID, fallbackTimeZone);
+  const start = parseIcsDate(dtstart.value, timeZone);
+  if (!start) {
+    return null;
+  }
+
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  let end: Date | null = null;
+  if (dtend) {
+    end = parseIcsDate(dtend.value, resolveTimeZone(dtend.params.TZID, fallbackTimeZone))?.date ?? null;
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    end = ms === null ? null : new Date(start.date.getTime() + ms);
+  } else if (start.allDay) {
+    // A DATE without an end lasts the whole day
+    const day = new TZDate(start.date, timeZone);
+    end = new Date(TZDate.tz(timeZone, day.getFullYear(), day.getMonth(), day.getDate() + 1));
+  }
+
+  if (!end || end <= start.date) {
+    return null;
+  }
+
+  const exdates = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) => {
+      const zone = resolveTimeZone(property.params.TZID, timeZone);
+      return property.value.split(',').map((value) => parseIcsDate(value.trim(), zone)?.date);
+    })
+    .filter((date): date is Date => !!date);
+
+  const recurrenceIdProperty = find('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProperty
+    ? parseIcsDate(recurrenceIdProperty.value, resolveTimeZone(recurrenceIdProperty.params.TZID, timeZone))?.date ?? null
+    : null;
+
+  // Cancelled events and ones marked "free" don't take up time
+  const busy = find('STATUS')?.value.toUpperCase() !== 'CANCELLED'
+    && find('TRANSP')?.value.toUpperCase() !== 'TRANSPARENT';
+
+  return {
+    uid: find('UID')?.value ?? null,
+    start: start.date,
+    end,
+    timeZone,
+    rrule: find('RRULE')?.value ?? null,
+    exdates,
+    recurrenceId,
+    busy,
+  };
+};
+
+/**
+ * Every VEVENT in the document (nested components like VALARM are ignored)
+ */
+const parseEvents = (text: string, fallbackTimeZone: string): ParsedEvent[] => {
+  const events: ParsedEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0; // components nested inside the current VEVENT
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (current) depth++;
+      else if (property.value.toUpperCase() === 'VEVENT') current = [];
+    } else if (property.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && property.value.toUpperCase() === 'VEVENT') {
+        const event = parseEvent(current, fallbackTimeZone);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+};
+
+export const isIcsDocument = (text: string): boolean => {
+  return /^\s*BEGIN:VCALENDAR/i.test(text);
+};
+
+/**
+ * Busy intervals of the document overlapping [rangeStart, rangeEnd).
+ * Floating times are read in `fallbackTimeZone` (the host's).
+ */
+export const getIcsBusyIntervals = (
+  text: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  fallbackTimeZone: string
+): Occurrence[] => {
+  const events = parseEvents(text, fallbackTimeZone);
+
+  // Occurrences edited separately (RECURRENCE-ID) replace the series' ones
+  const overridden = new Map<string, Date[]>();
+  events.forEach((event) => {
+    if (event.uid && event.recurrenceId) {
+      overridden.set(event.uid, [...(overridden.get(event.uid) ?? []), event.recurrenceId]);
+    }
+  });
+
+  return events
+    .filter((event) => event.busy)
+    .flatMap((event) => {
+      if (!event.rrule || event.recurrenceId) {
+        return event.start < rangeEnd && event.end > rangeStart ? [{ start: event.start, end: event.end }] : [];
+      }
+
+      try {
+        return expandOccurrences(
+          {
+            start_time: event.start.toISOString(),
+            end_time: event.end.toISOString(),
+            rrule: event.rrule,
+            exdates: [...event.exdates, ...(overridden.get(event.uid ?? '') ?? [])].map((date) => date.toISOString()),
+          },
+          rangeStart,
+          rangeEnd,
+          event.timeZone
+        );
+      } catch {
+        // A rule rrule can't handle: keep at least the first occurrence
+        return event.start < rangeEnd && event.end > rangeStart ? [{ start: event.start, end: event.end }] : [];
+      }
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+};
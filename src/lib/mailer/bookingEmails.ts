@@ -0,0 +1,138 @@
+/**
+ * Booking lifecycle emails
+ * Sent once the change is committed; a failed email is logged and never
+ * undoes or fails the booking operation that triggered it.
+ */
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { createBookingToken } from '@/lib/bookingToken';
+import { getSiteUrl } from '@/lib/siteUrl';
+import { buildBookingIcs } from '@/lib/bookingCalendar';
+import { DEFAULT_SETTINGS } from '@/types/database';
+import { getMailer } from './index';
+import { renderHostEmail, renderReminderEmail, renderVisitorEmail } from './templates';
+import type { BookingEmailData, BookingEmailKind } from './templates';
+
+interface SendBookingEmailsOptions {
+  notifyHost?: boolean; // false when the host made the change themselves
+  previousStartTime?: string | null;
+}
+
+const getManageUrl = (bookingId: string): string | null => {
+  try {
+    return `${getSiteUrl()}/booking/${createBookingToken(bookingId)}`;
+  } catch {
+    return null;
+  }
+};
+
+type AdminClient = ReturnType<typeof createAdminSupabaseClient>;
+
+/**
+ * Everything the emails and the booking's .ics need, or null if it doesn't exist
+ */
+export async function loadBookingEmailData(
+  supabase: AdminClient,
+  bookingId: string,
+  previousStartTime: string | null = null
+): Promise<BookingEmailData | null> {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('id, status, name, email, phone, notes, timezone, status_reason, events!inner(title, start_time, end_time, created_by, updated_at)')
+    .eq('id', bookingId)
+    .single();
+
+  if (error || !booking) {
+    console.error('Error fetching booking for email:', error);
+    return null;
+  }
+
+  const event = Array.isArray(booking.events) ? booking.events[0] : booking.events;
+
+  const { data: settings } = await supabase
+    .from('calendar_settings')
+    .select('timezone')
+    .eq('user_id', event.created_by)
+    .maybeSingle();
+
+  const hostTimeZone = settings?.timezone || DEFAULT_SETTINGS.timezone;
+
+  const { data: host } = await supabase.auth.admin.getUserById(event.created_by);
+
+  return {
+    bookingId: booking.id,
+    status: booking.status,
+    // Cancelling touches the event too (its overlap policy), so this grows on every change
+    sequence: Math.floor(Date.parse(event.updated_at) / 1000),
+    hostEmail: host?.user?.email ?? null,
+    name: booking.name,
+    email: booking.email,
+    phone: booking.phone,
+    notes: booking.notes,
+    title: event.title,
+    startTime: event.start_time,
+    endTime: event.end_time,
+    timeZone: booking.timezone || hostTimeZone,
+    hostTimeZone,
+    manageUrl: booking.status === 'cancelled' ? null : getManageUrl(booking.id),
+    reason: booking.status === 'cancelled' ? booking.status_reason : null,
+    previousStartTime,
+  };
+}
+
+export async function sendBookingEmails(
+  kind: BookingEmailKind,
+  bookingId: string,
+  { notifyHost = true, previousStartTime = null }: SendBookingEmailsOptions = {}
+): Promise<void> {
+  try {
+    const supabase = createAdminSupabaseClient();
+    const data = await loadBookingEmailData(supabase, bookingId, previousStartTime);
+    if (!data) {
+      return;
+    }
+
+    const mailer = getMailer();
+    const method = kind === 'cancelled' ? 'CANCEL' : 'REQUEST';
+    const sends = [
+      mailer.send({
+        to: data.email,
+        ...renderVisitorEmail(kind, data),
+        calendar: { method, content: buildBookingIcs(data, method) },
+      }),
+    ];
+
+    if (notifyHost) {
+      if (data.hostEmail) {
+        sends.push(mailer.send({ to: data.hostEmail, ...renderHostEmail(kind, data) }));
+      } else {
+        console.error('Host email not found for booking:', bookingId);
+      }
+    }
+
+    const results = await Promise.allSettled(sends);
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error(`Error sending ${kind} booking email:`, result.reason);
+      }
+    });
+  } catch (error) {
+    console.error('Unexpected error sending booking emails:', error);
+  }
+}
+
+/**
+ * Reminder to the visitor. Unlike the lifecycle emails this throws on
+ * failure, so the reminder runner can retry it on its next run.
+ */
+export async function sendBookingReminder(
+  supabase: AdminClient,
+  bookingId: string,
+  offsetMinutes: number
+): Promise<void> {
+  const data = await loadBookingEmailData(supabase, bookingId);
+  if (!data) {
+    throw new Error(`Booking ${bookingId} not found`);
+  }
+
+  await getMailer().send({ to: data.email, ...renderReminderEmail(data, offsetMinutes) });
+}
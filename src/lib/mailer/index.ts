@@ -0,0 +1,103 @@
+/**
+ * Transactional email
+ * One Mailer interface with interchangeable adapters, picked by MAIL_TRANSPORT:
+ * - 'smtp': any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ * - 'file': writes each message as an .eml file to MAIL_FILE_DIR (default .mail/)
+ * - 'console': logs messages to the server console (default when SMTP_HOST is unset)
+ * Server-only.
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { SendMailOptions, Transporter } from 'nodemailer';
+import type { IcsMethod } from '@/lib/ics';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  // Calendar invite, shown by mail clients as an event they can add or update
+  calendar?: { method: IcsMethod; content: string };
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransport = 'smtp' | 'file' | 'console';
+
+const DEFAULT_FROM = 'Agenda <no-reply@localhost>';
+
+const getFrom = (): string => process.env.MAIL_FROM || DEFAULT_FROM;
+
+const toMailOptions = ({ calendar, ...message }: MailMessage): SendMailOptions => ({
+  from: getFrom(),
+  ...message,
+  // Inline text/calendar part for clients that show invites, plus a plain .ics attachment
+  icalEvent: calendar && { method: calendar.method, filename: 'invite.ics', content: calendar.content },
+  attachments: calendar && [{ filename: 'invite.ics', content: calendar.content, contentType: 'application/ics' }],
+});
+
+const createSmtpMailer = (): Mailer => {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const transporter: Transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(toMailOptions(message));
+    },
+  };
+};
+
+const createFileMailer = (): Mailer => {
+  const dir = process.env.MAIL_FILE_DIR || '.mail';
+  // Builds the raw RFC 822 message without sending it anywhere
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail(toMailOptions(message));
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, `${Date.now()}-${recipient}.eml`), info.message as Buffer);
+    },
+  };
+};
+
+const createConsoleMailer = (): Mailer => ({
+  async send(message) {
+    const calendar = message.calendar ? `[mail] Calendar: ${message.calendar.method}\n` : '';
+    console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${calendar}\n${message.text}\n`);
+  },
+});
+
+export const getMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT;
+  if (transport === 'smtp' || transport === 'file' || transport === 'console') {
+    return transport;
+  }
+  return process.env.SMTP_HOST ? 'smtp' : 'console';
+};
+
+let mailer: Mailer | null = null;
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    const transport = getMailTransport();
+    mailer = transport === 'smtp'
+      ? createSmtpMailer()
+      : transport === 'file'
+        ? createFileMailer()
+        : createConsoleMailer();
+  }
+  return mailer;
+};
@@ -0,0 +1,171 @@
+/**
+ * Booking and team email templates
+ * Plain-text and HTML versions rendered from the same data
+ */
+import { formatInTimeZone, getTimeZoneLabel } from '@/utils/dateHelpers';
+import type { BookingStatus, OrganizationRole } from '@/types/database';
+import { ORGANIZATION_ROLES } from '@/types/database';
+import type { MailMessage } from './index';
+
+export type BookingEmailKind = 'confirmed' | 'cancelled' | 'rescheduled';
+
+export interface BookingEmailData {
+  bookingId: string;
+  status: BookingStatus;
+  sequence: number; // iCalendar SEQUENCE, grows whenever the booked event changes
+  hostEmail: string | null;
+  name: string;
+  email: string;
+  phone: string | null;
+  notes: string | null;
+  title: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string; // visitor's zone
+  hostTimeZone: string;
+  manageUrl: string | null;
+  reason: string | null; // cancellation reason
+  previousStartTime: string | null; // when rescheduled
+}
+
+type RenderedEmail = Omit<MailMessage, 'to'>;
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  link?: { label: string; url: string };
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatWhen = (start: string, end: string, timeZone: string): string =>
+  `${formatInTimeZone(start, "EEEE d 'de' MMMM yyyy, HH:mm", timeZone)} - ${formatInTimeZone(end, 'HH:mm', timeZone)} (${getTimeZoneLabel(timeZone, new Date(start))})`;
+
+const render = ({ subject, heading, paragraphs, link }: EmailContent): RenderedEmail => {
+  const text = [heading, '', ...paragraphs.flatMap((p) => [p, '']), link ? `${link.label}: ${link.url}` : '']
+    .join('\n')
+    .trim();
+
+  const html = `<!doctype html>
+<html lang="es">
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:16px;padding:32px">
+    <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(heading)}</h1>
+    ${paragraphs.map((p) => `<p style="margin:0 0 12px;font-size:15px;line-height:1.5;white-space:pre-line">${escapeHtml(p)}</p>`).join('\n    ')}
+    ${link ? `<p style="margin:24px 0 0"><a href="${escapeHtml(link.url)}" style="display:inline-block;padding:12px 20px;border-radius:12px;background:#2563eb;color:#ffffff;text-decoration:none;font-weight:bold">${escapeHtml(link.label)}</a></p>` : ''}
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+};
+
+const manageLink = (data: BookingEmailData) =>
+  data.manageUrl ? { label: 'Ver, cancelar o reprogramar', url: data.manageUrl } : undefined;
+
+export const renderVisitorEmail = (kind: BookingEmailKind, data: BookingEmailData): RenderedEmail => {
+  const when = formatWhen(data.startTime, data.endTime, data.timeZone);
+
+  switch (kind) {
+    case 'confirmed':
+      return render({
+        subject: `Reserva confirmada: ${data.title}`,
+        heading: `¡Hola ${data.name}! Tu reserva está confirmada`,
+        paragraphs: [`${data.title}`, when],
+        link: manageLink(data),
+      });
+    case 'cancelled':
+      return render({
+        subject: `Reserva cancelada: ${data.title}`,
+        heading: `Hola ${data.name}, tu reserva fue cancelada`,
+        paragraphs: [
+          `${data.title}`,
+          when,
+          ...(data.reason ? [`Motivo: ${data.reason}`] : []),
+        ],
+      });
+    case 'rescheduled':
+      return render({
+        subject: `Reserva reprogramada: ${data.title}`,
+        heading: `Hola ${data.name}, tu reserva cambió de horario`,
+        paragraphs: [
+          `${data.title}`,
+          `Nuevo horario: ${when}`,
+          ...(data.previousStartTime
+            ? [`Horario anterior: ${formatInTimeZone(data.previousStartTime, "EEEE d 'de' MMMM, HH:mm", data.timeZone)}`]
+            : []),
+        ],
+        link: manageLink(data),
+      });
+  }
+};
+
+const formatLeadTime = (minutes: number): string => {
+  if (minutes % 1440 === 0) return minutes === 1440 ? 'mañana' : `en ${minutes / 1440} días`;
+  if (minutes % 60 === 0) return minutes === 60 ? 'en 1 hora' : `en ${minutes / 60} horas`;
+  return `en ${minutes} minutos`;
+};
+
+export const renderReminderEmail = (data: BookingEmailData, offsetMinutes: number): RenderedEmail => {
+  return render({
+    subject: `Recordatorio: ${data.title} ${formatLeadTime(offsetMinutes)}`,
+    heading: `Hola ${data.name}, te esperamos ${formatLeadTime(offsetMinutes)}`,
+    paragraphs: [`${data.title}`, formatWhen(data.startTime, data.endTime, data.timeZone)],
+    link: manageLink(data),
+  });
+};
+
+const HOST_HEADINGS: Record<BookingEmailKind, string> = {
+  confirmed: 'Nueva reserva',
+  cancelled: 'Reserva cancelada',
+  rescheduled: 'Reserva reprogramada',
+};
+
+export const renderHostEmail = (kind: BookingEmailKind, data: BookingEmailData): RenderedEmail => {
+  const heading = HOST_HEADINGS[kind];
+
+  return render({
+    subject: `${heading}: ${data.name} - ${formatInTimeZone(data.startTime, "d 'de' MMMM, HH:mm", data.hostTimeZone)}`,
+    heading,
+    paragraphs: [
+      formatWhen(data.startTime, data.endTime, data.hostTimeZone),
+      ...(kind === 'rescheduled' && data.previousStartTime
+        ? [`Antes: ${formatInTimeZone(data.previousStartTime, "EEEE d 'de' MMMM, HH:mm", data.hostTimeZone)}`]
+        : []),
+      [data.name, data.email, data.phone].filter(Boolean).join('\n'),
+      ...(data.notes ? [`Notas: ${data.notes}`] : []),
+      ...(kind === 'cancelled' && data.reason ? [`Motivo: ${data.reason}`] : []),
+    ],
+  });
+};
+
+export interface InviteEmailData {
+  organizationName: string;
+  inviterEmail: string | null;
+  role: OrganizationRole;
+  inviteUrl: string;
+  expiresAt: string;
+  timeZone: string; // inviter's zone
+}
+
+export const renderInviteEmail = (data: InviteEmailData): RenderedEmail => {
+  const role = ORGANIZATION_ROLES.find((r) => r.role === data.role);
+
+  return render({
+    subject: `Invitación a ${data.organizationName}`,
+    heading: `Te invitaron a ${data.organizationName}`,
+    paragraphs: [
+      `${data.inviterEmail ?? 'Un administrador'} te invitó a unirte al equipo como ${role?.label.toLowerCase() ?? data.role}.`,
+      ...(role ? [role.description] : []),
+      `La invitación vence el ${formatInTimeZone(data.expiresAt, "d 'de' MMMM", data.timeZone)}.`,
+    ],
+    link: { label: 'Aceptar invitación', url: data.inviteUrl },
+  });
+};
@@ -0,0 +1,277 @@
+/**
+ * OpenAPI 3.1 document of the REST API (/api/v1)
+ * Request bodies and parameters come from the zod schemas the route handlers
+ * validate with, so the document can't drift from what the API accepts.
+ * Served at /api/openapi.json; `npm run generate:api-client` turns it into
+ * src/lib/apiClient.ts.
+ */
+import { z } from 'zod';
+import {
+  cancelHostBookingSchema,
+  createBookingSchema,
+  getAvailableSlotsQuerySchema,
+  getEventsQuerySchema,
+  rescheduleHostBookingSchema,
+} from '@/utils/validations';
+
+type JsonSchema = Record<string, unknown>;
+
+// ============================================
+// RESPONSE SCHEMAS
+// ============================================
+
+const dateTimeSchema = z.string().datetime();
+
+const slotSchema = z.object({
+  start: dateTimeSchema,
+  end: dateTimeSchema,
+  available: z.boolean(),
+});
+
+const createdBookingSchema = z.object({
+  id: z.string().uuid(),
+  manage_url: z.string().nullable(), // visitor's link to manage the booking; null without BOOKING_TOKEN_SECRET
+});
+
+const cancelledBookingSchema = z.object({
+  id: z.string().uuid(),
+  status: z.literal('cancelled'),
+});
+
+const rescheduledBookingSchema = z.object({
+  id: z.string().uuid(),
+  start_time: dateTimeSchema,
+  end_time: dateTimeSchema,
+});
+
+const eventBookingSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  notes: z.string().nullable(),
+  status: z.enum(['confirmed', 'cancelled', 'completed', 'no_show']),
+  status_reason: z.string().nullable(),
+  status_changed_at: dateTimeSchema.nullable(),
+});
+
+const eventSchema = z.object({
+  id: z.string().uuid(), // the series' id for an occurrence of a recurring event
+  title: z.string(),
+  description: z.string().nullable(),
+  start_time: dateTimeSchema,
+  end_time: dateTimeSchema,
+  event_type: z.enum(['meeting', 'booking', 'block', 'personal']),
+  overlap_policy: z.enum(['blocks', 'allows_overlap', 'informational']),
+  is_public: z.boolean(),
+  rrule: z.string().nullable(),
+  exdates: z.array(dateTimeSchema),
+  recurrence_end: dateTimeSchema.nullable(),
+  recurrence_parent_id: z.string().uuid().nullable(),
+  original_start: dateTimeSchema.nullable(),
+  created_at: dateTimeSchema,
+  booking: eventBookingSchema.nullable(),
+  occurrence_start: dateTimeSchema.optional(), // set on occurrences of recurring events
+});
+
+const errorSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+  }),
+});
+
+// ============================================
+// CONVERSION
+// ============================================
+
+const toJsonSchema = (schema: z.ZodType, io: 'input' | 'output'): JsonSchema => {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, { io });
+  // Dialect is implied: OpenAPI 3.1 uses JSON Schema 2020-12
+  delete jsonSchema.$schema;
+  return jsonSchema;
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const responseRef = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+// Successful responses wrap their payload in { data }
+const dataOf = (schema: JsonSchema): JsonSchema => ({
+  type: 'object',
+  properties: { data: schema },
+  required: ['data'],
+});
+
+/**
+ * Query parameters, one per property of an object schema
+ */
+const queryParameters = (schema: z.ZodObject) => {
+  const jsonSchema = toJsonSchema(schema, 'input');
+  const properties = (jsonSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (jsonSchema.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: propertySchema,
+  }));
+};
+
+const jsonBody = (schemaName: string, required = true) => ({
+  required,
+  content: { 'application/json': { schema: ref(schemaName) } },
+});
+
+const jsonResponse = (description: string, schemaName: string) => ({
+  description,
+  content: { 'application/json': { schema: ref(schemaName) } },
+});
+
+const bookingIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Agenda API',
+      version: '1.0.0',
+      description:
+        'Horarios disponibles, reservas y eventos del host dueño de la API key. ' +
+        'Las API keys se crean en Configuración > API del panel de administración.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/slots': {
+        get: {
+          operationId: 'listSlots',
+          summary: 'Horarios del host desde una fecha',
+          parameters: queryParameters(getAvailableSlotsQuerySchema),
+          responses: {
+            200: jsonResponse('Horarios, reservables o no', 'SlotList'),
+            400: responseRef('BadRequest'),
+            401: responseRef('Unauthorized'),
+            429: responseRef('TooManyRequests'),
+          },
+        },
+      },
+      '/bookings': {
+        post: {
+          operationId: 'createBooking',
+          summary: 'Reservar un horario',
+          requestBody: jsonBody('CreateBookingInput'),
+          responses: {
+            201: jsonResponse('Reserva creada', 'CreatedBookingResponse'),
+            400: responseRef('BadRequest'),
+            401: responseRef('Unauthorized'),
+            409: responseRef('Conflict'),
+            422: responseRef('UnprocessableEntity'),
+            429: responseRef('TooManyRequests'),
+          },
+        },
+      },
+      '/bookings/{id}/cancel': {
+        post: {
+          operationId: 'cancelBooking',
+          summary: 'Cancelar una reserva',
+          parameters: [bookingIdParameter],
+          requestBody: jsonBody('CancelBookingInput', false),
+          responses: {
+            200: jsonResponse('Reserva cancelada', 'CancelledBookingResponse'),
+            400: responseRef('BadRequest'),
+            401: responseRef('Unauthorized'),
+            404: responseRef('NotFound'),
+            409: responseRef('Conflict'),
+            429: responseRef('TooManyRequests'),
+          },
+        },
+      },
+      '/bookings/{id}/reschedule': {
+        post: {
+          operationId: 'rescheduleBooking',
+          summary: 'Mover una reserva confirmada a otro horario',
+          parameters: [bookingIdParameter],
+          requestBody: jsonBody('RescheduleBookingInput'),
+          responses: {
+            200: jsonResponse('Reserva reprogramada', 'RescheduledBookingResponse'),
+            400: responseRef('BadRequest'),
+            401: responseRef('Unauthorized'),
+            404: responseRef('NotFound'),
+            409: responseRef('Conflict'),
+            422: responseRef('UnprocessableEntity'),
+            429: responseRef('TooManyRequests'),
+          },
+        },
+      },
+      '/events': {
+        get: {
+          operationId: 'listEvents',
+          summary: 'Eventos del host en un rango de hasta 42 días',
+          parameters: queryParameters(getEventsQuerySchema.pick({ start_date: true, end_date: true }).required()),
+          responses: {
+            200: jsonResponse('Eventos, con las series recurrentes expandidas', 'EventList'),
+            400: responseRef('BadRequest'),
+            401: responseRef('Unauthorized'),
+            429: responseRef('TooManyRequests'),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key (agk_...). También se acepta en el header X-API-Key.',
+        },
+      },
+      schemas: {
+        CreateBookingInput: toJsonSchema(createBookingSchema, 'input'),
+        CancelBookingInput: toJsonSchema(cancelHostBookingSchema, 'input'),
+        RescheduleBookingInput: toJsonSchema(rescheduleHostBookingSchema.omit({ id: true }), 'input'),
+        Slot: toJsonSchema(slotSchema, 'output'),
+        Event: toJsonSchema(eventSchema, 'output'),
+        CreatedBooking: toJsonSchema(createdBookingSchema, 'output'),
+        CancelledBooking: toJsonSchema(cancelledBookingSchema, 'output'),
+        RescheduledBooking: toJsonSchema(rescheduledBookingSchema, 'output'),
+        SlotList: dataOf({ type: 'array', items: ref('Slot') }),
+        EventList: dataOf({ type: 'array', items: ref('Event') }),
+        CreatedBookingResponse: dataOf(ref('CreatedBooking')),
+        CancelledBookingResponse: dataOf(ref('CancelledBooking')),
+        RescheduledBookingResponse: dataOf(ref('RescheduledBooking')),
+        ApiError: toJsonSchema(errorSchema, 'output'),
+      },
+      responses: {
+        BadRequest: jsonResponse('Datos inválidos (INVALID_INPUT)', 'ApiError'),
+        Unauthorized: jsonResponse('Falta la API key, no existe o fue revocada', 'ApiError'),
+        NotFound: jsonResponse('La reserva no existe o no es de este host', 'ApiError'),
+        Conflict: jsonResponse(
+          'El horario ya está ocupado (SLOT_TAKEN) o la reserva no admite el cambio',
+          'ApiError'
+        ),
+        UnprocessableEntity: jsonResponse(
+          'El horario no se puede reservar (pasado, fuera de disponibilidad, sin anticipación suficiente...)',
+          'ApiError'
+        ),
+        TooManyRequests: {
+          ...jsonResponse('Se superó el límite de solicitudes por minuto de la API key', 'ApiError'),
+          headers: {
+            'Retry-After': { description: 'Segundos hasta el próximo minuto', schema: { type: 'integer' } },
+          },
+        },
+      },
+    },
+  };
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
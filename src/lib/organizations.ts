@@ -0,0 +1,126 @@
+/**
+ * Teams: which calendars a host can see and manage through their
+ * organization role, and the invitation tokens that add members.
+ * Applies TEAM_VIEW_ROLES/TEAM_MANAGE_ROLES to the reads that go through the
+ * service role, where RLS doesn't. Server-only.
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getMailer } from '@/lib/mailer';
+import { renderInviteEmail } from '@/lib/mailer/templates';
+import type { InviteEmailData } from '@/lib/mailer/templates';
+import type { CalendarScope, OrganizationRole } from '@/types/database';
+import { TEAM_MANAGE_ROLES, TEAM_VIEW_ROLES } from '@/types/database';
+
+type SupabaseClient = Awaited<ReturnType<typeof createServerSupabaseClient>>;
+
+export interface TeamAccess {
+  organizationId: string | null;
+  role: OrganizationRole | null;
+  memberIds: string[]; // every member's user id, the host's own included
+  canViewTeam: boolean;
+  canManageTeam: boolean; // members, invites and the team's calendars
+}
+
+/**
+ * The host's organization and role; a host without a team is on their own
+ */
+export async function getTeamAccess(supabase: SupabaseClient, userId: string): Promise<TeamAccess> {
+  const solo: TeamAccess = {
+    organizationId: null,
+    role: null,
+    memberIds: [userId],
+    canViewTeam: false,
+    canManageTeam: false,
+  };
+
+  const { data: membership, error } = await supabase
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching team membership:', error);
+    return solo;
+  }
+  if (!membership) {
+    return solo;
+  }
+
+  const { data: members } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', membership.organization_id);
+
+  const memberIds: string[] = (members || []).map((m: { user_id: string }) => m.user_id);
+
+  return {
+    organizationId: membership.organization_id,
+    role: membership.role,
+    memberIds: memberIds.includes(userId) ? memberIds : [userId, ...memberIds],
+    canViewTeam: TEAM_VIEW_ROLES.includes(membership.role),
+    canManageTeam: TEAM_MANAGE_ROLES.includes(membership.role),
+  };
+}
+
+/**
+ * Hosts whose calendars a scope covers: the team's only for roles that can see it
+ */
+export async function getScopeHostIds(
+  supabase: SupabaseClient,
+  userId: string,
+  scope: CalendarScope
+): Promise<string[]> {
+  if (scope === 'own') {
+    return [userId];
+  }
+
+  const access = await getTeamAccess(supabase, userId);
+  return access.canViewTeam ? access.memberIds : [userId];
+}
+
+/**
+ * Whether a host can change another's calendar: their own, or a teammate's
+ * for owners and admins (can_manage_calendar in SQL)
+ */
+export async function canManageCalendar(
+  supabase: SupabaseClient,
+  userId: string,
+  hostId: string
+): Promise<boolean> {
+  if (hostId === userId) {
+    return true;
+  }
+
+  const access = await getTeamAccess(supabase, userId);
+  return access.canManageTeam && access.memberIds.includes(hostId);
+}
+
+// ============================================
+// INVITES
+// ============================================
+
+// Invitations stop working after this (organization_invites.expires_at default)
+export const INVITE_TTL_DAYS = 7;
+
+export const hashInviteToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+export const generateInviteToken = (): { token: string; hash: string } => {
+  const token = randomBytes(24).toString('base64url');
+  return { token, hash: hashInviteToken(token) };
+};
+
+/**
+ * Emails an invitation link; a failed email is logged, the invite stays valid
+ * and its link can still be shared by hand
+ */
+export async function sendInviteEmail(to: string, data: InviteEmailData): Promise<void> {
+  try {
+    await getMailer().send({ to, ...renderInviteEmail(data) });
+  } catch (error) {
+    console.error('Error sending invite email:', error);
+  }
+}
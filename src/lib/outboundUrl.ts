@@ -0,0 +1,62 @@
+/**
+ * Guard for requests to URLs that hosts type in (calendar subscriptions,
+ * webhook endpoints): they have to go out to the internet, never to the
+ * server's own network (loopback, private or link-local addresses).
+ * Server-only.
+ */
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const internalAddresses = new BlockList();
+internalAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('100.64.0.0', 10, 'ipv4'); // carrier-grade NAT
+internalAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local, cloud metadata
+internalAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+internalAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+internalAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+internalAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+internalAddresses.addSubnet('224.0.0.0', 3, 'ipv4'); // multicast and reserved
+internalAddresses.addAddress('::', 'ipv6');
+internalAddresses.addAddress('::1', 'ipv6');
+internalAddresses.addSubnet('fc00::', 7, 'ipv6'); // unique local
+internalAddresses.addSubnet('fe80::', 10, 'ipv6'); // link-local
+internalAddresses.addSubnet('ff00::', 8, 'ipv6'); // multicast
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges
+const isInternalAddress = (address: string): boolean => {
+  return internalAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Throws unless the URL is http(s) and every address its host resolves to
+ * is a public one
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('La URL no es válida');
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('La URL debe ser http o https');
+  }
+
+  // [::1] -> ::1
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    throw new Error(`No se encontró el servidor ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new Error('La URL apunta a una red interna');
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Booking reminder runner
+ * Finds confirmed bookings with a reminder due, sends it through every
+ * channel and records it in booking_reminders so it never goes out twice.
+ * Run by the cron route (/api/cron/reminders) and `npm run reminders`.
+ * Server-only: uses the service role.
+ */
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { sendBookingReminder } from '@/lib/mailer/bookingEmails';
+import { DEFAULT_SETTINGS } from '@/types/database';
+
+type AdminClient = ReturnType<typeof createAdminSupabaseClient>;
+
+export interface ReminderChannel {
+  name: string; // stored in booking_reminders.channel
+  send(supabase: AdminClient, bookingId: string, offsetMinutes: number): Promise<void>;
+}
+
+const CHANNELS: ReminderChannel[] = [
+  { name: 'email', send: sendBookingReminder },
+];
+
+export interface ReminderRunResult {
+  due: number; // bookings with a reminder due
+  sent: number;
+  failed: number;
+}
+
+// Largest offset calendarSettingsSchema allows (7 days)
+const MAX_OFFSET_MINUTES = 10080;
+
+// Postgres SQLSTATE for the unique_booking_reminder constraint
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Offset whose reminder is due now: the closest one already reached.
+ * Earlier ones that never went out (runner down, booking made inside their
+ * window) are dropped rather than sent late.
+ */
+export const getDueReminderOffset = (
+  startTime: string,
+  bookedAt: string,
+  offsets: number[],
+  now: Date
+): number | null => {
+  const start = Date.parse(startTime);
+  if (start <= now.getTime()) {
+    return null;
+  }
+
+  const due = offsets.filter((offset) => {
+    const remindAt = start - offset * 60 * 1000;
+    return remindAt <= now.getTime() && remindAt >= Date.parse(bookedAt);
+  });
+
+  return due.length > 0 ? Math.min(...due) : null;
+};
+
+export async function runDueReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+  const supabase = createAdminSupabaseClient();
+  const result: ReminderRunResult = { due: 0, sent: 0, failed: 0 };
+
+  // Cancelled, completed and no-show bookings never get reminders
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('id, created_at, events!inner(start_time, created_by)')
+    .eq('status', 'confirmed')
+    .gt('events.start_time', now.toISOString())
+    .lte('events.start_time', new Date(now.getTime() + MAX_OFFSET_MINUTES * 60 * 1000).toISOString());
+
+  if (error) {
+    throw new Error(`Error fetching upcoming bookings: ${error.message}`);
+  }
+
+  const upcoming = (bookings || []).map(({ events, ...booking }) => ({
+    ...booking,
+    event: Array.isArray(events) ? events[0] : events,
+  }));
+  if (upcoming.length === 0) {
+    return result;
+  }
+
+  const hostIds = [...new Set(upcoming.map((booking) => booking.event.created_by))];
+  const { data: settings, error: settingsError } = await supabase
+    .from('calendar_settings')
+    .select('user_id, reminder_offsets')
+    .in('user_id', hostIds);
+
+  if (settingsError) {
+    throw new Error(`Error fetching reminder settings: ${settingsError.message}`);
+  }
+
+  const offsetsByHost = new Map<string, number[]>(
+    (settings || []).map((row) => [row.user_id, row.reminder_offsets])
+  );
+
+  for (const booking of upcoming) {
+    const offsets = offsetsByHost.get(booking.event.created_by) ?? DEFAULT_SETTINGS.reminder_offsets;
+    const offset = getDueReminderOffset(booking.event.start_time, booking.created_at, offsets, now);
+    if (offset === null) {
+      continue;
+    }
+
+    result.due++;
+
+    for (const channel of CHANNELS) {
+      // Claim first: a concurrent run (or an earlier one) already owns it
+      const { data: claim, error: claimError } = await supabase
+        .from('booking_reminders')
+        .insert({
+          booking_id: booking.id,
+          offset_minutes: offset,
+          event_start: booking.event.start_time,
+          channel: channel.name,
+        })
+        .select('id')
+        .single();
+
+      if (claimError) {
+        if (claimError.code !== UNIQUE_VIOLATION) {
+          console.error('Error recording reminder:', claimError);
+          result.failed++;
+        }
+        continue;
+      }
+
+      try {
+        await channel.send(supabase, booking.id, offset);
+        result.sent++;
+      } catch (sendError) {
+        console.error(`Error sending ${channel.name} reminder for booking ${booking.id}:`, sendError);
+        result.failed++;
+        // Release the claim so the next run retries it
+        await supabase.from('booking_reminders').delete().eq('id', claim.id);
+      }
+    }
+  }
+
+  return result;
+}
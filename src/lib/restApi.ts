@@ -0,0 +1,97 @@
+/**
+ * Helpers for the REST API route handlers (/api/v1)
+ * Responses are JSON: { data } on success, { error: { code, message } } otherwise.
+ */
+import { NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/apiKeys';
+import type { RateLimitState } from '@/lib/apiKeys';
+import type { HostBookingErrorCode } from '@/types/database';
+
+interface ApiRouteContext<P> {
+  hostId: string;
+  params: P;
+}
+
+// HTTP status of each booking error code
+const BOOKING_ERROR_STATUS: Record<HostBookingErrorCode, number> = {
+  INVALID_INPUT: 400,
+  SLOT_IN_PAST: 422,
+  MIN_NOTICE_NOT_MET: 422,
+  BEYOND_BOOKING_WINDOW: 422,
+  INVALID_DURATION: 422,
+  OUTSIDE_AVAILABILITY: 422,
+  SLOT_TAKEN: 409,
+  SERVER_ERROR: 500,
+  NOT_FOUND: 404,
+  NOT_CHANGEABLE: 409,
+  INVALID_TRANSITION: 409,
+  NOT_STARTED: 409,
+  CONFLICT: 409,
+};
+
+export const apiData = <T>(data: T, status = 200): NextResponse => {
+  return NextResponse.json({ data }, { status });
+};
+
+export const apiError = (status: number, code: string, message: string): NextResponse => {
+  return NextResponse.json({ error: { code, message } }, { status });
+};
+
+/**
+ * Error response for a failed booking change, with the status its code maps to
+ */
+export const apiBookingError = (code: HostBookingErrorCode | undefined, message?: string): NextResponse => {
+  const errorCode = code ?? 'SERVER_ERROR';
+  return apiError(BOOKING_ERROR_STATUS[errorCode], errorCode, message || 'Error inesperado');
+};
+
+/**
+ * JSON body of a request, or null when it isn't valid JSON
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+const setRateLimitHeaders = (response: NextResponse, rateLimit: RateLimitState): NextResponse => {
+  response.headers.set('X-RateLimit-Limit', String(rateLimit.limit));
+  response.headers.set('X-RateLimit-Remaining', String(rateLimit.remaining));
+  response.headers.set('X-RateLimit-Reset', String(Math.ceil(rateLimit.resetAt.getTime() / 1000)));
+  return response;
+};
+
+/**
+ * Wraps a route handler: the request must carry a valid API key within its
+ * rate limit, and the handler acts as the key's host
+ */
+export function withApiKey<P = Record<string, never>>(
+  handler: (request: Request, context: ApiRouteContext<P>) => Promise<NextResponse>
+) {
+  return async (request: Request, { params }: { params: Promise<P> }): Promise<NextResponse> => {
+    const auth = await authenticateApiRequest(request);
+
+    if (!auth.ok) {
+      const response = apiError(auth.status, auth.code, auth.message);
+      if (auth.rateLimit) {
+        setRateLimitHeaders(response, auth.rateLimit);
+        const retryAfter = Math.max(1, Math.ceil((auth.rateLimit.resetAt.getTime() - Date.now()) / 1000));
+        response.headers.set('Retry-After', String(retryAfter));
+      }
+      return response;
+    }
+
+    let response: NextResponse;
+    try {
+      response = await handler(request, { hostId: auth.identity.hostId, params: await params });
+    } catch (error) {
+      console.error('Unexpected error in API route:', error);
+      response = apiError(500, 'SERVER_ERROR', 'Error inesperado');
+    }
+
+    response.headers.set('Cache-Control', 'private, no-store');
+    return setRateLimitHeaders(response, auth.rateLimit);
+  };
+}
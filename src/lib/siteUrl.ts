@@ -0,0 +1,8 @@
+/**
+ * Absolute base URL of the app, for links that leave the browser (emails, feeds)
+ */
+export const getSiteUrl = (): string => {
+  const url = process.env.NEXT_PUBLIC_SITE_URL
+    || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
+  return url.replace(/\/+$/, '');
+};
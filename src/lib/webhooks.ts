@@ -0,0 +1,374 @@
+/**
+ * Outbound webhooks
+ * Booking and event changes are POSTed as JSON to the host's endpoints,
+ * signed with each webhook's secret. Every notification is logged in
+ * webhook_deliveries; failed ones are retried with exponential backoff by
+ * /api/cron/webhooks and `npm run webhooks`.
+ * Like the emails, sending never fails the action that triggered it.
+ * Server-only: uses the service role.
+ *
+ * Verifying a delivery: X-Webhook-Signature is 't=<unix seconds>,v1=<hex>',
+ * where hex = HMAC-SHA256(secret, '<t>.<raw body>').
+ */
+import { createHmac, randomUUID } from 'crypto';
+import { createAdminSupabaseClient } from '@/lib/supabase/server';
+import { assertPublicUrl } from '@/lib/outboundUrl';
+import type { Json, WebhookEventType } from '@/types/database';
+
+type AdminClient = ReturnType<typeof createAdminSupabaseClient>;
+
+export type WebhookPayloadType = WebhookEventType | 'webhook.test';
+
+export interface WebhookPayload {
+  id: string; // same for every endpoint notified of this change
+  type: WebhookPayloadType;
+  created_at: string;
+  data: Record<string, Json>;
+}
+
+interface DeliveryTarget {
+  id: string; // delivery id
+  attempts: number;
+  event_type: string;
+  payload: Json;
+  webhook: { url: string; secret: string };
+}
+
+export interface DeliveryResult {
+  success: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+export interface WebhookRetryResult {
+  due: number;
+  delivered: number;
+  failed: number;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// 1 + 7 retries, 1 min apart doubling each time (last one ~2 h after the first)
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+// How long a claimed delivery is left alone before another run may retry it
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+const USER_AGENT = 'Agenda-Webhooks/1.0';
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+export const getRetryDelayMs = (attempts: number): number => {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+};
+
+/**
+ * One POST of a delivery. The delivery is claimed first (optimistically, on
+ * its attempt count, and only once due), so the cron and an in-flight send
+ * never both send it, and a delivery still leased or waiting for its retry
+ * is left alone.
+ */
+async function attemptDelivery(
+  supabase: AdminClient,
+  delivery: DeliveryTarget,
+  maxAttempts: number = MAX_ATTEMPTS
+): Promise<DeliveryResult> {
+  const now = Date.now();
+
+  const { data: claimed } = await supabase
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: new Date(now + CLAIM_LEASE_MS).toISOString() })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('attempts', delivery.attempts)
+    .lte('next_attempt_at', new Date(now).toISOString())
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return { success: false, statusCode: null, error: 'Ya se está enviando' };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now / 1000);
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    // Checked on every attempt: the host's address may resolve elsewhere since
+    await assertPublicUrl(delivery.webhook.url);
+    const response = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signWebhookPayload(delivery.webhook.secret, timestamp, body)}`,
+      },
+      body,
+      // A redirect could point anywhere; the endpoint must answer itself
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error && fetchError.name === 'TimeoutError'
+      ? 'Sin respuesta en 10 segundos'
+      : fetchError instanceof Error ? fetchError.message : 'Error de conexión';
+  }
+
+  const attempts = delivery.attempts + 1;
+  const delivered = error === null;
+  const givenUp = !delivered && attempts >= maxAttempts;
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      attempts,
+      status: delivered ? 'delivered' : givenUp ? 'failed' : 'pending',
+      next_attempt_at: delivered || givenUp ? null : new Date(now + getRetryDelayMs(attempts)).toISOString(),
+      last_status_code: statusCode,
+      last_error: error,
+      delivered_at: delivered ? new Date().toISOString() : null,
+    })
+    .eq('id', delivery.id);
+
+  if (updateError) {
+    console.error('Error recording webhook delivery:', updateError);
+  }
+
+  return { success: delivered, statusCode, error };
+}
+
+/**
+ * Logs a delivery per endpoint and sends it right away
+ */
+async function deliver(
+  supabase: AdminClient,
+  webhooks: { id: string; url: string; secret: string }[],
+  payload: WebhookPayload,
+  maxAttempts?: number
+): Promise<DeliveryResult[]> {
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(webhooks.map((webhook) => ({
+      webhook_id: webhook.id,
+      event_type: payload.type,
+      payload: payload as unknown as Json,
+      // Due now by the clock the claim compares against
+      next_attempt_at: new Date().toISOString(),
+    })))
+    .select('id, webhook_id');
+
+  if (error || !deliveries) {
+    throw new Error(`Error recording webhook deliveries: ${error?.message}`);
+  }
+
+  return Promise.all(
+    deliveries.map((delivery) =>
+      attemptDelivery(
+        supabase,
+        {
+          id: delivery.id,
+          attempts: 0,
+          event_type: payload.type,
+          payload: payload as unknown as Json,
+          webhook: webhooks.find((webhook) => webhook.id === delivery.webhook_id)!,
+        },
+        maxAttempts
+      )
+    )
+  );
+}
+
+/**
+ * Notifies the host's active webhooks subscribed to this event type
+ */
+export async function emitWebhookEvent(
+  userId: string,
+  type: WebhookEventType,
+  data: Record<string, Json>
+): Promise<void> {
+  try {
+    const supabase = createAdminSupabaseClient();
+
+    const { data: webhooks, error } = await supabase
+      .from('webhooks')
+      .select('id, url, secret')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .contains('events', [type]);
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return;
+    }
+    if (!webhooks || webhooks.length === 0) {
+      return;
+    }
+
+    await deliver(supabase, webhooks, {
+      id: randomUUID(),
+      type,
+      created_at: new Date().toISOString(),
+      data,
+    });
+  } catch (error) {
+    console.error(`Unexpected error sending ${type} webhooks:`, error);
+  }
+}
+
+/**
+ * One-off 'webhook.test' delivery from the admin panel; logged but not retried
+ */
+export async function sendTestWebhook(webhook: { id: string; url: string; secret: string }): Promise<DeliveryResult> {
+  const supabase = createAdminSupabaseClient();
+
+  const [result] = await deliver(
+    supabase,
+    [webhook],
+    {
+      id: randomUUID(),
+      type: 'webhook.test',
+      created_at: new Date().toISOString(),
+      data: { message: 'Webhook de prueba' },
+    },
+    1
+  );
+
+  return result;
+}
+
+// ============================================
+// PAYLOADS
+// ============================================
+
+/**
+ * booking.created / booking.cancelled / booking.rescheduled for a booking
+ */
+export async function emitBookingWebhook(
+  type: Extract<WebhookEventType, `booking.${string}`>,
+  bookingId: string,
+  previousStartTime: string | null = null
+): Promise<void> {
+  try {
+    const supabase = createAdminSupabaseClient();
+
+    const { data: booking, error } = await supabase
+      .from('bookings')
+      .select('id, event_id, status, status_reason, name, email, phone, notes, timezone, created_at, events!inner(title, start_time, end_time, created_by)')
+      .eq('id', bookingId)
+      .single();
+
+    if (error || !booking) {
+      console.error('Error fetching booking for webhook:', error);
+      return;
+    }
+
+    const { events, ...fields } = booking;
+    const event = Array.isArray(events) ? events[0] : events;
+
+    await emitWebhookEvent(event.created_by, type, {
+      booking: {
+        ...fields,
+        title: event.title,
+        start_time: event.start_time,
+        end_time: event.end_time,
+      },
+      previous_start_time: previousStartTime,
+    });
+  } catch (error) {
+    console.error(`Unexpected error sending ${type} webhooks:`, error);
+  }
+}
+
+// Event fields sent in event.* payloads
+export const WEBHOOK_EVENT_COLUMNS =
+  'id, title, description, start_time, end_time, event_type, overlap_policy, is_public, rrule, exdates, recurrence_parent_id, original_start, created_by, updated_at';
+
+type WebhookEventRow = { created_by: string | null } & Record<string, Json>;
+
+/**
+ * event.created or event.updated with the event as it is now
+ */
+export async function emitEventWebhook(
+  eventId: string,
+  type: 'event.created' | 'event.updated' = 'event.updated'
+): Promise<void> {
+  try {
+    const supabase = createAdminSupabaseClient();
+
+    const { data: event, error } = await supabase
+      .from('events')
+      .select(WEBHOOK_EVENT_COLUMNS)
+      .eq('id', eventId)
+      .single();
+
+    if (error || !event) {
+      console.error('Error fetching event for webhook:', error);
+      return;
+    }
+
+    const { created_by: userId, ...fields } = event;
+    await emitWebhookEvent(userId, type, { event: fields });
+  } catch (error) {
+    console.error(`Unexpected error sending ${type} webhooks:`, error);
+  }
+}
+
+/**
+ * event.deleted with the event as it was, since it can't be read anymore
+ * (the row returned by the delete, with WEBHOOK_EVENT_COLUMNS)
+ */
+export async function emitEventDeletedWebhook(event: WebhookEventRow): Promise<void> {
+  try {
+    const { created_by: userId, ...fields } = event;
+    if (userId) {
+      await emitWebhookEvent(userId, 'event.deleted', { event: fields });
+    }
+  } catch (error) {
+    console.error('Unexpected error sending event.deleted webhooks:', error);
+  }
+}
+
+// ============================================
+// RETRIES
+// ============================================
+
+export async function retryDueWebhookDeliveries(now: Date = new Date()): Promise<WebhookRetryResult> {
+  const supabase = createAdminSupabaseClient();
+
+  // Deliveries of paused webhooks wait until it's turned back on
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, attempts, event_type, payload, webhooks!inner(url, secret, is_active)')
+    .eq('status', 'pending')
+    .eq('webhooks.is_active', true)
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at')
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Error fetching webhook deliveries: ${error.message}`);
+  }
+
+  const result: WebhookRetryResult = { due: deliveries?.length ?? 0, delivered: 0, failed: 0 };
+
+  for (const { webhooks, ...delivery } of deliveries || []) {
+    const webhook = Array.isArray(webhooks) ? webhooks[0] : webhooks;
+    const { success } = await attemptDelivery(supabase, { ...delivery, webhook });
+    if (success) {
+      result.delivered++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
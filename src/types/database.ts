@@ -24,6 +24,12 @@ export interface Database {
           created_by: string | null;
           is_public: boolean;
           event_type: string;
+          overlap_policy: string; // set by trigger from event_type_policies
+          rrule: string | null; // RFC 5545 rule; start/end are the first occurrence
+          exdates: string[]; // occurrence starts not generated from the rule
+          recurrence_end: string | null; // null = repeats forever
+          recurrence_parent_id: string | null; // set on an occurrence edited on its own
+          original_start: string | null; // start that occurrence had in the series
           created_at: string;
           updated_at: string;
         };
@@ -36,6 +42,11 @@ export interface Database {
           created_by?: string | null;
           is_public?: boolean;
           event_type?: string;
+          rrule?: string | null;
+          exdates?: string[];
+          recurrence_end?: string | null;
+          recurrence_parent_id?: string | null;
+          original_start?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -48,6 +59,11 @@ export interface Database {
           created_by?: string | null;
           is_public?: boolean;
           event_type?: string;
+          rrule?: string | null;
+          exdates?: string[];
+          recurrence_end?: string | null;
+          recurrence_parent_id?: string | null;
+          original_start?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -61,6 +77,10 @@ export interface Database {
           phone: string | null;
           notes: string | null;
           status: string;
+          status_reason: string | null;
+          status_changed_at: string | null;
+          timezone: string | null;
+          meeting_type_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -71,6 +91,10 @@ export interface Database {
           phone?: string | null;
           notes?: string | null;
           status?: string;
+          status_reason?: string | null;
+          status_changed_at?: string | null;
+          timezone?: string | null;
+          meeting_type_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -81,6 +105,391 @@ export interface Database {
           phone?: string | null;
           notes?: string | null;
           status?: string;
+          status_reason?: string | null;
+          status_changed_at?: string | null;
+          timezone?: string | null;
+          meeting_type_id?: string | null;
+          created_at?: string;
+        };
+      };
+      booking_status_history: {
+        Row: {
+          id: string;
+          booking_id: string;
+          from_status: string | null;
+          to_status: string;
+          reason: string | null;
+          changed_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          from_status?: string | null;
+          to_status: string;
+          reason?: string | null;
+          changed_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          from_status?: string | null;
+          to_status?: string;
+          reason?: string | null;
+          changed_by?: string | null;
+          created_at?: string;
+        };
+      };
+      booking_reminders: {
+        Row: {
+          id: string;
+          booking_id: string;
+          offset_minutes: number;
+          event_start: string;
+          channel: string;
+          sent_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          offset_minutes: number;
+          event_start: string;
+          channel: string;
+          sent_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          offset_minutes?: number;
+          event_start?: string;
+          channel?: string;
+          sent_at?: string;
+        };
+      };
+      external_calendars: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          source_type: ExternalCalendarSourceType;
+          url: string | null;
+          ics_content: string | null;
+          last_synced_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          source_type: ExternalCalendarSourceType;
+          url?: string | null;
+          ics_content?: string | null;
+          last_synced_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          source_type?: ExternalCalendarSourceType;
+          url?: string | null;
+          ics_content?: string | null;
+          last_synced_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      external_busy: {
+        Row: {
+          id: string;
+          calendar_id: string;
+          user_id: string;
+          start_time: string;
+          end_time: string;
+        };
+        Insert: {
+          id?: string;
+          calendar_id: string;
+          user_id: string;
+          start_time: string;
+          end_time: string;
+        };
+        Update: {
+          id?: string;
+          calendar_id?: string;
+          user_id?: string;
+          start_time?: string;
+          end_time?: string;
+        };
+      };
+      webhooks: {
+        Row: {
+          id: string;
+          user_id: string;
+          url: string;
+          secret: string;
+          events: WebhookEventType[];
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          url: string;
+          secret: string;
+          events: WebhookEventType[];
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          url?: string;
+          secret?: string;
+          events?: WebhookEventType[];
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          webhook_id: string;
+          event_type: string;
+          payload: Json;
+          status: WebhookDeliveryStatus;
+          attempts: number;
+          next_attempt_at: string | null;
+          last_status_code: number | null;
+          last_error: string | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          webhook_id: string;
+          event_type: string;
+          payload: Json;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          last_status_code?: number | null;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          webhook_id?: string;
+          event_type?: string;
+          payload?: Json;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          last_status_code?: number | null;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+      };
+      meeting_types: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          slug: string;
+          description: string | null;
+          duration_minutes: number;
+          buffer_before_minutes: number;
+          buffer_after_minutes: number;
+          min_notice_hours: number;
+          color: string;
+          is_active: boolean;
+          position: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          slug: string;
+          description?: string | null;
+          duration_minutes?: number;
+          buffer_before_minutes?: number;
+          buffer_after_minutes?: number;
+          min_notice_hours?: number;
+          color?: string;
+          is_active?: boolean;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          slug?: string;
+          description?: string | null;
+          duration_minutes?: number;
+          buffer_before_minutes?: number;
+          buffer_after_minutes?: number;
+          min_notice_hours?: number;
+          color?: string;
+          is_active?: boolean;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      host_profiles: {
+        Row: {
+          user_id: string;
+          username: string;
+          display_name: string;
+          bio: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          username: string;
+          display_name: string;
+          bio?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          username?: string;
+          display_name?: string;
+          bio?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      organization_members: {
+        Row: {
+          organization_id: string;
+          user_id: string;
+          role: OrganizationRole;
+          email: string;
+          created_at: string;
+        };
+        Insert: {
+          organization_id: string;
+          user_id: string;
+          role: OrganizationRole;
+          email: string;
+          created_at?: string;
+        };
+        Update: {
+          organization_id?: string;
+          user_id?: string;
+          role?: OrganizationRole;
+          email?: string;
+          created_at?: string;
+        };
+      };
+      organization_invites: {
+        Row: {
+          id: string;
+          organization_id: string;
+          email: string;
+          role: OrganizationRole;
+          token_hash: string;
+          invited_by: string | null;
+          expires_at: string;
+          accepted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          email: string;
+          role: OrganizationRole;
+          token_hash: string;
+          invited_by?: string | null;
+          expires_at?: string;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          email?: string;
+          role?: OrganizationRole;
+          token_hash?: string;
+          invited_by?: string | null;
+          expires_at?: string;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          rate_limit_per_minute: number;
+          last_used_at: string | null;
+          revoked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          rate_limit_per_minute?: number;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          key_prefix?: string;
+          key_hash?: string;
+          rate_limit_per_minute?: number;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
           created_at?: string;
         };
       };
@@ -141,10 +550,32 @@ export interface Database {
         Args: {
           p_start_time: string;
           p_end_time: string;
+          p_user_id: string;
+          p_event_type?: string;
           p_event_id?: string;
         };
         Returns: boolean;
       };
+      resolve_overlap_policy: {
+        Args: {
+          p_user_id: string;
+          p_event_type: string;
+        };
+        Returns: string;
+      };
+      create_booking: {
+        Args: {
+          p_host_id: string | null;
+          p_start_time: string;
+          p_end_time: string;
+          p_name: string;
+          p_email: string;
+          p_phone?: string | null;
+          p_notes?: string | null;
+          p_timezone?: string | null;
+        };
+        Returns: string; // booking id
+      };
     };
   };
 }
@@ -161,6 +592,30 @@ export type Booking = Database['public']['Tables']['bookings']['Row'];
 export type InsertBooking = Database['public']['Tables']['bookings']['Insert'];
 export type UpdateBooking = Database['public']['Tables']['bookings']['Update'];
 
+export type BookingStatusChange = Database['public']['Tables']['booking_status_history']['Row'];
+export type BookingReminder = Database['public']['Tables']['booking_reminders']['Row'];
+
+export type ExternalBusy = Database['public']['Tables']['external_busy']['Row'];
+
+export type Webhook = Database['public']['Tables']['webhooks']['Row'];
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row'];
+
+export type MeetingType = Database['public']['Tables']['meeting_types']['Row'];
+
+export type HostProfile = Database['public']['Tables']['host_profiles']['Row'];
+
+// With the absolute URL of its booking page, for the admin panel
+export type HostProfileWithUrl = HostProfile & { url: string };
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationMember = Database['public']['Tables']['organization_members']['Row'];
+
+// Without token_hash: the link is only shown when the invite is sent
+export type OrganizationInvite = Omit<Database['public']['Tables']['organization_invites']['Row'], 'token_hash'>;
+
+// Without key_hash: the panel never needs it
+export type ApiKey = Omit<Database['public']['Tables']['api_keys']['Row'], 'key_hash' | 'user_id'>;
+
 export type AvailabilityRule = Database['public']['Tables']['availability_rules']['Row'];
 export type InsertAvailabilityRule = Database['public']['Tables']['availability_rules']['Insert'];
 export type UpdateAvailabilityRule = Database['public']['Tables']['availability_rules']['Update'];
@@ -170,11 +625,30 @@ export type UpdateAvailabilityRule = Database['public']['Tables']['availability_
 // ============================================
 
 export type EventType = 'meeting' | 'booking' | 'block' | 'personal';
-export type BookingStatus = 'confirmed' | 'cancelled' | 'completed';
+// blocks: occupies time and can't overlap other blocking events
+// allows_overlap: occupies time, other events may overlap it
+// informational: never occupies time
+export type OverlapPolicy = 'blocks' | 'allows_overlap' | 'informational';
+export type BookingStatus = 'confirmed' | 'cancelled' | 'completed' | 'no_show';
 export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+export type ExternalCalendarSourceType = 'url' | 'file';
+export type WebhookEventType =
+  | 'booking.created'
+  | 'booking.cancelled'
+  | 'booking.rescheduled'
+  | 'event.created'
+  | 'event.updated'
+  | 'event.deleted';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+export type OrganizationRole = 'owner' | 'admin' | 'staff' | 'viewer';
+// own: the signed-in host's calendar; team: every member's, for the roles that can see it
+export type CalendarScope = 'own' | 'team';
 
 export interface EventWithBooking extends Event {
   booking?: Booking | null;
+  // Set when the row is one occurrence expanded from a recurring series
+  // (id is the series'); start_time/end_time are that occurrence's
+  occurrence_start?: string;
 }
 
 export interface TimeSlot {
@@ -196,18 +670,85 @@ export interface AvailabilityConfig {
   bufferTime: number; // in minutes between slots
   advanceBookingDays: number; // how far in advance can bookings be made
   minNoticeHours: number; // minimum hours notice required for booking
+  timezone: string; // IANA zone the availability rules are expressed in
+}
+
+export interface PublicCalendarConfig extends AvailabilityConfig {
+  hostId: string | null; // owner of the settings; null before the host configures anything
+  schedule: DaySchedule[]; // active days only
+  cancellationCutoffHours: number; // visitors can't cancel/reschedule closer than this to the start
+  // Minutes that must also be free around a booking (meeting type buffers)
+  bufferBefore: number;
+  bufferAfter: number;
+}
+
+export interface BookingWindow {
+  minDate: Date; // earliest bookable start (now + min notice)
+  maxDate: Date; // latest bookable start (now + advance booking days)
+}
+
+export interface BookingAvailability {
+  slots: TimeSlot[];
+  window: BookingWindow;
+  slotDuration: number;
+  timezone: string; // host zone
 }
 
 // ============================================
 // API RESPONSE TYPES
 // ============================================
 
-export interface ApiResponse<T> {
+export interface ApiResponse<T, E extends string = string> {
   data?: T;
   error?: string;
+  code?: E; // machine-readable reason when success is false
   success: boolean;
 }
 
+// Why createBooking rejected a requested slot
+export type BookingErrorCode =
+  | 'INVALID_INPUT'
+  | 'SLOT_IN_PAST'
+  | 'MIN_NOTICE_NOT_MET'
+  | 'BEYOND_BOOKING_WINDOW'
+  | 'INVALID_DURATION'
+  | 'OUTSIDE_AVAILABILITY'
+  | 'SLOT_TAKEN'
+  | 'SERVER_ERROR';
+
+// Errors of the visitor's self-service booking management
+export type ManageBookingErrorCode =
+  | BookingErrorCode
+  | 'INVALID_TOKEN'
+  | 'NOT_CHANGEABLE'
+  | 'CUTOFF_PASSED';
+
+// Errors of booking changes made by the host (admin panel or REST API)
+export type HostBookingErrorCode =
+  | BookingErrorCode
+  | 'NOT_FOUND'
+  | 'NOT_CHANGEABLE'
+  | 'INVALID_TRANSITION'
+  | 'NOT_STARTED'
+  | 'CONFLICT';
+
+// A booking as shown to the visitor on its management page
+export interface ManagedBooking {
+  id: string;
+  status: BookingStatus;
+  name: string;
+  email: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  timezone: string | null; // zone the visitor booked in
+  hostId: string;
+  hostTimeZone: string;
+  meetingTypeId: string | null; // rescheduling keeps the booking's meeting type
+  changeDeadline: string; // last moment to cancel or reschedule
+  canChange: boolean;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -216,6 +757,31 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
 }
 
+// ============================================
+// TEAM TYPES
+// ============================================
+
+// A member with the public name of their host profile, if they set one up
+export interface TeamMember extends OrganizationMember {
+  display_name: string | null;
+}
+
+// The signed-in host's organization as the team panel shows it; invites
+// are only listed to the roles that manage members
+export interface TeamOverview {
+  organization: Organization;
+  role: OrganizationRole;
+  members: TeamMember[];
+  invites: OrganizationInvite[];
+}
+
+// An invitation as its link's page shows it, before it's accepted
+export interface InvitePreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+}
+
 // ============================================
 // CALENDAR SETTINGS TYPES
 // ============================================
@@ -227,13 +793,54 @@ export interface CalendarSettings {
   buffer_time: number;
   advance_booking_days: number;
   min_notice_hours: number;
+  timezone: string;
+  cancellation_cutoff_hours: number;
+  reminder_offsets: number[]; // minutes before a booking, e.g. [1440, 60]
+}
+
+export interface TimeInterval {
+  start_time: string; // 'HH:mm'
+  end_time: string; // 'HH:mm'
 }
 
 export interface DaySchedule {
   day_of_week: number;
-  start_time: string;
-  end_time: string;
   is_active: boolean;
+  intervals: TimeInterval[]; // any number of windows, e.g. split shifts
+}
+
+export interface AvailabilityOverride {
+  id: string;
+  user_id: string;
+  start_date: string; // 'yyyy-MM-dd', host-local, inclusive
+  end_date: string; // 'yyyy-MM-dd', host-local, inclusive
+  is_closed: boolean; // true = no availability, false = intervals replace the weekly rules
+  intervals: TimeInterval[];
+  reason: string | null;
+  created_at: string;
+}
+
+export interface EventTypePolicy {
+  event_type: Exclude<EventType, 'booking'>; // bookings always block
+  overlap_policy: OverlapPolicy;
+}
+
+export interface CalendarFeed {
+  url: string; // https://…/api/feed/<token>
+  webcalUrl: string; // same feed for calendar apps that subscribe via webcal://
+  include_private: boolean;
+  include_attendees: boolean;
+}
+
+// Another calendar of the host imported as busy time (the uploaded file itself stays server-side)
+export interface ExternalCalendar {
+  id: string;
+  name: string;
+  source_type: ExternalCalendarSourceType;
+  url: string | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+  busy_count: number; // intervals currently imported
 }
 
 export interface FullCalendarConfig {
@@ -258,15 +865,57 @@ export const DEFAULT_SETTINGS: Omit<CalendarSettings, 'id' | 'user_id'> = {
   buffer_time: 0,
   advance_booking_days: 60,
   min_notice_hours: 12,
+  timezone: 'America/Argentina/Buenos_Aires',
+  cancellation_cutoff_hours: 24,
+  reminder_offsets: [1440, 60],
 };
 
 // Default schedule (Monday to Friday, 9-18)
 export const DEFAULT_SCHEDULE: DaySchedule[] = [
-  { day_of_week: 0, start_time: '09:00', end_time: '18:00', is_active: false }, // Sunday
-  { day_of_week: 1, start_time: '09:00', end_time: '18:00', is_active: true },  // Monday
-  { day_of_week: 2, start_time: '09:00', end_time: '18:00', is_active: true },  // Tuesday
-  { day_of_week: 3, start_time: '09:00', end_time: '18:00', is_active: true },  // Wednesday
-  { day_of_week: 4, start_time: '09:00', end_time: '18:00', is_active: true },  // Thursday
-  { day_of_week: 5, start_time: '09:00', end_time: '18:00', is_active: true },  // Friday
-  { day_of_week: 6, start_time: '09:00', end_time: '18:00', is_active: false }, // Saturday
+  { day_of_week: 0, is_active: false, intervals: [{ start_time: '09:00', end_time: '18:00' }] }, // Sunday
+  { day_of_week: 1, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },  // Monday
+  { day_of_week: 2, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },  // Tuesday
+  { day_of_week: 3, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },  // Wednesday
+  { day_of_week: 4, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },  // Thursday
+  { day_of_week: 5, is_active: true, intervals: [{ start_time: '09:00', end_time: '18:00' }] },  // Friday
+  { day_of_week: 6, is_active: false, intervals: [{ start_time: '09:00', end_time: '18:00' }] }, // Saturday
 ];
+
+// Overlap policy of event types the host hasn't configured (mirrors resolve_overlap_policy)
+export const DEFAULT_EVENT_TYPE_POLICIES: EventTypePolicy[] = [
+  { event_type: 'meeting', overlap_policy: 'blocks' },
+  { event_type: 'block', overlap_policy: 'blocks' },
+  { event_type: 'personal', overlap_policy: 'informational' },
+];
+
+// Event types a webhook can subscribe to (mirrors valid_webhook_events in webhooks.sql)
+export const WEBHOOK_EVENTS: { type: WebhookEventType; label: string }[] = [
+  { type: 'booking.created', label: 'Reserva creada' },
+  { type: 'booking.cancelled', label: 'Reserva cancelada' },
+  { type: 'booking.rescheduled', label: 'Reserva reprogramada' },
+  { type: 'event.created', label: 'Evento creado' },
+  { type: 'event.updated', label: 'Evento actualizado' },
+  { type: 'event.deleted', label: 'Evento eliminado' },
+];
+
+// Team roles (mirrors valid_member_role in organizations.sql)
+export const ORGANIZATION_ROLES: { role: OrganizationRole; label: string; description: string }[] = [
+  { role: 'owner', label: 'Propietario', description: 'Todo, incluida la organización' },
+  { role: 'admin', label: 'Administrador', description: 'Ve y gestiona los calendarios del equipo y sus miembros' },
+  { role: 'staff', label: 'Staff', description: 'Solo su propio calendario' },
+  { role: 'viewer', label: 'Observador', description: 'Ve los calendarios del equipo sin modificarlos' },
+];
+
+// Roles that see every member's calendar, and those that also manage the
+// team (mirror can_view_calendar/can_manage_calendar in organizations.sql)
+export const TEAM_VIEW_ROLES: OrganizationRole[] = ['owner', 'admin', 'viewer'];
+export const TEAM_MANAGE_ROLES: OrganizationRole[] = ['owner', 'admin'];
+
+// Status changes the admin can make; cancelled is final because the slot may
+// have been booked again. Completed and no-show can be corrected either way.
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  confirmed: ['cancelled', 'completed', 'no_show'],
+  completed: ['no_show'],
+  no_show: ['completed'],
+  cancelled: [],
+};
@@ -0,0 +1,258 @@
+/**
+ * Availability interval helpers
+ * Pure functions shared by the settings panel, validations, the slot engine
+ * and booking validation
+ */
+import { format } from 'date-fns';
+import { generateTimeSlots, getBookingWindow, getDayOfWeek } from '@/utils/dateHelpers';
+import type {
+  AvailabilityConfig,
+  AvailabilityOverride,
+  AvailabilityRule,
+  BookingErrorCode,
+  DaySchedule,
+  MeetingType,
+  TimeInterval,
+} from '@/types/database';
+
+// ============================================
+// TIME OF DAY
+// ============================================
+
+/**
+ * '09:30' or '09:30:00' (Postgres TIME) -> minutes since midnight
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number): string => {
+  const clamped = Math.max(0, Math.min(minutes, 23 * 60 + 59));
+  const hours = Math.floor(clamped / 60);
+  const mins = clamped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+};
+
+/**
+ * Drops the seconds Postgres adds to TIME columns ('09:00:00' -> '09:00')
+ */
+export const normalizeTime = (time: string): string => {
+  return minutesToTime(timeToMinutes(time));
+};
+
+// ============================================
+// INTERVALS
+// ============================================
+
+export const doIntervalsOverlap = (a: TimeInterval, b: TimeInterval): boolean => {
+  return (
+    timeToMinutes(a.start_time) < timeToMinutes(b.end_time) &&
+    timeToMinutes(b.start_time) < timeToMinutes(a.end_time)
+  );
+};
+
+/**
+ * Sorts intervals and merges the ones that overlap or touch,
+ * so 09:00-13:00 + 12:00-14:00 becomes a single 09:00-14:00 window
+ */
+export const mergeIntervals = (intervals: TimeInterval[]): TimeInterval[] => {
+  const sorted = [...intervals]
+    .filter((i) => timeToMinutes(i.end_time) > timeToMinutes(i.start_time))
+    .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of sorted) {
+    const start = timeToMinutes(interval.start_time);
+    const end = timeToMinutes(interval.end_time);
+    const last = merged[merged.length - 1];
+
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      merged.push({ start, end });
+    }
+  }
+
+  return merged.map((i) => ({
+    start_time: minutesToTime(i.start),
+    end_time: minutesToTime(i.end),
+  }));
+};
+
+// ============================================
+// RULES <-> SCHEDULE
+// ============================================
+
+/**
+ * Active windows for a weekday, merged and ready for slot generation
+ */
+export const getDayIntervals = (
+  schedule: DaySchedule[],
+  dayOfWeek: number
+): TimeInterval[] => {
+  return mergeIntervals(
+    schedule
+      .filter((d) => d.day_of_week === dayOfWeek && d.is_active)
+      .flatMap((d) => d.intervals)
+  );
+};
+
+/**
+ * Groups availability_rules rows (one per window) into one entry per weekday.
+ * Days without rows keep the entry from `defaults`.
+ */
+export const rulesToSchedule = (
+  rules: Pick<AvailabilityRule, 'day_of_week' | 'start_time' | 'end_time' | 'is_active'>[],
+  defaults: DaySchedule[]
+): DaySchedule[] => {
+  return defaults.map((defaultDay) => {
+    const dayRules = rules.filter((r) => r.day_of_week === defaultDay.day_of_week);
+    if (dayRules.length === 0) {
+      return defaultDay;
+    }
+
+    return {
+      day_of_week: defaultDay.day_of_week,
+      is_active: dayRules.some((r) => r.is_active),
+      intervals: dayRules
+        .map((r) => ({
+          start_time: normalizeTime(r.start_time),
+          end_time: normalizeTime(r.end_time),
+        }))
+        .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time)),
+    };
+  });
+};
+
+/**
+ * Flattens a schedule back into availability_rules rows (one per window)
+ */
+export const scheduleToRules = (
+  schedule: DaySchedule[],
+  userId: string
+): Pick<AvailabilityRule, 'user_id' | 'day_of_week' | 'start_time' | 'end_time' | 'is_active'>[] => {
+  return schedule.flatMap((day) =>
+    day.intervals.map((interval) => ({
+      user_id: userId,
+      day_of_week: day.day_of_week,
+      start_time: interval.start_time,
+      end_time: interval.end_time,
+      is_active: day.is_active,
+    }))
+  );
+};
+
+// ============================================
+// DATE OVERRIDES
+// ============================================
+
+const daySpan = (override: Pick<AvailabilityOverride, 'start_date' | 'end_date'>): number => {
+  return (Date.parse(override.end_date) - Date.parse(override.start_date)) / 86_400_000;
+};
+
+/**
+ * Override that applies to a host-local date ('yyyy-MM-dd'), if any.
+ * When several cover the same date the most specific (shortest range) wins,
+ * so a one-off open Saturday inside a closed vacation still opens.
+ */
+export const findOverrideForDate = <T extends Pick<AvailabilityOverride, 'start_date' | 'end_date' | 'created_at'>>(
+  overrides: T[],
+  dateKey: string
+): T | undefined => {
+  return overrides
+    .filter((o) => o.start_date <= dateKey && o.end_date >= dateKey)
+    .sort((a, b) => daySpan(a) - daySpan(b) || b.created_at.localeCompare(a.created_at))[0];
+};
+
+/**
+ * Windows open on a given host-local date: the weekly schedule for its weekday,
+ * unless a date override closes the day or replaces them with custom hours
+ */
+export const resolveDayIntervals = (
+  schedule: DaySchedule[],
+  overrides: Pick<AvailabilityOverride, 'start_date' | 'end_date' | 'is_closed' | 'intervals' | 'created_at'>[],
+  dateKey: string,
+  dayOfWeek: number
+): TimeInterval[] => {
+  const override = findOverrideForDate(overrides, dateKey);
+  if (!override) {
+    return getDayIntervals(schedule, dayOfWeek);
+  }
+
+  return override.is_closed ? [] : mergeIntervals(override.intervals);
+};
+
+// ============================================
+// SLOTS & BOOKING POLICY
+// ============================================
+
+/**
+ * Bookable slots for one host-local day. `day` must be anchored in the host
+ * zone (see getZonedDateRange) so its date and weekday are the host's.
+ */
+export const buildDaySlots = (
+  day: Date,
+  config: Pick<AvailabilityConfig, 'slotDuration' | 'bufferTime' | 'timezone'> & {
+    schedule: DaySchedule[];
+  },
+  overrides: Pick<AvailabilityOverride, 'start_date' | 'end_date' | 'is_closed' | 'intervals' | 'created_at'>[]
+): { start: Date; end: Date }[] => {
+  const intervals = resolveDayIntervals(
+    config.schedule,
+    overrides,
+    format(day, 'yyyy-MM-dd'),
+    getDayOfWeek(day)
+  );
+
+  return intervals.flatMap((interval) =>
+    generateTimeSlots(day, {
+      startTime: interval.start_time,
+      endTime: interval.end_time,
+      slotDuration: config.slotDuration,
+      bufferTime: config.bufferTime,
+      timeZone: config.timezone,
+    })
+  );
+};
+
+/**
+ * Checks a requested slot against the host's notice, window and duration
+ * rules. Returns the first violation, or null if the policy allows it.
+ */
+export const getSlotPolicyError = (
+  slot: { start: Date; end: Date },
+  config: Pick<AvailabilityConfig, 'slotDuration' | 'minNoticeHours' | 'advanceBookingDays'>,
+  now: Date = new Date()
+): BookingErrorCode | null => {
+  const window = getBookingWindow(config.minNoticeHours, config.advanceBookingDays, now);
+
+  if (slot.start < now) return 'SLOT_IN_PAST';
+  if (slot.start < window.minDate) return 'MIN_NOTICE_NOT_MET';
+  if (slot.start > window.maxDate) return 'BEYOND_BOOKING_WINDOW';
+
+  const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / 60_000;
+  if (durationMinutes !== config.slotDuration) return 'INVALID_DURATION';
+
+  return null;
+};
+
+/**
+ * Booking rules of a meeting type: its length and notice replace the host's
+ * defaults, and its buffers must be free around each booking. Slots are
+ * spaced by both buffers so back-to-back bookings of the type still fit.
+ */
+export const applyMeetingType = <T extends AvailabilityConfig & { bufferBefore: number; bufferAfter: number }>(
+  config: T,
+  meetingType: Pick<
+    MeetingType,
+    'duration_minutes' | 'buffer_before_minutes' | 'buffer_after_minutes' | 'min_notice_hours'
+  >
+): T => ({
+  ...config,
+  slotDuration: meetingType.duration_minutes,
+  bufferTime: meetingType.buffer_before_minutes + meetingType.buffer_after_minutes,
+  minNoticeHours: meetingType.min_notice_hours,
+  bufferBefore: meetingType.buffer_before_minutes,
+  bufferAfter: meetingType.buffer_after_minutes,
+});
@@ -0,0 +1,38 @@
+/**
+ * "Add to calendar" deep links for Google Calendar and Outlook
+ */
+import { formatIcsDate } from '@/lib/ics';
+
+export interface CalendarLinkEvent {
+  title: string;
+  start: Date | string;
+  end: Date | string;
+  details?: string | null;
+  location?: string | null;
+}
+
+export const getGoogleCalendarUrl = ({ title, start, end, details, location }: CalendarLinkEvent): string => {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: title,
+    dates: `${formatIcsDate(start)}/${formatIcsDate(end)}`,
+  });
+  if (details) params.set('details', details);
+  if (location) params.set('location', location);
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
+
+export const getOutlookCalendarUrl = ({ title, start, end, details, location }: CalendarLinkEvent): string => {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: title,
+    startdt: new Date(start).toISOString(),
+    enddt: new Date(end).toISOString(),
+  });
+  if (details) params.set('body', details);
+  if (location) params.set('location', location);
+
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+};
@@ -22,6 +22,7 @@ import {
   setMinutes,
 } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { TZDate } from '@date-fns/tz';
 
 // ============================================
 // FORMATTING
@@ -76,8 +77,14 @@ export interface TimeSlotConfig {
   endTime: string; // e.g., '17:00'
   slotDuration: number; // in minutes
   bufferTime?: number; // in minutes
+  timeZone?: string; // IANA zone startTime/endTime are expressed in
 }
 
+/**
+ * Slots are stepped in absolute time between the window bounds, so on DST
+ * change days the window simply gets shorter or longer instead of producing
+ * duplicated (fall back) or non-existent (spring forward) wall-clock times.
+ */
 export const generateTimeSlots = (
   date: Date,
   config: TimeSlotConfig
@@ -86,8 +93,9 @@ export const generateTimeSlots = (
   const [startHour, startMin] = config.startTime.split(':').map(Number);
   const [endHour, endMin] = config.endTime.split(':').map(Number);
 
-  let currentSlot = setMinutes(setHours(date, startHour), startMin);
-  const dayEnd = setMinutes(setHours(date, endHour), endMin);
+  const day = startOfDay(config.timeZone ? new TZDate(date, config.timeZone) : date);
+  let currentSlot = setMinutes(setHours(day, startHour), startMin);
+  const dayEnd = setMinutes(setHours(day, endHour), endMin);
 
   while (isBefore(currentSlot, dayEnd)) {
     const slotEnd = addMinutes(currentSlot, config.slotDuration);
@@ -183,6 +191,70 @@ export const fromUTC = (dateString: string): Date => {
   return parseISO(dateString);
 };
 
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getTimeZoneOptions = (): string[] => {
+  return Intl.supportedValuesOf('timeZone');
+};
+
+/**
+ * Same instant, but date-fns getters/setters operate on the wall clock of `timeZone`
+ */
+export const toZonedDate = (date: Date | string, timeZone: string): TZDate => {
+  const dateObj = typeof date === 'string' ? parseISO(date) : date;
+  return new TZDate(dateObj, timeZone);
+};
+
+export const formatInTimeZone = (
+  date: Date | string,
+  formatStr: string,
+  timeZone: string
+): string => {
+  return format(toZonedDate(date, timeZone), formatStr, { locale: es });
+};
+
+/**
+ * Calendar day ('yyyy-MM-dd') an instant falls on in `timeZone`
+ */
+export const getDateKeyInTimeZone = (date: Date | string, timeZone: string): string => {
+  return formatInTimeZone(date, 'yyyy-MM-dd', timeZone);
+};
+
+/**
+ * Short label with the zone's current UTC offset, e.g. 'Madrid (GMT+2)'
+ */
+export const getTimeZoneLabel = (timeZone: string, date: Date = new Date()): string => {
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName')?.value;
+  const city = timeZone.split('/').pop()?.replace(/_/g, ' ') ?? timeZone;
+  return offset ? `${city} (${offset})` : city;
+};
+
+export const getBrowserTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+/**
+ * Consecutive calendar days starting at the day containing `startDate`,
+ * each one anchored at midnight in `timeZone`
+ */
+export const getZonedDateRange = (
+  startDate: Date,
+  days: number,
+  timeZone: string
+): TZDate[] => {
+  const firstDay = startOfDay(toZonedDate(startDate, timeZone));
+  return Array.from({ length: days }, (_, i) => addDays(firstDay, i));
+};
+
 // ============================================
 // BUSINESS LOGIC HELPERS
 // ============================================
@@ -199,14 +271,23 @@ export const getAvailableDates = (
   );
 };
 
+export const getBookingWindow = (
+  minNoticeHours: number,
+  maxAdvanceDays: number,
+  now: Date = new Date()
+): { minDate: Date; maxDate: Date } => {
+  return {
+    minDate: addMinutes(now, minNoticeHours * 60),
+    maxDate: addDays(now, maxAdvanceDays),
+  };
+};
+
 export const isWithinBookingWindow = (
   date: Date,
   minNoticeHours: number,
   maxAdvanceDays: number
 ): boolean => {
-  const now = new Date();
-  const minDate = addMinutes(now, minNoticeHours * 60);
-  const maxDate = addDays(now, maxAdvanceDays);
+  const { minDate, maxDate } = getBookingWindow(minNoticeHours, maxAdvanceDays);
 
   return isWithinInterval(date, { start: minDate, end: maxDate });
 };
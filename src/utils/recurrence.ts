@@ -0,0 +1,185 @@
+/**
+ * Recurring event helpers (RFC 5545 RRULE)
+ * Series are stored as one event row plus its rule and expanded on read.
+ *
+ * Expansion happens in "floating" time: the host's wall-clock times are fed
+ * to rrule as if they were UTC and converted back afterwards, so a weekly
+ * 10:00 meeting stays at 10:00 across DST changes in the host's zone.
+ */
+import { TZDate } from '@date-fns/tz';
+import { RRule } from 'rrule';
+import type { Options } from 'rrule';
+
+export interface RecurringSource {
+  start_time: string;
+  end_time: string;
+  rrule: string | null;
+  exdates: string[] | null;
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+// Upper bound for COUNT, and for how many occurrences one expansion builds;
+// keeps full expansions (recurrence end) cheap
+export const MAX_RECURRENCE_COUNT = 730;
+
+// The frequencies EventForm offers; anything finer would expand to thousands
+// of occurrences per day
+const ALLOWED_FREQUENCIES = [RRule.DAILY, RRule.WEEKLY, RRule.MONTHLY, RRule.YEARLY];
+
+// ============================================
+// FLOATING TIME
+// ============================================
+
+const toFloating = (date: Date, timeZone: string): Date => {
+  const wall = new TZDate(date, timeZone);
+  return new Date(
+    Date.UTC(
+      wall.getFullYear(),
+      wall.getMonth(),
+      wall.getDate(),
+      wall.getHours(),
+      wall.getMinutes(),
+      wall.getSeconds()
+    )
+  );
+};
+
+const fromFloating = (floating: Date, timeZone: string): Date => {
+  return new Date(
+    TZDate.tz(
+      timeZone,
+      floating.getUTCFullYear(),
+      floating.getUTCMonth(),
+      floating.getUTCDate(),
+      floating.getUTCHours(),
+      floating.getUTCMinutes(),
+      floating.getUTCSeconds()
+    )
+  );
+};
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * 'RRULE:FREQ=WEEKLY;BYDAY=MO' or 'FREQ=WEEKLY;BYDAY=MO' -> rule options.
+ * DTSTART is not allowed: the series starts at the event's own start_time.
+ */
+const parseRule = (rule: string): Partial<Options> | null => {
+  const normalized = rule.trim().replace(/^RRULE:/i, '');
+  if (!normalized || /DTSTART/i.test(normalized)) {
+    return null;
+  }
+
+  try {
+    const options = RRule.parseString(normalized);
+    return options.freq !== undefined && ALLOWED_FREQUENCIES.includes(options.freq) ? options : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isValidRRule = (rule: string): boolean => {
+  const options = parseRule(rule);
+  return !!options && (options.count ?? 0) <= MAX_RECURRENCE_COUNT;
+};
+
+/**
+ * Drops the 'RRULE:' prefix so rules are stored the same way
+ */
+export const normalizeRRule = (rule: string): string => {
+  return rule.trim().replace(/^RRULE:/i, '');
+};
+
+const buildRule = (source: Pick<RecurringSource, 'start_time' | 'rrule'>, timeZone: string): RRule | null => {
+  const options = source.rrule ? parseRule(source.rrule) : null;
+  if (!options) {
+    return null;
+  }
+
+  return new RRule({
+    ...options,
+    dtstart: toFloating(new Date(source.start_time), timeZone),
+    // UNTIL is an instant; compare it in the same floating time as the rest
+    until: options.until ? toFloating(options.until, timeZone) : null,
+  });
+};
+
+// ============================================
+// EXPANSION
+// ============================================
+
+/**
+ * Occurrences of a series overlapping [rangeStart, rangeEnd), skipping the
+ * ones listed in exdates (deleted, or detached as separate events)
+ */
+export const expandOccurrences = (
+  source: RecurringSource,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string
+): Occurrence[] => {
+  const durationMs = Date.parse(source.end_time) - Date.parse(source.start_time);
+  const rule = buildRule(source, timeZone);
+
+  if (!rule) {
+    const start = new Date(source.start_time);
+    const end = new Date(source.end_time);
+    return start < rangeEnd && end > rangeStart ? [{ start, end }] : [];
+  }
+
+  const excluded = new Set((source.exdates || []).map((date) => Date.parse(date)));
+
+  // Occurrences that started before the range may still be running in it
+  return rule
+    .between(
+      toFloating(new Date(rangeStart.getTime() - durationMs), timeZone),
+      toFloating(rangeEnd, timeZone),
+      true,
+      (_, i) => i < MAX_RECURRENCE_COUNT
+    )
+    .map((floating) => fromFloating(floating, timeZone))
+    .filter((start) => !excluded.has(start.getTime()))
+    .map((start) => ({ start, end: new Date(start.getTime() + durationMs) }))
+    .filter((occurrence) => occurrence.start < rangeEnd && occurrence.end > rangeStart);
+};
+
+/**
+ * When the last occurrence of a series ends, or null if it repeats forever.
+ * Stored as events.recurrence_end so queries can skip finished series; for
+ * a long UNTIL series it's the UNTIL itself, never earlier than the real end.
+ */
+export const getRecurrenceEnd = (
+  source: Pick<RecurringSource, 'start_time' | 'end_time' | 'rrule'>,
+  timeZone: string
+): Date | null => {
+  const rule = buildRule(source, timeZone);
+  if (!rule) {
+    return new Date(source.end_time);
+  }
+
+  if (!rule.options.count && !rule.options.until) {
+    return null;
+  }
+
+  const occurrences = rule.all((_, i) => i < MAX_RECURRENCE_COUNT);
+  const last = occurrences[occurrences.length - 1];
+  if (!last) {
+    return new Date(source.end_time);
+  }
+
+  const durationMs = Date.parse(source.end_time) - Date.parse(source.start_time);
+
+  // Too many occurrences to list: the series still runs until UNTIL, so end
+  // it there rather than hide the later ones
+  if (!rule.options.count && rule.options.until && occurrences.length === MAX_RECURRENCE_COUNT) {
+    return new Date(fromFloating(rule.options.until, timeZone).getTime() + durationMs);
+  }
+
+  return new Date(fromFloating(last, timeZone).getTime() + durationMs);
+};
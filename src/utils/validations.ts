@@ -3,11 +3,20 @@
  * Provides type-safe validation for forms and API inputs
  */
 import { z } from 'zod';
+import { isValidTimeZone } from '@/utils/dateHelpers';
+import { doIntervalsOverlap, timeToMinutes } from '@/utils/availability';
+import { isValidRRule } from '@/utils/recurrence';
 
 // ============================================
 // EVENT SCHEMAS
 // ============================================
 
+// RFC 5545 rule without DTSTART, e.g. 'FREQ=WEEKLY;BYDAY=MO;COUNT=10'
+const rruleSchema = z
+  .string()
+  .max(500, 'La regla de repetición es demasiado larga')
+  .refine(isValidRRule, 'Regla de repetición inválida');
+
 const eventBaseSchema = z.object({
   title: z
     .string()
@@ -20,6 +29,7 @@ const eventBaseSchema = z.object({
     .enum(['meeting', 'booking', 'block', 'personal'])
     .default('meeting'),
   is_public: z.boolean().default(true),
+  rrule: rruleSchema.optional().nullable(),
 });
 
 export const createEventSchema = eventBaseSchema.refine(
@@ -44,6 +54,33 @@ export const updateEventSchema = z.object({
     .enum(['meeting', 'booking', 'block', 'personal'])
     .optional(),
   is_public: z.boolean().optional(),
+  rrule: rruleSchema.optional().nullable(),
+}).refine(
+  (data) => {
+    if (data.start_time && data.end_time) {
+      return new Date(data.end_time) > new Date(data.start_time);
+    }
+    return true;
+  },
+  {
+    message: 'La fecha de fin debe ser posterior a la fecha de inicio',
+    path: ['end_time'],
+  }
+);
+
+// Edits a single occurrence of a recurring series, detaching it from the rule
+export const updateOccurrenceSchema = z.object({
+  event_id: z.string().uuid(),
+  occurrence_start: z.string().datetime('Ocurrencia inválida'),
+  title: z
+    .string()
+    .min(1, 'El título es requerido')
+    .max(255, 'El título debe tener máximo 255 caracteres')
+    .optional(),
+  description: z.string().optional().nullable(),
+  start_time: z.string().datetime('Fecha de inicio inválida').optional(),
+  end_time: z.string().datetime('Fecha de fin inválida').optional(),
+  is_public: z.boolean().optional(),
 }).refine(
   (data) => {
     if (data.start_time && data.end_time) {
@@ -57,8 +94,19 @@ export const updateEventSchema = z.object({
   }
 );
 
+// Live overlap check while the admin fills the event form
+export const eventOverlapCheckSchema = z.object({
+  start_time: z.string().datetime('Fecha de inicio inválida'),
+  end_time: z.string().datetime('Fecha de fin inválida'),
+  event_type: z.enum(['meeting', 'booking', 'block', 'personal']),
+  rrule: rruleSchema.optional().nullable(),
+  event_id: z.string().uuid().optional(), // event being edited, ignored
+});
+
 export type CreateEventInput = z.infer<typeof createEventSchema>;
 export type UpdateEventInput = z.infer<typeof updateEventSchema>;
+export type UpdateOccurrenceInput = z.infer<typeof updateOccurrenceSchema>;
+export type EventOverlapCheckInput = z.infer<typeof eventOverlapCheckSchema>;
 
 // ============================================
 // BOOKING SCHEMAS
@@ -81,16 +129,63 @@ export const createBookingSchema = z.object({
     .optional()
     .nullable(),
   notes: z.string().max(1000, 'Las notas deben tener máximo 1000 caracteres').optional().nullable(),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, 'Zona horaria inválida')
+    .optional()
+    .nullable(),
+  meeting_type_id: z.string().uuid('Tipo de reunión inválido').optional().nullable(),
 });
 
 export const updateBookingSchema = z.object({
   id: z.string().uuid(),
-  status: z.enum(['confirmed', 'cancelled', 'completed']).optional(),
+  status: z.enum(['confirmed', 'cancelled', 'completed', 'no_show']).optional(),
   notes: z.string().max(1000).optional().nullable(),
 });
 
+export const updateBookingStatusSchema = z.object({
+  id: z.string().uuid(),
+  status: z.enum(['cancelled', 'completed', 'no_show']),
+  reason: z.string().trim().max(500, 'El motivo debe tener máximo 500 caracteres').optional().nullable(),
+});
+
+export const rescheduleBookingSchema = z.object({
+  token: z.string().min(1, 'Enlace inválido').max(200, 'Enlace inválido'),
+  slot_start: z.string().datetime('Fecha de inicio inválida'),
+  slot_end: z.string().datetime('Fecha de fin inválida'),
+});
+
+// The host cancelling one of their bookings (REST API)
+export const cancelHostBookingSchema = updateBookingStatusSchema.pick({ reason: true });
+
+// The host moving one of their bookings (REST API)
+export const rescheduleHostBookingSchema = z.object({
+  id: z.string().uuid('Reserva inválida'),
+  slot_start: z.string().datetime('Fecha de inicio inválida'),
+  slot_end: z.string().datetime('Fecha de fin inválida'),
+});
+
+export const getBookingsQuerySchema = z.object({
+  page: z.number().int().min(1).default(1),
+  page_size: z.number().int().min(5).max(100).default(20),
+  status: z.enum(['confirmed', 'cancelled', 'completed', 'no_show']).optional(),
+  event_type: z.enum(['meeting', 'booking', 'block', 'personal']).optional(),
+  from: z.string().datetime('Fecha desde inválida').optional(),
+  to: z.string().datetime('Fecha hasta inválida').optional(),
+  when: z.enum(['all', 'upcoming', 'past']).default('all'),
+  search: z.string().trim().max(100, 'La búsqueda debe tener máximo 100 caracteres').optional(),
+  sort_by: z.enum(['start_time', 'created_at', 'title']).default('start_time'),
+  sort_dir: z.enum(['asc', 'desc']).default('asc'),
+});
+
 export type CreateBookingInput = z.infer<typeof createBookingSchema>;
 export type UpdateBookingInput = z.infer<typeof updateBookingSchema>;
+export type UpdateBookingStatusInput = z.infer<typeof updateBookingStatusSchema>;
+export type RescheduleBookingInput = z.infer<typeof rescheduleBookingSchema>;
+export type CancelHostBookingInput = z.infer<typeof cancelHostBookingSchema>;
+export type RescheduleHostBookingInput = z.infer<typeof rescheduleHostBookingSchema>;
+// Input type: paging and sorting fields fall back to their defaults
+export type GetBookingsQuery = z.input<typeof getBookingsQuerySchema>;
 
 // ============================================
 // AVAILABILITY RULE SCHEMAS
@@ -152,6 +247,336 @@ export const updateAvailabilityRuleSchema = z.object({
 export type CreateAvailabilityRuleInput = z.infer<typeof createAvailabilityRuleSchema>;
 export type UpdateAvailabilityRuleInput = z.infer<typeof updateAvailabilityRuleSchema>;
 
+// ============================================
+// WEEKLY SCHEDULE SCHEMAS
+// ============================================
+
+export const timeIntervalSchema = z.object({
+  start_time: z
+    .string()
+    .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:mm)'),
+  end_time: z
+    .string()
+    .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:mm)'),
+}).refine(
+  (data) => timeToMinutes(data.end_time) > timeToMinutes(data.start_time),
+  {
+    message: 'La hora de fin debe ser posterior a la hora de inicio',
+    path: ['end_time'],
+  }
+);
+
+const addIntervalOverlapIssues = (
+  intervals: z.infer<typeof timeIntervalSchema>[],
+  ctx: z.RefinementCtx
+) => {
+  intervals.forEach((interval, i) => {
+    const overlapsPrevious = intervals
+      .slice(0, i)
+      .some((other) => doIntervalsOverlap(interval, other));
+    if (overlapsPrevious) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Las franjas horarias no pueden superponerse',
+        path: ['intervals', i],
+      });
+    }
+  });
+};
+
+export const dayScheduleSchema = z.object({
+  day_of_week: z
+    .number()
+    .int()
+    .min(0, 'Día inválido')
+    .max(6, 'Día inválido'),
+  is_active: z.boolean(),
+  intervals: z.array(timeIntervalSchema).max(12, 'Máximo 12 franjas por día'),
+}).superRefine((data, ctx) => {
+  if (data.is_active && data.intervals.length === 0) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Agregá al menos una franja horaria',
+      path: ['intervals'],
+    });
+  }
+
+  addIntervalOverlapIssues(data.intervals, ctx);
+});
+
+export const weeklyScheduleSchema = z
+  .array(dayScheduleSchema)
+  .refine(
+    (days) => new Set(days.map((d) => d.day_of_week)).size === days.length,
+    { message: 'Cada día puede aparecer una sola vez' }
+  );
+
+export type DayScheduleInput = z.infer<typeof dayScheduleSchema>;
+
+// ============================================
+// AVAILABILITY OVERRIDE SCHEMAS
+// ============================================
+
+export const availabilityOverrideSchema = z.object({
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha inválida'),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha inválida'),
+  is_closed: z.boolean(),
+  intervals: z.array(timeIntervalSchema).max(12, 'Máximo 12 franjas por día').default([]),
+  reason: z.string().max(255, 'El motivo debe tener máximo 255 caracteres').optional().nullable(),
+}).superRefine((data, ctx) => {
+  if (data.end_date < data.start_date) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'La fecha de fin debe ser igual o posterior a la de inicio',
+      path: ['end_date'],
+    });
+  }
+
+  if (!data.is_closed && data.intervals.length === 0) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Agregá al menos una franja horaria',
+      path: ['intervals'],
+    });
+  }
+
+  addIntervalOverlapIssues(data.intervals, ctx);
+});
+
+export type AvailabilityOverrideInput = z.infer<typeof availabilityOverrideSchema>;
+
+// ============================================
+// CALENDAR SETTINGS SCHEMAS
+// ============================================
+
+export const calendarSettingsSchema = z.object({
+  slot_duration: z.number().int().min(15).max(480),
+  buffer_time: z.number().int().min(0).max(120),
+  advance_booking_days: z.number().int().min(1).max(365),
+  min_notice_hours: z.number().int().min(0).max(168),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, 'Zona horaria inválida'),
+  cancellation_cutoff_hours: z.number().int().min(0).max(168),
+  // Minutes before the booking; at most a week ahead
+  reminder_offsets: z
+    .array(z.number().int().min(5, 'El recordatorio mínimo es 5 minutos antes').max(10080, 'El recordatorio máximo es 7 días antes'))
+    .max(5, 'Máximo 5 recordatorios')
+    .refine((offsets) => new Set(offsets).size === offsets.length, 'Recordatorios duplicados'),
+});
+
+export type CalendarSettingsInput = z.infer<typeof calendarSettingsSchema>;
+
+// ============================================
+// EVENT TYPE POLICY SCHEMAS
+// ============================================
+
+export const eventTypePolicySchema = z.object({
+  // Bookings always block availability, so they can't be configured
+  event_type: z.enum(['meeting', 'block', 'personal']),
+  overlap_policy: z.enum(['blocks', 'allows_overlap', 'informational']),
+});
+
+export const eventTypePoliciesSchema = z
+  .array(eventTypePolicySchema)
+  .refine(
+    (policies) => new Set(policies.map((p) => p.event_type)).size === policies.length,
+    'Cada tipo de evento puede tener una sola política'
+  );
+
+export type EventTypePolicyInput = z.infer<typeof eventTypePolicySchema>;
+
+// ============================================
+// CALENDAR FEED SCHEMAS
+// ============================================
+
+export const calendarFeedOptionsSchema = z.object({
+  include_private: z.boolean(),
+  include_attendees: z.boolean(),
+});
+
+export type CalendarFeedOptionsInput = z.infer<typeof calendarFeedOptionsSchema>;
+
+// ============================================
+// EXTERNAL CALENDAR SCHEMAS
+// ============================================
+
+// Uploaded .ics files (the sync reads URLs up to the same size)
+const MAX_ICS_LENGTH = 5 * 1024 * 1024;
+
+const externalCalendarNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'El nombre es requerido')
+  .max(100, 'El nombre no puede exceder 100 caracteres');
+
+export const externalCalendarSchema = z.discriminatedUnion('source_type', [
+  z.object({
+    source_type: z.literal('url'),
+    name: externalCalendarNameSchema,
+    url: z
+      .string()
+      .trim()
+      .regex(/^(https?|webcals?):\/\/[^\s]+$/i, 'La URL debe empezar con https:// o webcal://')
+      .max(2000, 'La URL es demasiado larga'),
+  }),
+  z.object({
+    source_type: z.literal('file'),
+    name: externalCalendarNameSchema,
+    ics_content: z
+      .string()
+      .max(MAX_ICS_LENGTH, 'El archivo es demasiado grande (máximo 5 MB)')
+      .refine((content) => /^\s*BEGIN:VCALENDAR/i.test(content), 'El archivo no es un calendario .ics'),
+  }),
+]);
+
+export type ExternalCalendarInput = z.infer<typeof externalCalendarSchema>;
+
+// ============================================
+// WEBHOOK SCHEMAS
+// ============================================
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url('URL inválida')
+  .regex(/^https:\/\//i, 'La URL debe empezar con https://')
+  .max(2000, 'La URL es demasiado larga');
+
+const webhookEventsSchema = z
+  .array(z.enum(['booking.created', 'booking.cancelled', 'booking.rescheduled', 'event.created', 'event.updated', 'event.deleted']))
+  .min(1, 'Elegí al menos un evento');
+
+export const webhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+});
+
+export const updateWebhookSchema = z.object({
+  id: z.string().uuid(),
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  is_active: z.boolean().optional(),
+});
+
+export type WebhookInput = z.infer<typeof webhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+
+// ============================================
+// MEETING TYPE SCHEMAS
+// ============================================
+
+export const meetingTypeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre debe tener máximo 100 caracteres'),
+  slug: z
+    .string()
+    .trim()
+    .min(1, 'La URL es requerida')
+    .max(60, 'La URL debe tener máximo 60 caracteres')
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'La URL solo puede tener minúsculas, números y guiones'),
+  description: z.string().trim().max(1000, 'La descripción debe tener máximo 1000 caracteres').optional().nullable(),
+  duration_minutes: z
+    .number()
+    .int()
+    .min(5, 'La duración mínima es 5 minutos')
+    .max(480, 'La duración máxima es 8 horas'),
+  buffer_before_minutes: z.number().int().min(0).max(240, 'El margen máximo es 4 horas'),
+  buffer_after_minutes: z.number().int().min(0).max(240, 'El margen máximo es 4 horas'),
+  min_notice_hours: z.number().int().min(0).max(168, 'La anticipación máxima es 1 semana'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color inválido'),
+  is_active: z.boolean(),
+});
+
+export const updateMeetingTypeSchema = meetingTypeSchema.extend({
+  id: z.string().uuid(),
+});
+
+export type MeetingTypeInput = z.infer<typeof meetingTypeSchema>;
+export type UpdateMeetingTypeInput = z.infer<typeof updateMeetingTypeSchema>;
+
+// ============================================
+// HOST PROFILE SCHEMAS
+// ============================================
+
+// Top-level routes of the app (see host_profiles.sql)
+export const RESERVED_USERNAMES = ['admin', 'api', 'appointment', 'booking', 'invite', 'login', 'logout', 'settings', 'static'];
+
+export const hostProfileSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(3, 'El usuario debe tener al menos 3 caracteres')
+    .max(30, 'El usuario debe tener máximo 30 caracteres')
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'El usuario solo puede tener minúsculas, números y guiones')
+    .refine((username) => !RESERVED_USERNAMES.includes(username), 'Ese nombre de usuario no está disponible'),
+  display_name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre debe tener máximo 100 caracteres'),
+  bio: z.string().trim().max(1000, 'La descripción debe tener máximo 1000 caracteres').optional().nullable(),
+});
+
+export type HostProfileInput = z.infer<typeof hostProfileSchema>;
+
+// ============================================
+// ORGANIZATION SCHEMAS
+// ============================================
+
+export const organizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre debe tener máximo 100 caracteres'),
+});
+
+// The owner role isn't handed out (see organizations.sql)
+const memberRoleSchema = z.enum(['admin', 'staff', 'viewer']);
+
+export const organizationInviteSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Email inválido')
+    .max(255, 'El email debe tener máximo 255 caracteres'),
+  role: memberRoleSchema,
+});
+
+export const updateMemberRoleSchema = z.object({
+  user_id: z.string().uuid(),
+  role: memberRoleSchema,
+});
+
+export type OrganizationInput = z.infer<typeof organizationSchema>;
+export type OrganizationInviteInput = z.infer<typeof organizationInviteSchema>;
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
+
+// ============================================
+// API KEY SCHEMAS
+// ============================================
+
+export const apiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre debe tener máximo 100 caracteres'),
+  rate_limit_per_minute: z
+    .number()
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1 solicitud por minuto')
+    .max(1000, 'El límite debe ser como máximo 1000 solicitudes por minuto'),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+
 // ============================================
 // AUTH SCHEMAS
 // ============================================
@@ -193,9 +618,11 @@ export const getEventsQuerySchema = z.object({
   is_public: z.boolean().optional(),
 });
 
+// Query strings, so numbers are coerced
 export const getAvailableSlotsQuerySchema = z.object({
-  date: z.string().datetime(),
-  duration: z.number().int().min(15).max(480).default(30), // 15 min to 8 hours
+  date: z.string().datetime('Fecha inválida'),
+  days: z.coerce.number().int().min(1).max(90).optional(), // defaults to the whole booking window
+  meeting_type_id: z.string().uuid('Tipo de reunión inválido').optional(), // its duration and buffers apply
 });
 
 export type GetEventsQuery = z.infer<typeof getEventsQuerySchema>;